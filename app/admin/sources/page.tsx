@@ -0,0 +1,214 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import PropertySelector, { useSelectedProperty } from "../../components/PropertySelector";
+
+interface UnclassifiedSource {
+  source: string;
+  medium: string;
+  sessions: number;
+  leads: number;
+}
+
+interface ChannelCategory {
+  id: string;
+  name: string;
+  icon: string;
+}
+
+function SourceRow({
+  source,
+  categories,
+  onAssign,
+}: {
+  source: UnclassifiedSource;
+  categories: ChannelCategory[];
+  onAssign: (category: string, displayName: string) => Promise<void>;
+}) {
+  const [category, setCategory] = useState(categories[0]?.id ?? "");
+  const [displayName, setDisplayName] = useState(source.source);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAssign = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onAssign(category, displayName);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save rule");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <tr className="border-b border-gray-50 hover:bg-gray-50">
+      <td className="py-2 px-4 font-medium text-gray-900">{source.source}</td>
+      <td className="py-2 px-2 text-gray-500">{source.medium}</td>
+      <td className="py-2 px-2 text-right text-gray-700">{source.sessions.toLocaleString()}</td>
+      <td className="py-2 px-2 text-right font-semibold text-gray-900">{source.leads.toLocaleString()}</td>
+      <td className="py-2 px-2">
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white text-gray-700"
+        >
+          {categories.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.icon} {c.name}
+            </option>
+          ))}
+        </select>
+      </td>
+      <td className="py-2 px-2">
+        <input
+          type="text"
+          value={displayName}
+          onChange={(e) => setDisplayName(e.target.value)}
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md text-gray-700"
+        />
+      </td>
+      <td className="py-2 px-4 text-right">
+        <button
+          onClick={handleAssign}
+          disabled={isSaving || !category}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving ? "Saving..." : "Assign"}
+        </button>
+        {error && <div className="text-xs text-red-600 mt-1">{error}</div>}
+      </td>
+    </tr>
+  );
+}
+
+export default function SourceReviewPage() {
+  const [sources, setSources] = useState<UnclassifiedSource[]>([]);
+  const [categories, setCategories] = useState<ChannelCategory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [property, setProperty] = useSelectedProperty();
+
+  const fetchData = useCallback(async () => {
+    if (property === null) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/analytics/taxonomy?property=${encodeURIComponent(property)}`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to fetch sources");
+      }
+
+      setSources(result.data.sources);
+      setCategories(result.data.categories);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [property]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const assignSource = async (source: UnclassifiedSource, category: string, displayName: string) => {
+    const response = await fetch("/api/analytics/taxonomy", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ property, source: source.source, medium: source.medium, category, displayName }),
+    });
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to save rule");
+    }
+
+    // Classified now, so it no longer belongs on this list
+    setSources((prev) => prev.filter((s) => s.source !== source.source || s.medium !== source.medium));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Unclassified Sources</h1>
+              <p className="text-gray-500 text-sm mt-1">
+                Sources in &quot;Other&quot; over the last 90 days. Assigning one saves a taxonomy rule.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <PropertySelector value={property ?? ""} onChange={setProperty} />
+              <Link
+                href="/weekly"
+                className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+              >
+                Weekly Report
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6">
+        {error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+            <h2 className="text-lg font-semibold text-red-800 mb-2">Error</h2>
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={fetchData}
+              className="mt-4 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
+            >
+              Retry
+            </button>
+          </div>
+        ) : isLoading ? (
+          <div className="animate-pulse space-y-3">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded" />
+            ))}
+          </div>
+        ) : sources.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 text-center text-gray-500">
+            Every source from the last 90 days matches a taxonomy rule.
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 bg-gray-50">
+                    <th className="text-left py-3 px-4 font-medium text-gray-500">Source</th>
+                    <th className="text-left py-3 px-2 font-medium text-gray-500">Medium</th>
+                    <th className="text-right py-3 px-2 font-medium text-gray-500">Sessions</th>
+                    <th className="text-right py-3 px-2 font-medium text-gray-500">Leads</th>
+                    <th className="text-left py-3 px-2 font-medium text-gray-500">Category</th>
+                    <th className="text-left py-3 px-2 font-medium text-gray-500">Display Name</th>
+                    <th className="py-3 px-4" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {sources.map((source) => (
+                    <SourceRow
+                      key={`${source.source}|${source.medium}`}
+                      source={source}
+                      categories={categories}
+                      onAssign={(category, displayName) => assignSource(source, category, displayName)}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import PropertySelector, { usePropertyTimeZone, useSelectedProperty } from "../components/PropertySelector";
+import { addDays, dateInTimeZone } from "@/lib/dates";
+
+type AlertStatus = "open" | "acknowledged" | "snoozed" | "resolved";
+
+interface AlertStateChange {
+  at: string;
+  status: AlertStatus;
+  snoozedUntil?: string;
+  note?: string;
+}
+
+interface StoredAlert {
+  id: string;
+  kind: "anomaly" | "rule";
+  subject: string;
+  date: string;
+  message: string;
+  status: AlertStatus;
+  snoozedUntil: string | null;
+  note: string | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  history: AlertStateChange[];
+}
+
+const STATUS_FILTERS: Array<{ value: AlertStatus | ""; label: string }> = [
+  { value: "", label: "All" },
+  { value: "open", label: "Open" },
+  { value: "acknowledged", label: "Acknowledged" },
+  { value: "snoozed", label: "Snoozed" },
+  { value: "resolved", label: "Resolved" },
+];
+
+const STATUS_COLORS: Record<AlertStatus, string> = {
+  open: "bg-red-50 text-red-700 border-red-200",
+  acknowledged: "bg-blue-50 text-blue-700 border-blue-200",
+  snoozed: "bg-amber-50 text-amber-700 border-amber-200",
+  resolved: "bg-green-50 text-green-700 border-green-200",
+};
+
+function AlertRow({
+  alert,
+  timeZone,
+  onChange,
+}: {
+  alert: StoredAlert;
+  timeZone?: string;
+  onChange: (change: { status: AlertStatus; note: string; snoozedUntil?: string }) => Promise<void>;
+}) {
+  const today = dateInTimeZone(new Date(), timeZone || "UTC");
+  const [status, setStatus] = useState<AlertStatus>(alert.status);
+  const [note, setNote] = useState(alert.note ?? "");
+  const [snoozedUntil, setSnoozedUntil] = useState(alert.snoozedUntil ?? addDays(today, 7));
+  const [showHistory, setShowHistory] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onChange({ status, note, ...(status === "snoozed" ? { snoozedUntil } : {}) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update alert");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <tr className="border-b border-gray-50 hover:bg-gray-50 align-top">
+        <td className="py-2 px-4 text-gray-700 whitespace-nowrap">{alert.date}</td>
+        <td className="py-2 px-2">
+          <div className="font-medium text-gray-900">{alert.message}</div>
+          <div className="text-xs text-gray-500 mt-0.5">
+            {alert.kind === "rule" ? `Rule ${alert.subject}` : `Anomaly in ${alert.subject}`} · last seen{" "}
+            {new Date(alert.lastSeenAt).toLocaleString()}
+          </div>
+          <button
+            onClick={() => setShowHistory((prev) => !prev)}
+            className="text-xs text-blue-600 hover:underline mt-1"
+          >
+            {showHistory ? "Hide history" : `History (${alert.history.length})`}
+          </button>
+        </td>
+        <td className="py-2 px-2">
+          <span className={`px-2 py-0.5 text-xs font-medium border rounded-full capitalize ${STATUS_COLORS[alert.status]}`}>
+            {alert.status}
+          </span>
+          {alert.status === "snoozed" && alert.snoozedUntil && (
+            <div className="text-xs text-gray-500 mt-1">until {alert.snoozedUntil}</div>
+          )}
+        </td>
+        <td className="py-2 px-2 space-y-1">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as AlertStatus)}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white text-gray-700 capitalize"
+          >
+            {STATUS_FILTERS.filter((s) => s.value).map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+          {status === "snoozed" && (
+            <input
+              type="date"
+              value={snoozedUntil}
+              min={addDays(today, 1)}
+              onChange={(e) => setSnoozedUntil(e.target.value)}
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md text-gray-700"
+            />
+          )}
+        </td>
+        <td className="py-2 px-2">
+          <input
+            type="text"
+            value={note}
+            placeholder="Note (optional)"
+            onChange={(e) => setNote(e.target.value)}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md text-gray-700"
+          />
+        </td>
+        <td className="py-2 px-4 text-right">
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </button>
+          {error && <div className="text-xs text-red-600 mt-1">{error}</div>}
+        </td>
+      </tr>
+      {showHistory && (
+        <tr className="border-b border-gray-50 bg-gray-50">
+          <td />
+          <td colSpan={5} className="py-2 px-2">
+            <ul className="text-xs text-gray-600 space-y-1">
+              {alert.history.map((change, i) => (
+                <li key={i}>
+                  <span className="text-gray-400">{new Date(change.at).toLocaleString()}</span>{" "}
+                  <span className="font-medium capitalize">{change.status}</span>
+                  {change.snoozedUntil && ` until ${change.snoozedUntil}`}
+                  {change.note && ` – ${change.note}`}
+                </li>
+              ))}
+            </ul>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+export default function AlertHistoryPage() {
+  const [alerts, setAlerts] = useState<StoredAlert[]>([]);
+  const [statusFilter, setStatusFilter] = useState<AlertStatus | "">("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [property, setProperty] = useSelectedProperty();
+  const timeZone = usePropertyTimeZone(property);
+
+  const fetchData = useCallback(async () => {
+    if (property === null) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ property });
+      if (statusFilter) params.set("status", statusFilter);
+      const response = await fetch(`/api/analytics/alerts/history?${params}`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to fetch alerts");
+      }
+
+      setAlerts(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [property, statusFilter]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const updateAlert = async (alert: StoredAlert, change: { status: AlertStatus; note: string; snoozedUntil?: string }) => {
+    const response = await fetch(`/api/analytics/alerts/history/${alert.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(change),
+    });
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error || "Failed to update alert");
+    }
+
+    setAlerts((prev) =>
+      prev
+        .map((a) => (a.id === alert.id ? result.data : a))
+        // Drop it if it no longer matches the status filter
+        .filter((a) => !statusFilter || a.status === statusFilter)
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Alert History</h1>
+              <p className="text-gray-500 text-sm mt-1">
+                Anomalies and alert rules that fired. Snoozed alerts reopen on their date.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <PropertySelector value={property ?? ""} onChange={setProperty} />
+              <Link
+                href="/"
+                className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+              >
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex gap-2">
+          {STATUS_FILTERS.map((filter) => (
+            <button
+              key={filter.value}
+              onClick={() => setStatusFilter(filter.value)}
+              className={`px-3 py-1 text-sm rounded-full border ${
+                statusFilter === filter.value
+                  ? "bg-blue-600 text-white border-blue-600"
+                  : "bg-white text-gray-700 border-gray-300 hover:bg-gray-100"
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        {error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+            <h2 className="text-lg font-semibold text-red-800 mb-2">Error</h2>
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={fetchData}
+              className="mt-4 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
+            >
+              Retry
+            </button>
+          </div>
+        ) : isLoading ? (
+          <div className="animate-pulse space-y-3">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded" />
+            ))}
+          </div>
+        ) : alerts.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 text-center text-gray-500">
+            No {statusFilter || ""} alerts for this property.
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 bg-gray-50">
+                    <th className="text-left py-3 px-4 font-medium text-gray-500">Date</th>
+                    <th className="text-left py-3 px-2 font-medium text-gray-500">Alert</th>
+                    <th className="text-left py-3 px-2 font-medium text-gray-500">Status</th>
+                    <th className="text-left py-3 px-2 font-medium text-gray-500">Change to</th>
+                    <th className="text-left py-3 px-2 font-medium text-gray-500">Note</th>
+                    <th className="py-3 px-4" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {alerts.map((alert) => (
+                    <AlertRow
+                      key={alert.id}
+                      alert={alert}
+                      timeZone={timeZone}
+                      onChange={(change) => updateAlert(alert, change)}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
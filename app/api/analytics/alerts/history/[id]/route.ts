@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AlertStateError, getAlert, updateAlertState, type AlertStatus } from "@/lib/alert-store";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// One alert with its state history
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const alert = getAlert(id);
+    if (!alert) {
+      return NextResponse.json({ success: false, error: `Unknown alert "${id}"` }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, data: alert });
+  } catch (error) {
+    console.error("Alert History API Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Change an alert's state: { status, note?, snoozedUntil? }. Snoozing needs
+// snoozedUntil (YYYY-MM-DD, after today); the alert reopens on that date.
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  // Values are checked by updateAlertState
+  let body: { status: AlertStatus; note?: string; snoozedUntil?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: "Request body must be JSON" }, { status: 400 });
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { success: false, error: "Request body must be an object with a status" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const { status, note, snoozedUntil } = body;
+
+    const alert = updateAlertState(id, { status, note, snoozedUntil });
+    if (!alert) {
+      return NextResponse.json({ success: false, error: `Unknown alert "${id}"` }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, data: alert });
+  } catch (error) {
+    if (error instanceof AlertStateError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error("Alert History API Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAlertStatus, listAlerts } from "@/lib/alert-store";
+import { getProperty, UnknownPropertyError } from "@/lib/properties";
+
+// Stored alerts for a property, newest first; status= and kind= narrow the list
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get("status") || undefined;
+    const kind = searchParams.get("kind") || undefined;
+
+    if (status !== undefined && !isAlertStatus(status)) {
+      return NextResponse.json(
+        { success: false, error: "status must be open, acknowledged, snoozed or resolved" },
+        { status: 400 }
+      );
+    }
+    if (kind !== undefined && kind !== "anomaly" && kind !== "rule") {
+      return NextResponse.json(
+        { success: false, error: "kind must be anomaly or rule" },
+        { status: 400 }
+      );
+    }
+
+    const property = getProperty(searchParams.get("property")).id;
+    return NextResponse.json({ success: true, data: listAlerts({ property, status, kind }) });
+  } catch (error) {
+    if (error instanceof UnknownPropertyError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error("Alert History API Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAlertConfig } from "@/lib/alert-rules";
+import { getAlertRuleStatuses, runAlertRules } from "@/lib/alerts";
+
+// Configured rules with their last run, and the channels they notify (ids
+// and types only; URLs and addresses can hold secrets)
+export async function GET() {
+  try {
+    const { channels } = getAlertConfig();
+    return NextResponse.json({
+      success: true,
+      data: {
+        rules: getAlertRuleStatuses(),
+        channels: channels.map(({ id, type }) => ({ id, type })),
+      },
+    });
+  } catch (error) {
+    console.error("Alerts API Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Run the rules that are due; a cron job can call this every few minutes.
+// { rule: "id" } limits the run to one rule and { force: true } runs it even
+// if it isn't due.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { rule, force } = body as { rule?: string; force?: boolean };
+
+    if (rule !== undefined && !getAlertConfig().rules.some((r) => r.id === rule)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown rule "${rule}"` },
+        { status: 400 }
+      );
+    }
+
+    const results = await runAlertRules({ force: force === true, ruleIds: rule ? [rule] : undefined });
+    return NextResponse.json({ success: true, data: results });
+  } catch (error) {
+    console.error("Alerts API Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { clearReportCache, getReportCacheStats } from "@/lib/report-cache";
+
+export async function GET() {
+  return NextResponse.json({ success: true, data: getReportCacheStats() });
+}
+
+export async function DELETE() {
+  clearReportCache();
+  return NextResponse.json({ success: true, data: getReportCacheStats() });
+}
@@ -1,14 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
 import { chat, generateReport, type ChatMessage } from "@/lib/ai-agent";
+import { parseReportFilter, type ReportFilter } from "@/lib/report-filters";
+import { UnknownPropertyError } from "@/lib/properties";
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { message, history = [], action } = body;
+    const { message, history = [], action, property } = body;
+
+    let filter: ReportFilter | undefined;
+    try {
+      filter = body.filter ? parseReportFilter(body.filter) : undefined;
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : "Invalid filter" },
+        { status: 400 }
+      );
+    }
 
     if (action === "report") {
       const reportType = body.reportType || "weekly";
-      const report = await generateReport(reportType);
+      const report = await generateReport(reportType, property, filter);
       return NextResponse.json({ success: true, response: report });
     }
 
@@ -19,9 +31,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const response = await chat(message, history as ChatMessage[]);
+    const response = await chat(message, history as ChatMessage[], property, filter);
     return NextResponse.json({ success: true, response });
   } catch (error) {
+    if (error instanceof UnknownPropertyError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
     console.error("Chat API Error:", error);
     return NextResponse.json(
       { success: false, error: error instanceof Error ? error.message : "Unknown error" },
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTrackingHealth } from "@/lib/tracking-health";
+import { UnknownPropertyError } from "@/lib/properties";
+
+// Tracking health of every lead event plus Search Console, over complete days
+// ending yesterday
+export async function GET(request: NextRequest) {
+  try {
+    const property = request.nextUrl.searchParams.get("property") || undefined;
+    const { data, quality } = await getTrackingHealth({ property });
+    return NextResponse.json({ success: true, data, quality });
+  } catch (error) {
+    if (error instanceof UnknownPropertyError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error("Tracking Health API Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
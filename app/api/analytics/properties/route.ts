@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getProperties } from "@/lib/properties";
+
+export async function GET() {
+  try {
+    const data = getProperties().map(({ id, name, timezone }) => ({ id, name, timezone }));
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("Properties API Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
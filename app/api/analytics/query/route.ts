@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPropertyMetadata, runQuery, type ReportOptions } from "@/lib/ga-client";
+import { parseReportQuery, QueryValidationError, type ReportQuery } from "@/lib/report-query";
+import { filterFromSearchParams } from "@/lib/report-filters";
+import { UnknownPropertyError } from "@/lib/properties";
+
+// Dimensions and metrics the property can be queried with, custom
+// definitions included
+export async function GET(request: NextRequest) {
+  const options: ReportOptions = { property: request.nextUrl.searchParams.get("property") || undefined };
+
+  try {
+    const metadata = await getPropertyMetadata(options);
+    const fields = (items: Array<{ apiName?: string | null; uiName?: string | null; customDefinition?: boolean | null }>) =>
+      items.map((item) => ({ apiName: item.apiName, uiName: item.uiName, custom: item.customDefinition ?? false }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        dimensions: fields(metadata.dimensions || []),
+        metrics: fields(metadata.metrics || []),
+      },
+    });
+  } catch (error) {
+    if (error instanceof UnknownPropertyError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error("Query Metadata API Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Run any report: POST { dimensions, metrics, dateRanges, dimensionFilter,
+// metricFilter, orderBys, limit, offset }. Rejected queries get a 400 with
+// every problem listed in `problems`. A `filter` query parameter is added on
+// top of the query's own filters, as on the other routes.
+export async function POST(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const options: ReportOptions = { property: searchParams.get("property") || undefined };
+
+  try {
+    options.filter = filterFromSearchParams(searchParams);
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Invalid filter" },
+      { status: 400 }
+    );
+  }
+
+  let query: ReportQuery;
+  try {
+    query = parseReportQuery(await request.json());
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof QueryValidationError ? error.message : "Request body must be JSON",
+        problems: error instanceof QueryValidationError ? error.problems : undefined,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { data, quality } = await runQuery(query, options);
+    return NextResponse.json({ success: true, data, quality });
+  } catch (error) {
+    if (error instanceof QueryValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message, problems: error.problems },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnknownPropertyError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error("Query API Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
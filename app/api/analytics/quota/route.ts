@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProperty, UnknownPropertyError } from "@/lib/properties";
+import { getQuotaStatus } from "@/lib/quota";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { propertyId } = getProperty(request.nextUrl.searchParams.get("property"));
+    return NextResponse.json({ success: true, data: getQuotaStatus(propertyId) });
+  } catch (error) {
+    if (error instanceof UnknownPropertyError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error("Quota API Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
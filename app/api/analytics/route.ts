@@ -6,8 +6,21 @@ import {
   getTrafficSources,
   comparePeriods,
   detectAnomalies,
+  scanLeadAnomalies,
+  DEFAULT_LEAD_WINDOW_DAYS,
+  DEFAULT_TOP_SOURCES,
   type DateRange,
+  type ReportOptions,
 } from "@/lib/ga-client";
+import { filterFromSearchParams, isEmptyFilter } from "@/lib/report-filters";
+import { trackAnomalies } from "@/lib/alerts";
+import {
+  DEFAULT_ANOMALY_THRESHOLD,
+  DEFAULT_LOOKBACK_DAYS,
+  MAX_LOOKBACK_DAYS,
+  MIN_LOOKBACK_DAYS,
+} from "@/lib/anomalies";
+import { UnknownPropertyError } from "@/lib/properties";
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
@@ -16,63 +29,117 @@ export async function GET(request: NextRequest) {
   const endDate = searchParams.get("endDate") || "today";
 
   const dateRange: DateRange = { startDate, endDate };
+  const options: ReportOptions = { property: searchParams.get("property") || undefined };
+
+  try {
+    options.filter = filterFromSearchParams(searchParams);
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Invalid filter" },
+      { status: 400 }
+    );
+  }
 
   try {
     switch (action) {
       case "metrics": {
-        const data = await getMetrics(dateRange);
-        return NextResponse.json({ success: true, data });
+        const { data, quality } = await getMetrics(dateRange, undefined, options);
+        return NextResponse.json({ success: true, data, quality });
       }
 
       case "aggregated": {
-        const data = await getAggregatedMetrics(dateRange);
-        return NextResponse.json({ success: true, data });
+        const { data, quality } = await getAggregatedMetrics(dateRange, options);
+        return NextResponse.json({ success: true, data, quality });
       }
 
       case "topPages": {
         const limit = parseInt(searchParams.get("limit") || "10");
-        const data = await getTopPages(dateRange, limit);
-        return NextResponse.json({ success: true, data });
+        const { data, quality } = await getTopPages(dateRange, limit, options);
+        return NextResponse.json({ success: true, data, quality });
       }
 
       case "trafficSources": {
-        const data = await getTrafficSources(dateRange);
-        return NextResponse.json({ success: true, data });
+        const { data, quality } = await getTrafficSources(dateRange, options);
+        return NextResponse.json({ success: true, data, quality });
       }
 
       case "compare": {
         const period2Start = searchParams.get("period2StartDate") || "14daysAgo";
         const period2End = searchParams.get("period2EndDate") || "8daysAgo";
         const period2: DateRange = { startDate: period2Start, endDate: period2End };
-        const data = await comparePeriods(dateRange, period2);
-        return NextResponse.json({ success: true, data });
+        const { data, quality } = await comparePeriods(dateRange, period2, options);
+        return NextResponse.json({ success: true, data, quality });
       }
 
       case "anomalies": {
         const metric = searchParams.get("metric") || "users";
-        const threshold = parseFloat(searchParams.get("threshold") || "2");
-        const data = await detectAnomalies(metric, threshold);
-        return NextResponse.json({ success: true, data });
+        const threshold = parseFloat(searchParams.get("threshold") || String(DEFAULT_ANOMALY_THRESHOLD));
+        const lookbackDays = parseInt(searchParams.get("lookbackDays") || String(DEFAULT_LOOKBACK_DAYS));
+        if (!(threshold > 0)) {
+          return NextResponse.json(
+            { success: false, error: "threshold must be a positive number" },
+            { status: 400 }
+          );
+        }
+        if (!Number.isInteger(lookbackDays) || lookbackDays < MIN_LOOKBACK_DAYS || lookbackDays > MAX_LOOKBACK_DAYS) {
+          return NextResponse.json(
+            { success: false, error: `lookbackDays must be between ${MIN_LOOKBACK_DAYS} and ${MAX_LOOKBACK_DAYS}` },
+            { status: 400 }
+          );
+        }
+        if (metric === "leads") {
+          // Lead events per category and top source, summed over windowDays
+          const windowDays = parseInt(searchParams.get("windowDays") || String(DEFAULT_LEAD_WINDOW_DAYS));
+          const topSources = parseInt(searchParams.get("topSources") || String(DEFAULT_TOP_SOURCES));
+          if (!Number.isInteger(windowDays) || windowDays < 1 || windowDays > 28) {
+            return NextResponse.json(
+              { success: false, error: "windowDays must be between 1 and 28" },
+              { status: 400 }
+            );
+          }
+          if (!Number.isInteger(topSources) || topSources < 0 || topSources > 50) {
+            return NextResponse.json(
+              { success: false, error: "topSources must be between 0 and 50" },
+              { status: 400 }
+            );
+          }
+          const { data, quality } = await scanLeadAnomalies(threshold, { ...options, lookbackDays, windowDays, topSources });
+          return NextResponse.json({ success: true, data, quality });
+        }
+        const { data, quality } = await detectAnomalies(metric, threshold, { ...options, lookbackDays });
+        return NextResponse.json({ success: true, data, quality });
       }
 
       case "dashboard": {
         const [aggregated, metrics, topPages, trafficSources, anomalies] =
           await Promise.all([
-            getAggregatedMetrics(dateRange),
-            getMetrics(dateRange),
-            getTopPages(dateRange, 5),
-            getTrafficSources(dateRange),
-            detectAnomalies("users"),
+            getAggregatedMetrics(dateRange, options),
+            getMetrics(dateRange, undefined, options),
+            getTopPages(dateRange, 5, options),
+            getTrafficSources(dateRange, options),
+            detectAnomalies("users", undefined, options),
           ]);
 
         return NextResponse.json({
           success: true,
           data: {
-            aggregated,
-            metrics,
-            topPages,
-            trafficSources,
-            anomalies,
+            aggregated: aggregated.data,
+            metrics: metrics.data,
+            topPages: topPages.data,
+            trafficSources: trafficSources.data,
+            // With a filter the anomalies are for a segment, not the site, so
+            // they aren't stored as alerts
+            anomalies: isEmptyFilter(options.filter)
+              ? { ...anomalies.data, anomalies: trackAnomalies("users", anomalies.data.anomalies, options.property) }
+              : anomalies.data,
+          },
+          // Data quality per section, keyed like data
+          quality: {
+            aggregated: aggregated.quality,
+            metrics: metrics.quality,
+            topPages: topPages.quality,
+            trafficSources: trafficSources.quality,
+            anomalies: anomalies.quality,
           },
         });
       }
@@ -84,6 +151,9 @@ export async function GET(request: NextRequest) {
         );
     }
   } catch (error) {
+    if (error instanceof UnknownPropertyError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
     console.error("Analytics API Error:", error);
     return NextResponse.json(
       { success: false, error: error instanceof Error ? error.message : "Unknown error" },
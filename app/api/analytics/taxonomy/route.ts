@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUnclassifiedSources } from "@/lib/ga-client";
+import { addSourceRule, getChannelTaxonomy } from "@/lib/channel-taxonomy";
+import { UnknownPropertyError } from "@/lib/properties";
+
+// Unclassified source/medium pairs from the last 90 days, with the categories
+// they can be assigned to
+export async function GET(request: NextRequest) {
+  try {
+    const property = request.nextUrl.searchParams.get("property") || undefined;
+    const taxonomy = getChannelTaxonomy(property);
+    const { data: sources, quality } = await getUnclassifiedSources(undefined, { property });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        sources,
+        categories: taxonomy.categories.filter((category) => category.id !== taxonomy.fallbackCategory),
+      },
+      quality,
+    });
+  } catch (error) {
+    if (error instanceof UnknownPropertyError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error("Taxonomy API Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Assign a category (and optionally a display name) to one source/medium pair
+export async function POST(request: NextRequest) {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: "Request body must be JSON" }, { status: 400 });
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { success: false, error: "Request body must be an object with source, medium and category" },
+      { status: 400 }
+    );
+  }
+
+  const { property, source, medium, category, displayName } = body;
+  if (typeof source !== "string" || !source.trim() || typeof medium !== "string" || typeof category !== "string" || !category) {
+    return NextResponse.json(
+      { success: false, error: "source, medium and category are required strings" },
+      { status: 400 }
+    );
+  }
+  if ((displayName != null && typeof displayName !== "string") || (property != null && typeof property !== "string")) {
+    return NextResponse.json(
+      { success: false, error: "displayName and property must be strings" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!getChannelTaxonomy(property).categories.some((c) => c.id === category)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown category "${category}"` },
+        { status: 400 }
+      );
+    }
+
+    const rule = addSourceRule({ source, medium, category, displayName: displayName ?? undefined }, property);
+    return NextResponse.json({ success: true, data: rule });
+  } catch (error) {
+    if (error instanceof UnknownPropertyError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error("Taxonomy API Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  explainChannelBreakdown,
+  getReportPeriod,
+  type DateRange,
+  type ReportOptions,
+} from "@/lib/ga-client";
+import { getChannelCategories } from "@/lib/channel-taxonomy";
+import { filterFromSearchParams } from "@/lib/report-filters";
+import { UnknownPropertyError } from "@/lib/properties";
+
+// How each raw source/medium in the weekly breakdown was classified. Accepts
+// the same period parameters as /api/analytics/weekly.
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const options: ReportOptions = { property: searchParams.get("property") || undefined };
+
+  let currentPeriod: DateRange;
+
+  try {
+    options.filter = filterFromSearchParams(searchParams);
+    currentPeriod = getReportPeriod(searchParams, options).range;
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Invalid period or filter" },
+      { status: 400 }
+    );
+  }
+  try {
+    const { data: traces, quality } = await explainChannelBreakdown(currentPeriod, options);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        period: currentPeriod,
+        categories: getChannelCategories(options.property),
+        traces,
+      },
+      quality,
+    });
+  } catch (error) {
+    if (error instanceof UnknownPropertyError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error("Classification API Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
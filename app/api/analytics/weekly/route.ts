@@ -7,57 +7,187 @@ import {
   compareWithLastYear,
   getConversionsByChannel,
   getDetailedChannelBreakdown,
-  getLastCompleteWeek,
+  getReportPeriod,
   getSameWeekLastYear,
+  emptyLeadCounts,
   type DateRange,
+  type BreakdownOptions,
+  type ComparisonOptions,
+  type LeadCounts,
 } from "@/lib/ga-client";
+import type { ResolvedPeriod } from "@/lib/report-periods";
+import { filterFromSearchParams } from "@/lib/report-filters";
+import { getProperty, type LeadEventDefinition, UnknownPropertyError } from "@/lib/properties";
+import { isRedistributionStrategy, REDISTRIBUTION_STRATEGIES } from "@/lib/lead-redistribution";
+import { COMPARISON_MODES, DEFAULT_COMPARISON_MODE, isComparisonMode } from "@/lib/dates";
+import { holidaysInRange } from "@/lib/holidays";
+import { mergeQuality, type DataQuality, type ReportResult } from "@/lib/data-quality";
+
+type SectionLoaders = Record<string, () => Promise<ReportResult<unknown>>>;
+
+// Run every section independently so one failed GA call only blanks its own
+// part of the report
+async function settleSections<T extends SectionLoaders>(loaders: T): Promise<{
+  results: { [K in keyof T]?: Awaited<ReturnType<T[K]>>["data"] };
+  quality: Record<string, DataQuality>;
+  errors: Record<string, string>;
+}> {
+  const names = Object.keys(loaders) as Array<keyof T & string>;
+  const settled = await Promise.allSettled(names.map((name) => loaders[name]()));
+
+  const results: { [K in keyof T]?: Awaited<ReturnType<T[K]>>["data"] } = {};
+  const quality: Record<string, DataQuality> = {};
+  const errors: Record<string, string> = {};
+
+  settled.forEach((outcome, i) => {
+    const name = names[i];
+    if (outcome.status === "fulfilled") {
+      results[name] = outcome.value.data as Awaited<ReturnType<T[typeof name]>>["data"];
+      quality[name] = outcome.value.quality;
+    } else {
+      console.error(`Weekly Analytics section "${name}" failed:`, outcome.reason);
+      errors[name] = outcome.reason instanceof Error ? outcome.reason.message : "Unknown error";
+    }
+  });
+
+  return { results, quality, errors };
+}
+
+// Total worth of the leads, or null when no lead event has a value configured
+function leadValue(leads: LeadCounts, leadEvents: LeadEventDefinition[]): number | null {
+  if (!leadEvents.some((event) => event.value !== undefined)) return null;
+  return leadEvents.reduce((sum, event) => sum + (leads[event.name] || 0) * (event.value || 0), 0);
+}
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const periodType = searchParams.get("period") || "lastWeek";
+  const options: BreakdownOptions & ComparisonOptions = { property: searchParams.get("property") || undefined };
 
-  let currentPeriod: DateRange;
+  const comparisonMode = searchParams.get("comparison") || DEFAULT_COMPARISON_MODE;
+  if (!isComparisonMode(comparisonMode)) {
+    return NextResponse.json(
+      { success: false, error: `comparison must be one of: ${COMPARISON_MODES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  options.comparison = comparisonMode;
 
-  if (periodType === "lastWeek") {
-    currentPeriod = getLastCompleteWeek();
-  } else {
-    currentPeriod = {
-      startDate: searchParams.get("startDate") || "7daysAgo",
-      endDate: searchParams.get("endDate") || "yesterday",
-    };
+  const redistribution = searchParams.get("redistribution");
+  if (redistribution) {
+    if (!isRedistributionStrategy(redistribution)) {
+      return NextResponse.json(
+        { success: false, error: `redistribution must be one of: ${REDISTRIBUTION_STRATEGIES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    options.redistribution = redistribution;
   }
 
-  const lastYearPeriod = getSameWeekLastYear(currentPeriod);
+  let reportPeriod: ResolvedPeriod;
+  let lastYearPeriod: DateRange;
 
   try {
-    const [weeklyData, leads, topPages, trafficSources, comparison, conversionsByChannel, detailedBreakdownResult] = await Promise.all([
-      getWeeklyDashboardMetrics(currentPeriod),
-      getLeadsAndConversions(currentPeriod),
-      getTopPages(currentPeriod, 10),
-      getTrafficSources(currentPeriod),
-      compareWithLastYear(currentPeriod),
-      getConversionsByChannel(currentPeriod),
-      getDetailedChannelBreakdown(currentPeriod),
-    ]);
-
-    const { breakdown: detailedBreakdown, rawPhoneCallsBySource } = detailedBreakdownResult;
-
-    // Aggregate totals from detailed breakdown (same data the tables use)
-    const allSources = Object.values(detailedBreakdown).flat();
-    const breakdownTotals = allSources.reduce(
-      (acc, s) => ({
-        sessions: acc.sessions + s.sessions,
-        users: acc.users + s.users,
-        conversions: acc.conversions + s.conversions,
-        formSubmissions: acc.formSubmissions + s.formSubmissions,
-        phoneCalls: acc.phoneCalls + s.phoneCalls,
-      }),
-      { sessions: 0, users: 0, conversions: 0, formSubmissions: 0, phoneCalls: 0 }
+    options.filter = filterFromSearchParams(searchParams);
+    reportPeriod = getReportPeriod(searchParams, options);
+    lastYearPeriod = getSameWeekLastYear(reportPeriod.range, options);
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Invalid period or filter" },
+      { status: 400 }
     );
+  }
+  const currentPeriod = reportPeriod.range;
+
+  try {
+    const { leadEvents } = getProperty(options.property);
+    const sections = await settleSections({
+      weeklyData: () => getWeeklyDashboardMetrics(currentPeriod, options),
+      leads: () => getLeadsAndConversions(currentPeriod, options),
+      topPages: () => getTopPages(currentPeriod, 10, options),
+      trafficSources: () => getTrafficSources(currentPeriod, options),
+      comparison: () => compareWithLastYear(currentPeriod, options),
+      conversionsByChannel: () => getConversionsByChannel(currentPeriod, options),
+      detailedBreakdown: () => getDetailedChannelBreakdown(currentPeriod, options),
+    });
+
+    const { weeklyData, leads, topPages, trafficSources, comparison, conversionsByChannel, detailedBreakdown: detailedBreakdownResult } = sections.results;
+    const errors: Record<string, string> = { ...sections.errors };
+
+    // Nothing to show at all: report it like before
+    if (Object.keys(sections.results).length === 0) {
+      throw new Error(Object.values(errors)[0]);
+    }
+
+    // Lead totals come from the detailed breakdown (same data the tables use),
+    // falling back to the channel-group conversions if the breakdown failed
+    let leadTotals: { users?: number; conversions: number; leads: LeadCounts } | null = null;
+    let clickToLeadRate = 0;
 
-    const clickToLeadRate = breakdownTotals.sessions > 0
-      ? (breakdownTotals.conversions / breakdownTotals.sessions) * 100
-      : 0;
+    if (detailedBreakdownResult) {
+      const allSources = Object.values(detailedBreakdownResult.breakdown).flat();
+      const breakdownTotals = { sessions: 0, users: 0, conversions: 0, leads: emptyLeadCounts(leadEvents) };
+      for (const s of allSources) {
+        breakdownTotals.sessions += s.sessions;
+        breakdownTotals.users += s.users;
+        breakdownTotals.conversions += s.conversions;
+        for (const [name, count] of Object.entries(s.leads)) {
+          breakdownTotals.leads[name] = (breakdownTotals.leads[name] || 0) + count;
+        }
+      }
+      // Events kept on the Unattributed row still count as leads
+      for (const [name, count] of Object.entries(detailedBreakdownResult.redistribution.remaining)) {
+        breakdownTotals.leads[name] = (breakdownTotals.leads[name] || 0) + count;
+      }
+
+      leadTotals = {
+        users: breakdownTotals.users,
+        conversions: breakdownTotals.conversions,
+        leads: breakdownTotals.leads,
+      };
+      clickToLeadRate = breakdownTotals.sessions > 0
+        ? (breakdownTotals.conversions / breakdownTotals.sessions) * 100
+        : 0;
+    } else if (conversionsByChannel) {
+      leadTotals = {
+        conversions: conversionsByChannel.totalConversions,
+        leads: conversionsByChannel.leads,
+      };
+    }
+
+    let totals = null;
+    if (weeklyData && leadTotals) {
+      if (!detailedBreakdownResult) {
+        clickToLeadRate = weeklyData.totals.sessions > 0
+          ? (leadTotals.conversions / weeklyData.totals.sessions) * 100
+          : 0;
+      }
+      totals = {
+        ...weeklyData.totals,
+        ...leadTotals,
+        leadValue: leadValue(leadTotals.leads, leadEvents),
+        clickToLeadRate,
+      };
+    } else {
+      errors.totals = errors.weeklyData || errors.detailedBreakdown;
+    }
+
+    if (errors.weeklyData) {
+      errors.daily = errors.weeklyData;
+      delete errors.weeklyData;
+    }
+
+    // Sampling, thresholding and truncation per section, keyed like the
+    // response fields (and like errors)
+    const { weeklyData: dailyQuality, ...quality } = sections.quality;
+    if (dailyQuality) {
+      quality.daily = dailyQuality;
+    }
+    if (totals) {
+      quality.totals = mergeQuality(
+        dailyQuality,
+        detailedBreakdownResult ? sections.quality.detailedBreakdown : sections.quality.conversionsByChannel
+      );
+    }
 
     return NextResponse.json({
       success: true,
@@ -65,30 +195,44 @@ export async function GET(request: NextRequest) {
         period: {
           current: currentPeriod,
           lastYear: lastYearPeriod,
+          label: reportPeriod.label,
+          // Query parameters for this period and its neighbours
+          selection: reportPeriod.selection,
+          previous: reportPeriod.previous,
+          next: reportPeriod.next,
+          comparisonMode,
+          // Holidays and events that may distort the comparison
+          holidays: {
+            current: holidaysInRange(currentPeriod, options.property),
+            lastYear: holidaysInRange(lastYearPeriod, options.property),
+          },
         },
-        totals: {
-          ...weeklyData.totals,
-          users: breakdownTotals.users,
-          conversions: breakdownTotals.conversions,
-          formSubmissions: breakdownTotals.formSubmissions,
-          phoneCalls: breakdownTotals.phoneCalls,
-          clickToLeadRate,
-        },
-        daily: weeklyData.daily,
-        leads,
-        topPages,
-        trafficSources,
-        conversionsByChannel: conversionsByChannel.byChannel,
-        detailedBreakdown,
-        rawPhoneCallsBySource,
-        comparison: {
-          current: comparison.current,
-          lastYear: comparison.lastYear,
-          changes: comparison.changes,
-        },
+        leadEvents,
+        totals,
+        daily: weeklyData?.daily ?? null,
+        leads: leads ?? null,
+        topPages: topPages ?? null,
+        trafficSources: trafficSources ?? null,
+        conversionsByChannel: conversionsByChannel?.byChannel ?? null,
+        detailedBreakdown: detailedBreakdownResult?.breakdown ?? null,
+        channelCategories: detailedBreakdownResult?.categories ?? null,
+        redistribution: detailedBreakdownResult?.redistribution ?? null,
+        comparison: comparison
+          ? {
+              current: { ...comparison.current, leadValue: leadValue(comparison.current.leads, leadEvents) },
+              lastYear: { ...comparison.lastYear, leadValue: leadValue(comparison.lastYear.leads, leadEvents) },
+              changes: comparison.changes,
+              leadChanges: comparison.leadChanges,
+            }
+          : null,
+        quality,
+        errors,
       },
     });
   } catch (error) {
+    if (error instanceof UnknownPropertyError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
     console.error("Weekly Analytics API Error:", error);
     return NextResponse.json(
       { success: false, error: error instanceof Error ? error.message : "Unknown error" },
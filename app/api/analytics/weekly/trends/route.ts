@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getChannelTrends,
+  MAX_TREND_WEEKS,
+  MIN_TREND_WEEKS,
+  type ReportOptions,
+} from "@/lib/ga-client";
+import { filterFromSearchParams } from "@/lib/report-filters";
+import { UnknownPropertyError } from "@/lib/properties";
+
+// Weekly sessions and lead events per channel category for the last
+// `weeks` complete weeks (12 by default, up to 52)
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const options: ReportOptions = { property: searchParams.get("property") || undefined };
+
+  const weeks = parseInt(searchParams.get("weeks") || String(MIN_TREND_WEEKS));
+  if (!Number.isInteger(weeks) || weeks < MIN_TREND_WEEKS || weeks > MAX_TREND_WEEKS) {
+    return NextResponse.json(
+      { success: false, error: `weeks must be between ${MIN_TREND_WEEKS} and ${MAX_TREND_WEEKS}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    options.filter = filterFromSearchParams(searchParams);
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Invalid filter" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { data, quality } = await getChannelTrends(weeks, options);
+
+    return NextResponse.json({ success: true, data, quality });
+  } catch (error) {
+    if (error instanceof UnknownPropertyError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    console.error("Trends API Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
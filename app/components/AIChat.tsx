@@ -1,13 +1,20 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
+import type { ReportFilter } from "@/lib/report-filters";
 
 interface Message {
   role: "user" | "assistant";
   content: string;
 }
 
-export default function AIChat() {
+interface AIChatProps {
+  property?: string;
+  // Report filter the dashboard is showing; tool calls use it too
+  filter?: ReportFilter;
+}
+
+export default function AIChat({ property, filter }: AIChatProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -33,7 +40,7 @@ export default function AIChat() {
       const response = await fetch("/api/analytics/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: userMessage, history: messages }),
+        body: JSON.stringify({ message: userMessage, history: messages, property, filter }),
       });
 
       const data = await response.json();
@@ -73,7 +80,7 @@ export default function AIChat() {
       const response = await fetch("/api/analytics/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "report", reportType }),
+        body: JSON.stringify({ action: "report", reportType, property, filter }),
       });
 
       const data = await response.json();
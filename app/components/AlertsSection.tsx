@@ -1,22 +1,53 @@
 "use client";
 
+import { useState } from "react";
+import Link from "next/link";
+import DataQualityBadge from "./DataQualityBadge";
+import type { DataQuality } from "@/lib/data-quality";
+import { addDays, dateInTimeZone } from "@/lib/dates";
+
+type AlertStatus = "open" | "acknowledged" | "snoozed" | "resolved";
+
+// How long "Snooze" hides an alert from the dashboard
+const SNOOZE_DAYS = 7;
+
 interface Anomaly {
   date: string;
   value: number;
-  deviation: number;
+  // Usual value for that weekday and the band around it
+  expected: number;
+  lower: number;
+  upper: number;
+  score: number;
+  // Holidays on that date, which often explain the anomaly
+  holiday?: string;
+  // Stored alert state; missing when the anomalies are for a filtered segment
+  alertId?: string;
+  status?: AlertStatus;
+  snoozedUntil?: string | null;
 }
 
 interface AlertsSectionProps {
   anomalies: Anomaly[];
   metric: string;
   isLoading?: boolean;
+  quality?: DataQuality | null;
+  // Property timezone, for the snooze date
+  timeZone?: string;
 }
 
 export default function AlertsSection({
   anomalies,
   metric,
   isLoading,
+  quality,
+  timeZone,
 }: AlertsSectionProps) {
+  const [showAll, setShowAll] = useState(false);
+  // State changes made here since the dashboard loaded, by alert id
+  const [changed, setChanged] = useState<Record<string, AlertStatus>>({});
+  const [error, setError] = useState<string | null>(null);
+
   if (isLoading) {
     return (
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -30,10 +61,13 @@ export default function AlertsSection({
     );
   }
 
-  const getAlertType = (deviation: number): "high" | "low" => {
-    return deviation > 0 ? "high" : "low";
+  const getAlertType = (score: number): "high" | "low" => {
+    return score > 0 ? "high" : "low";
   };
 
+  const formatValue = (value: number): string =>
+    value.toLocaleString("en-US", { maximumFractionDigits: Math.abs(value) < 10 ? 2 : 0 });
+
   const getAlertColor = (type: "high" | "low"): string => {
     return type === "high"
       ? "bg-green-50 border-green-200 text-green-800"
@@ -44,28 +78,68 @@ export default function AlertsSection({
     return type === "high" ? "↑" : "↓";
   };
 
+  const statusOf = (anomaly: Anomaly): AlertStatus =>
+    (anomaly.alertId && changed[anomaly.alertId]) || anomaly.status || "open";
+
+  const visible = showAll ? anomalies : anomalies.filter((anomaly) => statusOf(anomaly) === "open");
+  const hiddenCount = anomalies.length - visible.length;
+
+  const setStatus = async (alertId: string, status: AlertStatus) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/analytics/alerts/history/${alertId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          status,
+          ...(status === "snoozed"
+            ? { snoozedUntil: addDays(dateInTimeZone(new Date(), timeZone || "UTC"), SNOOZE_DAYS) }
+            : {}),
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || "Failed to update alert");
+      }
+      setChanged((prev) => ({ ...prev, [alertId]: status }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update alert");
+    }
+  };
+
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-      <h3 className="text-lg font-semibold text-gray-900 mb-4">
-        Anomaly Alerts
-      </h3>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">
+          Anomaly Alerts
+        </h3>
+        <div className="flex items-center gap-2">
+          <DataQualityBadge quality={quality} />
+          <Link href="/alerts" className="text-xs text-blue-600 hover:underline">
+            History
+          </Link>
+        </div>
+      </div>
 
-      {anomalies.length === 0 ? (
+      {error && <p className="text-xs text-red-600 mb-3">{error}</p>}
+
+      {visible.length === 0 ? (
         <div className="text-center py-6">
           <div className="w-12 h-12 mx-auto mb-3 bg-green-100 rounded-full flex items-center justify-center">
             <span className="text-green-600 text-xl">✓</span>
           </div>
           <p className="text-gray-600 text-sm">
-            No unusual activity detected in {metric}
+            {hiddenCount > 0 ? `No open alerts for ${metric}` : `No unusual activity detected in ${metric}`}
           </p>
         </div>
       ) : (
         <div className="space-y-3">
-          {anomalies.map((anomaly, index) => {
-            const type = getAlertType(anomaly.deviation);
+          {visible.map((anomaly) => {
+            const type = getAlertType(anomaly.score);
+            const status = statusOf(anomaly);
             return (
               <div
-                key={index}
+                key={anomaly.alertId ?? anomaly.date}
                 className={`p-4 rounded-lg border ${getAlertColor(type)}`}
               >
                 <div className="flex items-start gap-3">
@@ -80,10 +154,40 @@ export default function AlertsSection({
                         weekday: "long",
                         month: "short",
                         day: "numeric",
+                        timeZone: "UTC",
                       })}
-                      : {anomaly.value.toLocaleString()} ({anomaly.deviation > 0 ? "+" : ""}
-                      {anomaly.deviation.toFixed(1)} standard deviations)
                     </p>
+                    <p className="text-sm mt-1">
+                      Expected {formatValue(anomaly.lower)}–{formatValue(anomaly.upper)}, got{" "}
+                      <span className="font-semibold">{formatValue(anomaly.value)}</span>
+                    </p>
+                    {anomaly.holiday && (
+                      <p className="text-xs mt-1">📅 {anomaly.holiday}</p>
+                    )}
+                    {anomaly.alertId && (
+                      <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                        {status !== "open" && (
+                          <span className="px-2 py-0.5 rounded-full bg-white/70 border border-current capitalize">{status}</span>
+                        )}
+                        {status === "open" ? (
+                          <>
+                            <button onClick={() => setStatus(anomaly.alertId!, "acknowledged")} className="underline hover:no-underline">
+                              Acknowledge
+                            </button>
+                            <button onClick={() => setStatus(anomaly.alertId!, "snoozed")} className="underline hover:no-underline">
+                              Snooze {SNOOZE_DAYS} days
+                            </button>
+                            <button onClick={() => setStatus(anomaly.alertId!, "resolved")} className="underline hover:no-underline">
+                              Resolve
+                            </button>
+                          </>
+                        ) : (
+                          <button onClick={() => setStatus(anomaly.alertId!, "open")} className="underline hover:no-underline">
+                            Reopen
+                          </button>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -91,6 +195,15 @@ export default function AlertsSection({
           })}
         </div>
       )}
+
+      {(hiddenCount > 0 || showAll) && (
+        <button
+          onClick={() => setShowAll((prev) => !prev)}
+          className="mt-3 text-xs text-gray-500 hover:text-gray-700"
+        >
+          {showAll ? "Show open alerts only" : `Show ${hiddenCount} acknowledged, snoozed or resolved`}
+        </button>
+      )}
     </div>
   );
 }
@@ -12,6 +12,8 @@ import {
   AreaChart,
   Area,
 } from "recharts";
+import DataQualityBadge from "./DataQualityBadge";
+import type { DataQuality } from "@/lib/data-quality";
 
 interface ChartProps {
   data: Array<{
@@ -24,6 +26,7 @@ interface ChartProps {
   type?: "line" | "area";
   metrics?: Array<"users" | "sessions" | "pageviews" | "bounceRate">;
   height?: number;
+  quality?: DataQuality | null;
 }
 
 const metricColors: Record<string, string> = {
@@ -45,10 +48,13 @@ export default function Chart({
   type = "area",
   metrics = ["users", "sessions"],
   height = 300,
+  quality,
 }: ChartProps) {
   const formatDate = (dateStr: string) => {
+    // Calendar dates parse as UTC midnight; formatting in local time would
+    // show the previous day west of UTC
     const date = new Date(dateStr);
-    return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+    return date.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
   };
 
   const formattedData = data.map((item) => ({
@@ -61,9 +67,12 @@ export default function Chart({
 
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-      <h3 className="text-lg font-semibold text-gray-900 mb-4">
-        Traffic Overview
-      </h3>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">
+          Traffic Overview
+        </h3>
+        <DataQualityBadge quality={quality} />
+      </div>
       <ResponsiveContainer width="100%" height={height}>
         <ChartComponent data={formattedData}>
           <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
@@ -0,0 +1,29 @@
+"use client";
+
+import { qualityIssues, type DataQuality } from "@/lib/data-quality";
+
+interface DataQualityBadgeProps {
+  quality?: DataQuality | null;
+}
+
+// Marks a section whose numbers GA sampled, thresholded or cut short, or
+// that the report filter's metric conditions skipped; renders nothing when
+// the data is exact
+export default function DataQualityBadge({ quality }: DataQualityBadgeProps) {
+  const issues = qualityIssues(quality);
+  if (issues.length === 0) return null;
+
+  return (
+    <span className="inline-flex flex-wrap gap-1 align-middle">
+      {issues.map((issue) => (
+        <span
+          key={issue.label}
+          title={issue.description}
+          className="px-2 py-0.5 text-xs font-medium bg-amber-50 text-amber-700 border border-amber-200 rounded-full cursor-help"
+        >
+          ⚠ {issue.label}
+        </span>
+      ))}
+    </span>
+  );
+}
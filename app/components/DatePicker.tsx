@@ -1,10 +1,12 @@
 "use client";
 
 import { useState } from "react";
-import { format, subDays, startOfMonth, startOfWeek } from "date-fns";
+import { addDays, dateInTimeZone, startOfMonth, startOfWeek } from "@/lib/dates";
 
 interface DatePickerProps {
   onDateChange: (startDate: string, endDate: string) => void;
+  // Property reporting timezone; presets fall back to the browser's timezone
+  timeZone?: string;
 }
 
 type PresetRange = "today" | "yesterday" | "7days" | "30days" | "thisWeek" | "thisMonth";
@@ -18,7 +20,7 @@ const presets: Array<{ label: string; value: PresetRange }> = [
   { label: "This month", value: "thisMonth" },
 ];
 
-export default function DatePicker({ onDateChange }: DatePickerProps) {
+export default function DatePicker({ onDateChange, timeZone }: DatePickerProps) {
   const [selectedPreset, setSelectedPreset] = useState<PresetRange>("7days");
   const [customStart, setCustomStart] = useState("");
   const [customEnd, setCustomEnd] = useState("");
@@ -28,32 +30,32 @@ export default function DatePicker({ onDateChange }: DatePickerProps) {
     setSelectedPreset(preset);
     setShowCustom(false);
 
-    const today = new Date();
+    const today = dateInTimeZone(new Date(), timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone);
     let startDate: string;
-    let endDate: string = format(today, "yyyy-MM-dd");
+    let endDate: string = today;
 
     switch (preset) {
       case "today":
-        startDate = format(today, "yyyy-MM-dd");
+        startDate = today;
         break;
       case "yesterday":
-        startDate = format(subDays(today, 1), "yyyy-MM-dd");
+        startDate = addDays(today, -1);
         endDate = startDate;
         break;
       case "7days":
-        startDate = format(subDays(today, 6), "yyyy-MM-dd");
+        startDate = addDays(today, -6);
         break;
       case "30days":
-        startDate = format(subDays(today, 29), "yyyy-MM-dd");
+        startDate = addDays(today, -29);
         break;
       case "thisWeek":
-        startDate = format(startOfWeek(today, { weekStartsOn: 1 }), "yyyy-MM-dd");
+        startDate = startOfWeek(today);
         break;
       case "thisMonth":
-        startDate = format(startOfMonth(today), "yyyy-MM-dd");
+        startDate = startOfMonth(today);
         break;
       default:
-        startDate = format(subDays(today, 6), "yyyy-MM-dd");
+        startDate = addDays(today, -6);
     }
 
     onDateChange(startDate, endDate);
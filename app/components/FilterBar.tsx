@@ -0,0 +1,349 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  isEmptyFilter,
+  isFilterGroup,
+  type FilterCondition,
+  type FilterGroup,
+  type NumericOperation,
+  type ReportFilter,
+} from "@/lib/report-filters";
+
+interface FieldOption {
+  apiName: string;
+  uiName: string;
+}
+
+interface FilterBarProps {
+  property: string;
+  filter: ReportFilter;
+  onChange: (filter: ReportFilter) => void;
+}
+
+type DimensionOperator = "is" | "isNot" | "beginsWith" | "endsWith" | "contains" | "notContains" | "regex" | "oneOf";
+
+const DIMENSION_OPERATORS: Record<DimensionOperator, string> = {
+  is: "is",
+  isNot: "is not",
+  beginsWith: "begins with",
+  endsWith: "ends with",
+  contains: "contains",
+  notContains: "doesn't contain",
+  regex: "matches regex",
+  oneOf: "is one of",
+};
+
+const METRIC_OPERATORS: Record<NumericOperation, string> = {
+  eq: "=",
+  lt: "<",
+  lte: "≤",
+  gt: ">",
+  gte: "≥",
+};
+
+// Shown before the property's metadata has loaded
+const COMMON_DIMENSIONS = ["region", "city", "country", "deviceCategory", "landingPage", "sessionSource", "sessionMedium"];
+const COMMON_METRICS = ["sessions", "activeUsers", "conversions", "screenPageViews"];
+
+function dimensionOperator(condition: FilterCondition): DimensionOperator {
+  if (condition.type === "inList") return "oneOf";
+  if (condition.type !== "string") return "is";
+  switch (condition.matchType) {
+    case "exact":
+      return condition.not ? "isNot" : "is";
+    case "contains":
+      return condition.not ? "notContains" : "contains";
+    default:
+      return condition.matchType;
+  }
+}
+
+function dimensionText(condition: FilterCondition): string {
+  if (condition.type === "inList") return condition.values.join(", ");
+  return String(condition.value);
+}
+
+function dimensionCondition(field: string, operator: DimensionOperator, text: string): FilterCondition {
+  switch (operator) {
+    case "oneOf":
+      return {
+        field,
+        type: "inList",
+        values: text.split(",").map((value) => value.trim()).filter(Boolean),
+      };
+    case "is":
+    case "isNot":
+      return { field, type: "string", matchType: "exact", value: text, not: operator === "isNot" };
+    case "contains":
+    case "notContains":
+      return { field, type: "string", matchType: "contains", value: text, not: operator === "notContains" };
+    default:
+      return { field, type: "string", matchType: operator, value: text };
+  }
+}
+
+function describeCondition(condition: FilterCondition): string {
+  if (condition.type === "numeric") {
+    return `${condition.field} ${METRIC_OPERATORS[condition.operation]} ${condition.value}`;
+  }
+  return `${condition.field} ${DIMENSION_OPERATORS[dimensionOperator(condition)]} ${dimensionText(condition)}`;
+}
+
+// Conditions the bar can edit; nested groups (only possible through the API)
+// are kept as they are
+function splitGroup(group?: FilterGroup): { op: "and" | "or"; rows: FilterCondition[]; nested: FilterGroup[] } {
+  const conditions = group?.conditions || [];
+  return {
+    op: group?.op || "and",
+    rows: conditions.filter((item): item is FilterCondition => !isFilterGroup(item)),
+    nested: conditions.filter(isFilterGroup),
+  };
+}
+
+function joinGroup(op: "and" | "or", rows: FilterCondition[], nested: FilterGroup[]): FilterGroup | undefined {
+  const conditions = [
+    ...rows.filter((row) => row.field && (row.type !== "inList" ? String(row.value) !== "" : row.values.length > 0)),
+    ...nested,
+  ];
+  return conditions.length > 0 ? { op, conditions } : undefined;
+}
+
+function useFieldOptions(property: string): { dimensions: FieldOption[]; metrics: FieldOption[] } {
+  const [fields, setFields] = useState<{ dimensions: FieldOption[]; metrics: FieldOption[] }>({
+    dimensions: COMMON_DIMENSIONS.map((apiName) => ({ apiName, uiName: apiName })),
+    metrics: COMMON_METRICS.map((apiName) => ({ apiName, uiName: apiName })),
+  });
+
+  useEffect(() => {
+    fetch(`/api/analytics/query?property=${encodeURIComponent(property)}`)
+      .then((response) => response.json())
+      .then((result) => {
+        if (result.success) {
+          setFields(result.data);
+        }
+      })
+      .catch(() => {
+        // Fields can still be typed by hand
+      });
+  }, [property]);
+
+  return fields;
+}
+
+function GroupEditor({
+  title,
+  op,
+  onOpChange,
+  rows,
+  onRowsChange,
+  nestedCount,
+  kind,
+  fieldListId,
+}: {
+  title: string;
+  op: "and" | "or";
+  onOpChange: (op: "and" | "or") => void;
+  rows: FilterCondition[];
+  onRowsChange: (rows: FilterCondition[]) => void;
+  nestedCount: number;
+  kind: "dimension" | "metric";
+  fieldListId: string;
+}) {
+  const updateRow = (index: number, row: FilterCondition) =>
+    onRowsChange(rows.map((existing, i) => (i === index ? row : existing)));
+  const addRow = () =>
+    onRowsChange([
+      ...rows,
+      kind === "dimension"
+        ? { field: "", type: "string", matchType: "exact", value: "" }
+        : { field: "", type: "numeric", operation: "gte", value: 0 },
+    ]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="font-medium text-gray-700">{title}</span>
+        {rows.length + nestedCount > 1 && (
+          <select
+            value={op}
+            onChange={(e) => onOpChange(e.target.value as "and" | "or")}
+            className="px-2 py-1 border border-gray-300 rounded text-gray-700"
+          >
+            <option value="and">all of</option>
+            <option value="or">any of</option>
+          </select>
+        )}
+        {nestedCount > 0 && <span className="text-gray-400">+ {nestedCount} nested group(s)</span>}
+      </div>
+      {rows.map((row, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2">
+          <input
+            list={fieldListId}
+            value={row.field}
+            placeholder={kind === "dimension" ? "dimension" : "metric"}
+            onChange={(e) => updateRow(index, { ...row, field: e.target.value })}
+            className="px-2 py-1 text-sm border border-gray-300 rounded w-44"
+          />
+          {row.type === "numeric" ? (
+            <>
+              <select
+                value={row.operation}
+                onChange={(e) => updateRow(index, { ...row, operation: e.target.value as NumericOperation })}
+                className="px-2 py-1 text-sm border border-gray-300 rounded"
+              >
+                {Object.entries(METRIC_OPERATORS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                value={row.value}
+                onChange={(e) => updateRow(index, { ...row, value: parseFloat(e.target.value) || 0 })}
+                className="px-2 py-1 text-sm border border-gray-300 rounded w-28"
+              />
+            </>
+          ) : (
+            <>
+              <select
+                value={dimensionOperator(row)}
+                onChange={(e) =>
+                  updateRow(index, dimensionCondition(row.field, e.target.value as DimensionOperator, dimensionText(row)))
+                }
+                className="px-2 py-1 text-sm border border-gray-300 rounded"
+              >
+                {Object.entries(DIMENSION_OPERATORS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={dimensionText(row)}
+                placeholder={dimensionOperator(row) === "oneOf" ? "a, b, c" : "value"}
+                onChange={(e) => updateRow(index, dimensionCondition(row.field, dimensionOperator(row), e.target.value))}
+                className="px-2 py-1 text-sm border border-gray-300 rounded w-56"
+              />
+            </>
+          )}
+          <button
+            onClick={() => onRowsChange(rows.filter((_, i) => i !== index))}
+            className="text-gray-400 hover:text-red-600 text-sm"
+            title="Remove condition"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button onClick={addRow} className="text-sm text-blue-600 hover:text-blue-700">
+        + Add {kind} condition
+      </button>
+    </div>
+  );
+}
+
+// Filter applied to every report on the page. Edits are drafts until Apply.
+export default function FilterBar({ property, filter, onChange }: FilterBarProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [dimensions, setDimensions] = useState(splitGroup(filter.dimensions));
+  const [metrics, setMetrics] = useState(splitGroup(filter.metrics));
+  const fields = useFieldOptions(property);
+
+  // Start from the applied filter whenever it changes or the editor opens
+  useEffect(() => {
+    setDimensions(splitGroup(filter.dimensions));
+    setMetrics(splitGroup(filter.metrics));
+  }, [filter, isOpen]);
+
+  const apply = () => {
+    const next: ReportFilter = {};
+    const dimensionGroup = joinGroup(dimensions.op, dimensions.rows, dimensions.nested);
+    const metricGroup = joinGroup(metrics.op, metrics.rows, metrics.nested);
+    if (dimensionGroup) next.dimensions = dimensionGroup;
+    if (metricGroup) next.metrics = metricGroup;
+    onChange(next);
+    setIsOpen(false);
+  };
+
+  const active = [
+    ...splitGroup(filter.dimensions).rows,
+    ...splitGroup(filter.metrics).rows,
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 px-4 py-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-700">Filter</span>
+        {isEmptyFilter(filter) ? (
+          <span className="text-sm text-gray-400">All traffic</span>
+        ) : (
+          active.map((condition, i) => (
+            <span key={i} className="px-2 py-0.5 text-xs bg-blue-50 text-blue-700 border border-blue-200 rounded-full">
+              {describeCondition(condition)}
+            </span>
+          ))
+        )}
+        <div className="ml-auto flex gap-2">
+          {!isEmptyFilter(filter) && (
+            <button onClick={() => onChange({})} className="text-sm text-gray-500 hover:text-gray-700">
+              Clear
+            </button>
+          )}
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="px-3 py-1 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            {isOpen ? "Cancel" : "Edit"}
+          </button>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4 border-t border-gray-100 pt-4">
+          <datalist id="filter-dimensions">
+            {fields.dimensions.map((field) => (
+              <option key={field.apiName} value={field.apiName}>
+                {field.uiName}
+              </option>
+            ))}
+          </datalist>
+          <datalist id="filter-metrics">
+            {fields.metrics.map((field) => (
+              <option key={field.apiName} value={field.apiName}>
+                {field.uiName}
+              </option>
+            ))}
+          </datalist>
+          <GroupEditor
+            title="Only include traffic matching"
+            op={dimensions.op}
+            onOpChange={(op) => setDimensions({ ...dimensions, op })}
+            rows={dimensions.rows}
+            onRowsChange={(rows) => setDimensions({ ...dimensions, rows })}
+            nestedCount={dimensions.nested.length}
+            kind="dimension"
+            fieldListId="filter-dimensions"
+          />
+          <GroupEditor
+            title="Only show rows where"
+            op={metrics.op}
+            onOpChange={(op) => setMetrics({ ...metrics, op })}
+            rows={metrics.rows}
+            onRowsChange={(rows) => setMetrics({ ...metrics, rows })}
+            nestedCount={metrics.nested.length}
+            kind="metric"
+            fieldListId="filter-metrics"
+          />
+          <button
+            onClick={apply}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Apply to all reports
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,15 @@
 "use client";
 
+import DataQualityBadge from "./DataQualityBadge";
+import type { DataQuality } from "@/lib/data-quality";
+
 interface MetricCardProps {
   title: string;
   value: string | number;
   change?: number;
   icon?: React.ReactNode;
   format?: "number" | "percent" | "currency";
+  quality?: DataQuality | null;
 }
 
 export default function MetricCard({
@@ -14,6 +18,7 @@ export default function MetricCard({
   change,
   icon,
   format = "number",
+  quality,
 }: MetricCardProps) {
   const formatValue = (val: string | number): string => {
     if (typeof val === "string") return val;
@@ -44,7 +49,10 @@ export default function MetricCard({
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
       <div className="flex items-center justify-between">
         <h3 className="text-sm font-medium text-gray-500">{title}</h3>
-        {icon && <div className="text-gray-400">{icon}</div>}
+        <div className="flex items-center gap-2">
+          <DataQualityBadge quality={quality} />
+          {icon && <div className="text-gray-400">{icon}</div>}
+        </div>
       </div>
       <div className="mt-2">
         <p className="text-3xl font-semibold text-gray-900">
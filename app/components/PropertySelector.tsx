@@ -0,0 +1,86 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+interface PropertyOption {
+  id: string;
+  name: string;
+  timezone: string;
+}
+
+interface PropertySelectorProps {
+  value: string;
+  onChange: (property: string) => void;
+}
+
+const STORAGE_KEY = "ga-dashboard:property";
+
+// Selected property key, remembered across visits. Stays null until the
+// stored value has been read so pages don't fetch the wrong property first.
+export function useSelectedProperty(): [string | null, (property: string) => void] {
+  const [property, setProperty] = useState<string | null>(null);
+
+  useEffect(() => {
+    setProperty(window.localStorage.getItem(STORAGE_KEY) || "");
+  }, []);
+
+  const selectProperty = useCallback((next: string) => {
+    window.localStorage.setItem(STORAGE_KEY, next);
+    setProperty(next);
+  }, []);
+
+  return [property, selectProperty];
+}
+
+function useProperties(): PropertyOption[] {
+  const [properties, setProperties] = useState<PropertyOption[]>([]);
+
+  useEffect(() => {
+    fetch("/api/analytics/properties")
+      .then((response) => response.json())
+      .then((result) => {
+        if (result.success) {
+          setProperties(result.data);
+        }
+      })
+      .catch(() => {
+        // Selector stays hidden if the property list is unavailable
+      });
+  }, []);
+
+  return properties;
+}
+
+// Reporting timezone of the selected property, so "today" on the client
+// matches GA's. Undefined until the property list has loaded.
+export function usePropertyTimeZone(property: string | null): string | undefined {
+  const properties = useProperties();
+  return (properties.find((p) => p.id === property) ?? properties[0])?.timezone;
+}
+
+export default function PropertySelector({ value, onChange }: PropertySelectorProps) {
+  const properties = useProperties();
+
+  useEffect(() => {
+    // Forget a remembered property that is no longer configured
+    if (value && properties.length > 0 && !properties.some((p) => p.id === value)) {
+      onChange(properties[0].id);
+    }
+  }, [value, properties, onChange]);
+
+  if (properties.length < 2) return null;
+
+  return (
+    <select
+      value={value || properties[0].id}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      {properties.map((property) => (
+        <option key={property.id} value={property.id}>
+          {property.name}
+        </option>
+      ))}
+    </select>
+  );
+}
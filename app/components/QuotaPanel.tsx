@@ -0,0 +1,109 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+interface QuotaBudget {
+  consumed: number;
+  remaining: number;
+  limit: number;
+}
+
+interface QuotaStatus {
+  tokensPerDay: QuotaBudget | null;
+  tokensPerHour: QuotaBudget | null;
+  concurrentRequests: { inUse: number; remaining: number | null; limit: number };
+  usage: { hourTokens: number; dayTokens: number; requestsToday: number };
+  nearlyExhausted: boolean;
+  updatedAt: string | null;
+}
+
+interface QuotaPanelProps {
+  property: string;
+  // Refetch whenever this changes, e.g. after the dashboard reloads its data
+  refreshKey?: unknown;
+}
+
+function QuotaBar({ label, budget }: { label: string; budget: QuotaBudget | null }) {
+  if (!budget) {
+    return (
+      <div>
+        <div className="flex justify-between text-sm mb-1">
+          <span className="text-gray-600">{label}</span>
+          <span className="text-gray-400">No data yet</span>
+        </div>
+        <div className="h-2 bg-gray-100 rounded-full" />
+      </div>
+    );
+  }
+
+  const remainingShare = budget.limit > 0 ? budget.remaining / budget.limit : 0;
+  const barColor = remainingShare < 0.1 ? "bg-red-500" : remainingShare < 0.3 ? "bg-yellow-500" : "bg-green-500";
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-gray-600">{label}</span>
+        <span className="text-gray-900 font-medium">
+          {budget.remaining.toLocaleString()} / {budget.limit.toLocaleString()} left
+        </span>
+      </div>
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div className={`h-2 ${barColor}`} style={{ width: `${Math.min(100, remainingShare * 100)}%` }} />
+      </div>
+    </div>
+  );
+}
+
+export default function QuotaPanel({ property, refreshKey }: QuotaPanelProps) {
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/analytics/quota?property=${encodeURIComponent(property)}`)
+      .then((response) => response.json())
+      .then((result) => {
+        if (result.success) {
+          setQuota(result.data);
+        }
+      })
+      .catch(() => {
+        // Quota is informational; keep showing the last known figures
+      });
+  }, [property, refreshKey]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">GA Quota</h3>
+        {quota?.nearlyExhausted && (
+          <span className="px-2 py-0.5 text-xs font-medium bg-red-100 text-red-700 rounded-full">
+            Nearly exhausted
+          </span>
+        )}
+      </div>
+
+      {!quota ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-6 bg-gray-200 rounded" />
+          <div className="h-6 bg-gray-200 rounded" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <QuotaBar label="Tokens this hour" budget={quota.tokensPerHour} />
+          <QuotaBar label="Tokens today" budget={quota.tokensPerDay} />
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Concurrent requests</span>
+            <span className="text-gray-900 font-medium">
+              {quota.concurrentRequests.inUse} in use
+              {quota.concurrentRequests.remaining !== null &&
+                ` · ${quota.concurrentRequests.remaining} of ${quota.concurrentRequests.limit} free`}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500">
+            This server used {quota.usage.hourTokens.toLocaleString()} tokens this hour and{" "}
+            {quota.usage.dayTokens.toLocaleString()} today across {quota.usage.requestsToday} reports
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
 "use client";
 
+import DataQualityBadge from "./DataQualityBadge";
+import type { DataQuality } from "@/lib/data-quality";
+
 interface TopPage {
   path: string;
   title: string;
@@ -10,9 +13,10 @@ interface TopPage {
 interface TopPagesTableProps {
   pages: TopPage[];
   isLoading?: boolean;
+  quality?: DataQuality | null;
 }
 
-export default function TopPagesTable({ pages, isLoading }: TopPagesTableProps) {
+export default function TopPagesTable({ pages, isLoading, quality }: TopPagesTableProps) {
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.round(seconds % 60);
@@ -34,7 +38,10 @@ export default function TopPagesTable({ pages, isLoading }: TopPagesTableProps)
 
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-      <h3 className="text-lg font-semibold text-gray-900 mb-4">Top Pages</h3>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Top Pages</h3>
+        <DataQualityBadge quality={quality} />
+      </div>
       <div className="overflow-x-auto">
         <table className="w-full">
           <thead>
@@ -0,0 +1,177 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import PropertySelector, { useSelectedProperty } from "../components/PropertySelector";
+import DataQualityBadge from "../components/DataQualityBadge";
+import type { DataQuality } from "@/lib/data-quality";
+
+type HealthStatus = "ok" | "warning" | "failing";
+
+interface HealthCheck {
+  id: string;
+  label: string;
+  status: HealthStatus;
+  message: string;
+}
+
+interface TrackingHealth {
+  checkedAt: string;
+  range: { startDate: string; endDate: string };
+  baselineRange: { startDate: string; endDate: string };
+  status: HealthStatus;
+  events: Array<{ event: string; label: string; status: HealthStatus; checks: HealthCheck[] }>;
+  searchConsole: HealthCheck;
+}
+
+const STATUS_STYLES: Record<HealthStatus, { badge: string; icon: string; label: string }> = {
+  ok: { badge: "bg-green-50 text-green-700 border-green-200", icon: "✓", label: "Healthy" },
+  warning: { badge: "bg-amber-50 text-amber-700 border-amber-200", icon: "!", label: "Warning" },
+  failing: { badge: "bg-red-50 text-red-700 border-red-200", icon: "✕", label: "Failing" },
+};
+
+function StatusBadge({ status }: { status: HealthStatus }) {
+  const style = STATUS_STYLES[status];
+  return (
+    <span className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium border rounded-full ${style.badge}`}>
+      {style.icon} {style.label}
+    </span>
+  );
+}
+
+function CheckList({ checks }: { checks: HealthCheck[] }) {
+  return (
+    <ul className="divide-y divide-gray-100">
+      {checks.map((check) => (
+        <li key={check.id} className="py-3 flex items-start justify-between gap-4">
+          <div>
+            <div className="text-sm font-medium text-gray-900">{check.label}</div>
+            <div className="text-sm text-gray-500 mt-0.5">{check.message}</div>
+          </div>
+          <StatusBadge status={check.status} />
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function TrackingHealthPage() {
+  const [health, setHealth] = useState<TrackingHealth | null>(null);
+  const [quality, setQuality] = useState<DataQuality | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [property, setProperty] = useSelectedProperty();
+
+  const fetchData = useCallback(async () => {
+    if (property === null) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/analytics/health?property=${encodeURIComponent(property)}`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to check tracking health");
+      }
+
+      setHealth(result.data);
+      setQuality(result.quality ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [property]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Tracking Health</h1>
+              <p className="text-gray-500 text-sm mt-1">
+                Checks that each lead event and Search Console are still reporting as usual.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <PropertySelector value={property ?? ""} onChange={setProperty} />
+              <Link
+                href="/"
+                className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+              >
+                Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+            <h2 className="text-lg font-semibold text-red-800 mb-2">Error</h2>
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={fetchData}
+              className="mt-4 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
+            >
+              Retry
+            </button>
+          </div>
+        ) : isLoading || !health ? (
+          <div className="animate-pulse space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-32 bg-gray-200 rounded" />
+            ))}
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 flex items-center justify-between flex-wrap gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <h2 className="text-lg font-semibold text-gray-900">Overall</h2>
+                  <StatusBadge status={health.status} />
+                  <DataQualityBadge quality={quality} />
+                </div>
+                <p className="text-sm text-gray-500 mt-1">
+                  {health.range.startDate} – {health.range.endDate} compared with {health.baselineRange.startDate} –{" "}
+                  {health.baselineRange.endDate}
+                </p>
+              </div>
+              <div className="text-xs text-gray-400">Checked {new Date(health.checkedAt).toLocaleString()}</div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {health.events.map((event) => (
+                <div key={event.event} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-lg font-semibold text-gray-900">
+                      {event.label} <span className="text-sm font-normal text-gray-400">{event.event}</span>
+                    </h3>
+                    <StatusBadge status={event.status} />
+                  </div>
+                  <CheckList checks={event.checks} />
+                </div>
+              ))}
+
+              <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-lg font-semibold text-gray-900">Search Console</h3>
+                  <StatusBadge status={health.searchConsole.status} />
+                </div>
+                <CheckList checks={[health.searchConsole]} />
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,7 +1,6 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { format, subDays } from "date-fns";
 import Link from "next/link";
 import MetricCard from "./components/MetricCard";
 import Chart from "./components/Chart";
@@ -9,6 +8,13 @@ import DatePicker from "./components/DatePicker";
 import AIChat from "./components/AIChat";
 import TopPagesTable from "./components/TopPagesTable";
 import AlertsSection from "./components/AlertsSection";
+import PropertySelector, { usePropertyTimeZone, useSelectedProperty } from "./components/PropertySelector";
+import QuotaPanel from "./components/QuotaPanel";
+import FilterBar from "./components/FilterBar";
+import DataQualityBadge from "./components/DataQualityBadge";
+import { shiftGADate } from "@/lib/dates";
+import { isEmptyFilter, type ReportFilter } from "@/lib/report-filters";
+import type { DataQuality } from "@/lib/data-quality";
 
 interface DashboardData {
   aggregated: {
@@ -42,7 +48,14 @@ interface DashboardData {
     anomalies: Array<{
       date: string;
       value: number;
-      deviation: number;
+      expected: number;
+      lower: number;
+      upper: number;
+      score: number;
+      holiday?: string;
+      alertId?: string;
+      status?: "open" | "acknowledged" | "snoozed" | "resolved";
+      snoozedUntil?: string | null;
     }>;
   };
 }
@@ -57,21 +70,33 @@ interface ComparisonData {
 
 export default function Dashboard() {
   const [data, setData] = useState<DashboardData | null>(null);
+  // Sampling / thresholding flags per section, keyed like data
+  const [quality, setQuality] = useState<Partial<Record<keyof DashboardData, DataQuality>>>({});
   const [comparison, setComparison] = useState<ComparisonData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [property, setProperty] = useSelectedProperty();
+  const timeZone = usePropertyTimeZone(property);
+  // Relative until a preset is picked, so GA resolves it in the property's timezone
   const [dateRange, setDateRange] = useState({
-    startDate: format(subDays(new Date(), 6), "yyyy-MM-dd"),
-    endDate: format(new Date(), "yyyy-MM-dd"),
+    startDate: "6daysAgo",
+    endDate: "today",
   });
+  const [filter, setFilter] = useState<ReportFilter>({});
 
   const fetchData = useCallback(async () => {
+    if (property === null) return;
+
     setIsLoading(true);
     setError(null);
 
     try {
+      // Every request carries the filter so all cards, charts and tables agree
+      const propertyParam =
+        `&property=${encodeURIComponent(property)}` +
+        (isEmptyFilter(filter) ? "" : `&filter=${encodeURIComponent(JSON.stringify(filter))}`);
       const dashboardResponse = await fetch(
-        `/api/analytics?action=dashboard&startDate=${dateRange.startDate}&endDate=${dateRange.endDate}`
+        `/api/analytics?action=dashboard&startDate=${dateRange.startDate}&endDate=${dateRange.endDate}${propertyParam}`
       );
       const dashboardData = await dashboardResponse.json();
 
@@ -80,9 +105,10 @@ export default function Dashboard() {
       }
 
       setData(dashboardData.data);
+      setQuality(dashboardData.quality || {});
 
       const compareResponse = await fetch(
-        `/api/analytics?action=compare&startDate=${dateRange.startDate}&endDate=${dateRange.endDate}&period2StartDate=${format(subDays(new Date(dateRange.startDate), 7), "yyyy-MM-dd")}&period2EndDate=${format(subDays(new Date(dateRange.endDate), 7), "yyyy-MM-dd")}`
+        `/api/analytics?action=compare&startDate=${dateRange.startDate}&endDate=${dateRange.endDate}&period2StartDate=${shiftGADate(dateRange.startDate, -7)}&period2EndDate=${shiftGADate(dateRange.endDate, -7)}${propertyParam}`
       );
       const compareData = await compareResponse.json();
 
@@ -94,7 +120,7 @@ export default function Dashboard() {
     } finally {
       setIsLoading(false);
     }
-  }, [dateRange]);
+  }, [dateRange, property, filter]);
 
   useEffect(() => {
     fetchData();
@@ -134,39 +160,54 @@ export default function Dashboard() {
                 Google Analytics data with AI-powered insights
               </p>
             </div>
-            <Link
-              href="/weekly"
-              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              Weekly Report
-            </Link>
+            <div className="flex items-center gap-2">
+              <PropertySelector value={property ?? ""} onChange={setProperty} />
+              <Link
+                href="/health"
+                className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Tracking Health
+              </Link>
+              <Link
+                href="/weekly"
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Weekly Report
+              </Link>
+            </div>
           </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
-        <DatePicker onDateChange={handleDateChange} />
+        <DatePicker onDateChange={handleDateChange} timeZone={timeZone} />
+
+        {property !== null && <FilterBar property={property} filter={filter} onChange={setFilter} />}
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           <MetricCard
             title="Total Users"
+            quality={quality.aggregated}
             value={data?.aggregated.users ?? 0}
             change={comparison?.changes.users}
             format="number"
           />
           <MetricCard
             title="Sessions"
+            quality={quality.aggregated}
             value={data?.aggregated.sessions ?? 0}
             change={comparison?.changes.sessions}
             format="number"
           />
           <MetricCard
             title="Bounce Rate"
+            quality={quality.aggregated}
             value={data?.aggregated.bounceRate ?? 0}
             format="percent"
           />
           <MetricCard
             title="Pageviews"
+            quality={quality.aggregated}
             value={data?.aggregated.pageviews ?? 0}
             change={comparison?.changes.pageviews}
             format="number"
@@ -180,6 +221,7 @@ export default function Dashboard() {
                 data={data.metrics}
                 type="area"
                 metrics={["users", "sessions"]}
+                quality={quality.metrics}
               />
             ) : (
               <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 h-[348px] flex items-center justify-center">
@@ -192,22 +234,28 @@ export default function Dashboard() {
             )}
           </div>
 
-          <div>
+          <div className="space-y-6">
             <AlertsSection
               anomalies={data?.anomalies.anomalies ?? []}
               metric="users"
               isLoading={isLoading}
+              quality={quality.anomalies}
+              timeZone={timeZone}
             />
+            {property !== null && <QuotaPanel property={property} refreshKey={data} />}
           </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <TopPagesTable pages={data?.topPages ?? []} isLoading={isLoading} />
+          <TopPagesTable pages={data?.topPages ?? []} isLoading={isLoading} quality={quality.topPages} />
 
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">
-              Traffic Sources
-            </h3>
+            <div className="flex items-center justify-between gap-2 mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">
+                Traffic Sources
+              </h3>
+              <DataQualityBadge quality={quality.trafficSources} />
+            </div>
             <div className="space-y-3">
               {isLoading ? (
                 <div className="animate-pulse space-y-3">
@@ -246,7 +294,7 @@ export default function Dashboard() {
         </div>
 
         <div>
-          <AIChat />
+          <AIChat property={property ?? ""} filter={filter} />
         </div>
       </main>
 
@@ -0,0 +1,257 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo, Suspense } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import PropertySelector, { useSelectedProperty } from "../../components/PropertySelector";
+
+interface TaxonomyRule {
+  id: string;
+  source?: string;
+  medium?: string;
+  category: string;
+  displayName?: string;
+}
+
+interface DisplayNameRule {
+  source: string;
+  displayName: string;
+  categories?: string[];
+}
+
+interface ClassificationTrace {
+  source: string;
+  medium: string;
+  sessions: number;
+  conversions: number;
+  category: string;
+  displayName: string;
+  matchedRule: TaxonomyRule | null;
+  normalizedSource: string;
+  displayNameFrom: "rule" | "alias" | "raw";
+  displayNameRule: DisplayNameRule | null;
+  aliasCollisions: DisplayNameRule[];
+  groupedWith: string[];
+}
+
+interface ChannelCategory {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+}
+
+interface ClassificationData {
+  period: { startDate: string; endDate: string };
+  categories: ChannelCategory[];
+  traces: ClassificationTrace[];
+}
+
+function RulePattern({ rule }: { rule: TaxonomyRule }) {
+  return (
+    <div>
+      <div className="font-medium text-gray-900">{rule.id}</div>
+      <div className="font-mono text-xs text-gray-500 break-all">
+        {rule.source && <div>source: /{rule.source}/</div>}
+        {rule.medium && <div>medium: /{rule.medium}/</div>}
+      </div>
+    </div>
+  );
+}
+
+function ClassificationDebugger() {
+  const searchParams = useSearchParams();
+  const [data, setData] = useState<ClassificationData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState("");
+  const [onlyIssues, setOnlyIssues] = useState(false);
+  const [property, setProperty] = useSelectedProperty();
+
+  const fetchData = useCallback(async () => {
+    if (property === null) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams(searchParams.toString());
+      params.set("property", property);
+      const response = await fetch(`/api/analytics/weekly/classification?${params}`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to fetch classification");
+      }
+
+      setData(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [property, searchParams]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const categoryNames = useMemo(
+    () => new Map((data?.categories ?? []).map((c) => [c.id, c])),
+    [data]
+  );
+
+  const traces = useMemo(() => {
+    const needle = filter.toLowerCase().trim();
+    return (data?.traces ?? []).filter((trace) => {
+      if (onlyIssues && trace.aliasCollisions.length === 0 && trace.matchedRule !== null) return false;
+      if (!needle) return true;
+      return (
+        trace.source.toLowerCase().includes(needle) ||
+        trace.medium.toLowerCase().includes(needle) ||
+        trace.displayName.toLowerCase().includes(needle)
+      );
+    });
+  }, [data, filter, onlyIssues]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Source Classification</h1>
+              <p className="text-gray-500 text-sm mt-1">
+                {data
+                  ? `Why each source in the ${data.period.startDate} – ${data.period.endDate} breakdown landed in its category`
+                  : "Why each source in the weekly breakdown landed in its category"}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <PropertySelector value={property ?? ""} onChange={setProperty} />
+              <Link
+                href="/weekly"
+                className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+              >
+                Weekly Report
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex items-center gap-4">
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by source, medium or name"
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg w-72 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={onlyIssues} onChange={(e) => setOnlyIssues(e.target.checked)} />
+            Only fallbacks and alias collisions
+          </label>
+        </div>
+
+        {error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+            <h2 className="text-lg font-semibold text-red-800 mb-2">Error</h2>
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={fetchData}
+              className="mt-4 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
+            >
+              Retry
+            </button>
+          </div>
+        ) : isLoading || !data ? (
+          <div className="animate-pulse space-y-3">
+            {[...Array(6)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded" />
+            ))}
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 bg-gray-50">
+                    <th className="text-left py-3 px-4 font-medium text-gray-500">Raw Source / Medium</th>
+                    <th className="text-right py-3 px-2 font-medium text-gray-500">Sessions</th>
+                    <th className="text-left py-3 px-2 font-medium text-gray-500">Category</th>
+                    <th className="text-left py-3 px-2 font-medium text-gray-500">Matched Rule</th>
+                    <th className="text-left py-3 px-2 font-medium text-gray-500">Display Name</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500">Collisions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {traces.map((trace) => {
+                    const category = categoryNames.get(trace.category);
+                    const hasCollision = trace.aliasCollisions.length > 0;
+                    return (
+                      <tr
+                        key={`${trace.source}|${trace.medium}`}
+                        className={`border-b border-gray-50 align-top ${hasCollision ? "bg-yellow-50" : "hover:bg-gray-50"}`}
+                      >
+                        <td className="py-2 px-4">
+                          <div className="font-medium text-gray-900">{trace.source}</div>
+                          <div className="text-xs text-gray-500">{trace.medium}</div>
+                        </td>
+                        <td className="py-2 px-2 text-right text-gray-700">{trace.sessions.toLocaleString()}</td>
+                        <td className="py-2 px-2">
+                          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${category?.color ?? "bg-gray-100 text-gray-800"}`}>
+                            {category ? `${category.icon} ${category.name}` : trace.category}
+                          </span>
+                        </td>
+                        <td className="py-2 px-2">
+                          {trace.matchedRule ? (
+                            <RulePattern rule={trace.matchedRule} />
+                          ) : (
+                            <span className="text-gray-500 italic">No rule matched (fallback)</span>
+                          )}
+                        </td>
+                        <td className="py-2 px-2">
+                          <div className="font-medium text-gray-900">{trace.displayName}</div>
+                          <div className="text-xs text-gray-500">
+                            {trace.displayNameFrom === "rule" && "from matched rule"}
+                            {trace.displayNameFrom === "alias" && (
+                              <span className="font-mono">alias /{trace.displayNameRule!.source}/</span>
+                            )}
+                            {trace.displayNameFrom === "raw" && "no alias, raw source"}
+                          </div>
+                          {trace.normalizedSource !== trace.source.toLowerCase() && (
+                            <div className="text-xs text-gray-400">normalized: {trace.normalizedSource}</div>
+                          )}
+                        </td>
+                        <td className="py-2 px-4 text-xs">
+                          {trace.aliasCollisions.map((alias) => (
+                            <div key={alias.source} className="text-yellow-800">
+                              also matches <span className="font-mono">/{alias.source}/</span> → {alias.displayName}
+                            </div>
+                          ))}
+                          {trace.groupedWith.length > 0 && (
+                            <div className="text-gray-500">grouped with {trace.groupedWith.join(", ")}</div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default function ClassificationPage() {
+  return (
+    <Suspense>
+      <ClassificationDebugger />
+    </Suspense>
+  );
+}
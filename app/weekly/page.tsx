@@ -1,7 +1,8 @@
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, Suspense } from "react";
 import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
 import {
   AreaChart,
   Area,
@@ -17,6 +18,12 @@ import {
   Pie,
   Cell,
 } from "recharts";
+import PropertySelector, { useSelectedProperty } from "../components/PropertySelector";
+import FilterBar from "../components/FilterBar";
+import DataQualityBadge from "../components/DataQualityBadge";
+import { isEmptyFilter, parseReportFilter, type ReportFilter } from "@/lib/report-filters";
+import { PERIOD_TYPES, periodSearchParams, type PeriodSelection, type PeriodType } from "@/lib/report-periods";
+import { mergeQuality, type DataQuality } from "@/lib/data-quality";
 
 interface ChannelMetrics {
   channel: string;
@@ -24,8 +31,7 @@ interface ChannelMetrics {
   sessions: number;
   clicks: number;
   conversions: number;
-  formSubmissions: number;
-  phoneCalls: number;
+  leads: Record<string, number>;
   clickToLeadRate: number;
 }
 
@@ -36,22 +42,37 @@ interface SourceMetrics {
   users: number;
   sessions: number;
   conversions: number;
-  formSubmissions: number;
-  phoneCalls: number;
+  leads: Record<string, number>;
   clickToLeadRate: number;
 }
 
-interface DetailedBreakdown {
-  organicSearch: SourceMetrics[];
-  paidSearch: SourceMetrics[];
-  llmAI: SourceMetrics[];
-  listings: SourceMetrics[];
-  social: SourceMetrics[];
-  referral: SourceMetrics[];
-  direct: SourceMetrics[];
-  other: SourceMetrics[];
+// Keyed by channel category id from the property's taxonomy
+type DetailedBreakdown = Record<string, SourceMetrics[]>;
+
+interface ChannelCategory {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  collapsed?: boolean;
+}
+
+interface TrendWeek {
+  startDate: string;
+  sessions: number;
+  leads: Record<string, number>;
+}
+
+// Weekly series from /api/analytics/weekly/trends, oldest week first
+interface Trends {
+  weeks: string[];
+  byCategory: Record<string, TrendWeek[]>;
+  unattributed: Record<string, number>[];
+  totals: TrendWeek[];
 }
 
+const TREND_WEEK_OPTIONS = [12, 26, 52];
+
 interface WeeklyTotals {
   users: number;
   newUsers: number;
@@ -64,56 +85,128 @@ interface WeeklyTotals {
   clicks: number;
   ctr: number;
   avgSessionDuration: number;
-  formSubmissions: number;
-  phoneCalls: number;
+  leads: Record<string, number>;
+  // Null when no lead event has a value configured
+  leadValue: number | null;
   clickToLeadRate: number;
 }
 
-interface RawPhoneCall {
-  source: string;
-  medium: string;
-  count: number;
+interface LeadEvent {
+  name: string;
+  label: string;
+  icon?: string;
+  value?: number;
 }
 
+const PERIOD_LABELS: Record<PeriodType, string> = {
+  lastWeek: "Last week",
+  week: "Week",
+  mtd: "Month to date",
+  month: "Month",
+  quarter: "Quarter",
+  custom: "Custom range",
+};
+
+type ComparisonMode = "weekday" | "calendar" | "isoWeek" | "holiday";
+
+const COMPARISON_LABELS: Record<ComparisonMode, string> = {
+  weekday: "Same weekdays (364 days)",
+  calendar: "Same calendar dates",
+  isoWeek: "Same ISO week",
+  holiday: "Same holiday",
+};
+
+interface Holiday {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+type RedistributionStrategy = "proportional" | "historical" | "direct" | "unattributed";
+
+const REDISTRIBUTION_LABELS: Record<RedistributionStrategy, string> = {
+  proportional: "Spread by sessions",
+  historical: "Spread by historical lead share",
+  direct: "Assign to Direct",
+  unattributed: "Keep as Unattributed",
+};
+
+// Where the "(not set)" lead events went
+interface Redistribution {
+  strategy: RedistributionStrategy;
+  unattributed: Record<string, number>;
+  moves: Array<{ source: string; medium: string; leads: Record<string, number> }>;
+  remaining: Record<string, number>;
+  fallbacks: Record<string, RedistributionStrategy>;
+  historyRange?: { startDate: string; endDate: string };
+}
+
+// Sections are null when their GA queries failed; the reason is in `errors`
 interface WeeklyData {
   period: {
     current: { startDate: string; endDate: string };
     lastYear: { startDate: string; endDate: string };
+    label: string;
+    selection: PeriodSelection;
+    previous: PeriodSelection;
+    next: PeriodSelection | null;
+    comparisonMode: ComparisonMode;
+    holidays: { current: Holiday[]; lastYear: Holiday[] };
   };
-  totals: WeeklyTotals;
+  leadEvents: LeadEvent[];
+  totals: WeeklyTotals | null;
   daily: Array<{
     date: string;
     users: number;
     sessions: number;
     conversions: number;
-  }>;
+  }> | null;
   leads: {
     total: number;
     bySource: Array<{ source: string; leads: number }>;
     byDay: Array<{ date: string; leads: number }>;
-  };
+  } | null;
   topPages: Array<{
     path: string;
     title: string;
     pageviews: number;
-  }>;
+  }> | null;
   trafficSources: Array<{
     source: string;
     medium: string;
     sessions: number;
-  }>;
-  conversionsByChannel: ChannelMetrics[];
-  detailedBreakdown: DetailedBreakdown;
-  rawPhoneCallsBySource: RawPhoneCall[];
+  }> | null;
+  conversionsByChannel: ChannelMetrics[] | null;
+  detailedBreakdown: DetailedBreakdown | null;
+  channelCategories: ChannelCategory[] | null;
+  redistribution: Redistribution | null;
   comparison: {
     current: WeeklyTotals;
     lastYear: WeeklyTotals;
     changes: Record<string, number>;
-  };
+    leadChanges: Record<string, number>;
+  } | null;
+  // Sampling, thresholding and truncation flags per section, keyed like errors
+  quality: Record<string, DataQuality>;
+  errors: Record<string, string>;
 }
 
 type SortDirection = "asc" | "desc";
-type SortField = "source" | "sessions" | "formSubmissions" | "phoneCalls" | "conversions" | "clickToLeadRate";
+// Lead event columns sort as "lead:<event name>"
+type SortField = "source" | "sessions" | "conversions" | "clickToLeadRate" | `lead:${string}`;
+
+function sortValue(row: { leads: Record<string, number> }, field: SortField): number | string {
+  if (field.startsWith("lead:")) return row.leads[field.slice(5)] || 0;
+  return (row as unknown as Record<string, number | string>)[field];
+}
+
+function addLeads(target: Record<string, number>, leads: Record<string, number>) {
+  for (const [name, count] of Object.entries(leads)) {
+    target[name] = (target[name] || 0) + count;
+  }
+  return target;
+}
 
 const COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#8b5cf6", "#ec4899", "#06b6d4", "#84cc16"];
 
@@ -128,17 +221,6 @@ const CHANNEL_COLORS: Record<string, string> = {
   "Display": "#84cc16",
 };
 
-const CATEGORY_INFO: Record<string, { name: string; color: string; icon: string }> = {
-  organicSearch: { name: "Organic Search", color: "bg-green-100 text-green-800", icon: "🔍" },
-  paidSearch: { name: "Paid Search & Ads", color: "bg-blue-100 text-blue-800", icon: "💰" },
-  llmAI: { name: "AI / LLM Referrals", color: "bg-purple-100 text-purple-800", icon: "🤖" },
-  listings: { name: "Listings & Directories", color: "bg-yellow-100 text-yellow-800", icon: "📋" },
-  social: { name: "Social Media", color: "bg-pink-100 text-pink-800", icon: "📱" },
-  referral: { name: "Referral Sites", color: "bg-orange-100 text-orange-800", icon: "🔗" },
-  direct: { name: "Direct Traffic", color: "bg-gray-100 text-gray-800", icon: "🎯" },
-  other: { name: "Other Sources", color: "bg-slate-100 text-slate-800", icon: "🌐" },
-};
-
 const SOURCE_ICONS: Record<string, string> = {
   google: "🔍",
   bing: "🔎",
@@ -225,6 +307,18 @@ function MetricCard({
   );
 }
 
+function SectionError({ title, message }: { title: string; message?: string }) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-red-200 p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-2">{title}</h3>
+      <div className="flex items-start gap-2 text-sm text-red-700 bg-red-50 rounded-lg p-3">
+        <span>⚠️</span>
+        <span>Couldn&apos;t load this section{message ? `: ${message}` : ""}</span>
+      </div>
+    </div>
+  );
+}
+
 function SortableHeader({
   label,
   field,
@@ -256,26 +350,69 @@ function SortableHeader({
   );
 }
 
-function CategorySummaryTable({ breakdown }: { breakdown: DetailedBreakdown }) {
+function leadTotal(leads: Record<string, number>): number {
+  return Object.values(leads).reduce((sum, count) => sum + count, 0);
+}
+
+// Small inline line chart of a weekly series
+function Sparkline({ values, color }: { values: number[]; color: string }) {
+  const width = 96;
+  const height = 24;
+  const max = Math.max(...values, 1);
+  const points = values
+    .map((value, i) => `${(i / Math.max(values.length - 1, 1)) * width},${height - 1 - (value / max) * (height - 2)}`)
+    .join(" ");
+
+  return (
+    <svg width={width} height={height} className="inline-block align-middle">
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+}
+
+function TrendCell({ values, color }: { values?: number[]; color: string }) {
+  if (!values) return <td className="py-3 px-2 text-right text-gray-400">-</td>;
+  return (
+    <td className="py-3 px-2 text-right" title={`${values[0].toLocaleString()} → ${values[values.length - 1].toLocaleString()} per week`}>
+      <Sparkline values={values} color={color} />
+    </td>
+  );
+}
+
+function CategorySummaryTable({
+  breakdown,
+  categories,
+  leadEvents,
+  unattributed,
+  trends,
+  quality,
+}: {
+  breakdown: DetailedBreakdown;
+  categories: ChannelCategory[];
+  leadEvents: LeadEvent[];
+  // Lead events kept out of every category
+  unattributed?: Record<string, number>;
+  trends?: Trends | null;
+  quality?: DataQuality | null;
+}) {
   const [sort, setSort] = useState<{ field: SortField; direction: SortDirection }>({
     field: "conversions",
     direction: "desc",
   });
 
   const summaryData = useMemo(() => {
-    const categories = (Object.entries(breakdown) as [string, SourceMetrics[]][]).map(([key, sources]) => {
-      const info = CATEGORY_INFO[key];
+    const summaries = categories.map((info) => {
+      const sources = breakdown[info.id] || [];
       const totals = sources.reduce(
         (acc, s) => ({
           sessions: acc.sessions + s.sessions,
           conversions: acc.conversions + s.conversions,
-          formSubmissions: acc.formSubmissions + s.formSubmissions,
-          phoneCalls: acc.phoneCalls + s.phoneCalls,
+          leads: addLeads(acc.leads, s.leads),
         }),
-        { sessions: 0, conversions: 0, formSubmissions: 0, phoneCalls: 0 }
+        { sessions: 0, conversions: 0, leads: {} as Record<string, number> }
       );
       return {
-        key,
+        key: info.id,
         name: info.name,
         icon: info.icon,
         color: info.color,
@@ -285,12 +422,12 @@ function CategorySummaryTable({ breakdown }: { breakdown: DetailedBreakdown }) {
       };
     });
 
-    return categories.sort((a, b) => {
-      const aVal = a[sort.field as keyof typeof a] as number;
-      const bVal = b[sort.field as keyof typeof b] as number;
+    return summaries.sort((a, b) => {
+      const aVal = sortValue(a, sort.field) as number;
+      const bVal = sortValue(b, sort.field) as number;
       return sort.direction === "asc" ? aVal - bVal : bVal - aVal;
     });
-  }, [breakdown, sort]);
+  }, [breakdown, categories, sort]);
 
   const handleSort = (field: SortField) => {
     setSort((prev) => ({
@@ -303,16 +440,19 @@ function CategorySummaryTable({ breakdown }: { breakdown: DetailedBreakdown }) {
     (acc, cat) => ({
       sessions: acc.sessions + cat.sessions,
       conversions: acc.conversions + cat.conversions,
-      formSubmissions: acc.formSubmissions + cat.formSubmissions,
-      phoneCalls: acc.phoneCalls + cat.phoneCalls,
+      leads: addLeads(acc.leads, cat.leads),
     }),
-    { sessions: 0, conversions: 0, formSubmissions: 0, phoneCalls: 0 }
+    { sessions: 0, conversions: 0, leads: addLeads({}, unattributed || {}) }
   );
+  const hasUnattributed = Object.values(unattributed || {}).some((count) => count > 0);
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
       <div className="px-6 py-4 bg-gradient-to-r from-indigo-600 to-purple-600 text-white">
-        <h3 className="font-semibold text-lg">Summary by Category</h3>
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="font-semibold text-lg">Summary by Category</h3>
+          <DataQualityBadge quality={quality} />
+        </div>
         <p className="text-indigo-100 text-sm">Click column headers to sort</p>
       </div>
       <div className="overflow-x-auto">
@@ -321,11 +461,18 @@ function CategorySummaryTable({ breakdown }: { breakdown: DetailedBreakdown }) {
             <tr className="border-b border-gray-200 bg-gray-50">
               <th className="text-left py-3 px-4 font-medium text-gray-500">Category</th>
               <SortableHeader label="Sessions" field="sessions" currentSort={sort} onSort={handleSort} />
-              <SortableHeader label="Forms" field="formSubmissions" currentSort={sort} onSort={handleSort} />
-              <SortableHeader label="Calls" field="phoneCalls" currentSort={sort} onSort={handleSort} />
+              {leadEvents.map((event) => (
+                <SortableHeader key={event.name} label={event.label} field={`lead:${event.name}`} currentSort={sort} onSort={handleSort} />
+              ))}
               <SortableHeader label="Total Leads" field="conversions" currentSort={sort} onSort={handleSort} />
               <SortableHeader label="Conv. Rate" field="clickToLeadRate" currentSort={sort} onSort={handleSort} />
               <th className="text-right py-3 px-4 font-medium text-gray-500">Sources</th>
+              {trends && (
+                <>
+                  <th className="text-right py-3 px-2 font-medium text-gray-500">Sessions ({trends.weeks.length}w)</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-500">Leads ({trends.weeks.length}w)</th>
+                </>
+              )}
             </tr>
           </thead>
           <tbody>
@@ -338,8 +485,11 @@ function CategorySummaryTable({ breakdown }: { breakdown: DetailedBreakdown }) {
                   </div>
                 </td>
                 <td className="py-3 px-2 text-right text-gray-700">{cat.sessions.toLocaleString()}</td>
-                <td className="py-3 px-2 text-right text-gray-700">{cat.formSubmissions.toLocaleString()}</td>
-                <td className="py-3 px-2 text-right text-gray-700">{cat.phoneCalls.toLocaleString()}</td>
+                {leadEvents.map((event) => (
+                  <td key={event.name} className="py-3 px-2 text-right text-gray-700">
+                    {(cat.leads[event.name] || 0).toLocaleString()}
+                  </td>
+                ))}
                 <td className="py-3 px-2 text-right font-semibold text-gray-900">{cat.conversions.toLocaleString()}</td>
                 <td className="py-3 px-2 text-right">
                   <span className={`font-semibold ${cat.clickToLeadRate > 5 ? "text-green-600" : cat.clickToLeadRate > 2 ? "text-blue-600" : "text-gray-600"}`}>
@@ -347,20 +497,60 @@ function CategorySummaryTable({ breakdown }: { breakdown: DetailedBreakdown }) {
                   </span>
                 </td>
                 <td className="py-3 px-4 text-right text-gray-500">{cat.sourceCount}</td>
+                {trends && (
+                  <>
+                    <TrendCell values={trends.byCategory[cat.key]?.map((week) => week.sessions)} color={cat.color} />
+                    <TrendCell values={trends.byCategory[cat.key]?.map((week) => leadTotal(week.leads))} color={cat.color} />
+                  </>
+                )}
               </tr>
             ))}
+            {hasUnattributed && (
+              <tr className="border-b border-gray-100 bg-amber-50">
+                <td className="py-3 px-4">
+                  <div className="flex items-center gap-2">
+                    <span>❔</span>
+                    <span className="font-medium text-gray-900">Unattributed</span>
+                  </div>
+                </td>
+                <td className="py-3 px-2 text-right text-gray-400">-</td>
+                {leadEvents.map((event) => (
+                  <td key={event.name} className="py-3 px-2 text-right text-gray-700">
+                    {(unattributed![event.name] || 0).toLocaleString()}
+                  </td>
+                ))}
+                <td className="py-3 px-2 text-right text-gray-400">-</td>
+                <td className="py-3 px-2 text-right text-gray-400">-</td>
+                <td className="py-3 px-4 text-right text-gray-400">-</td>
+                {trends && (
+                  <>
+                    <td className="py-3 px-2 text-right text-gray-400">-</td>
+                    <TrendCell values={trends.unattributed.map(leadTotal)} color="#d97706" />
+                  </>
+                )}
+              </tr>
+            )}
           </tbody>
           <tfoot>
             <tr className="bg-gray-100 font-semibold">
               <td className="py-3 px-4 text-gray-900">Total</td>
               <td className="py-3 px-2 text-right text-gray-900">{grandTotal.sessions.toLocaleString()}</td>
-              <td className="py-3 px-2 text-right text-gray-900">{grandTotal.formSubmissions.toLocaleString()}</td>
-              <td className="py-3 px-2 text-right text-gray-900">{grandTotal.phoneCalls.toLocaleString()}</td>
+              {leadEvents.map((event) => (
+                <td key={event.name} className="py-3 px-2 text-right text-gray-900">
+                  {(grandTotal.leads[event.name] || 0).toLocaleString()}
+                </td>
+              ))}
               <td className="py-3 px-2 text-right text-gray-900">{grandTotal.conversions.toLocaleString()}</td>
               <td className="py-3 px-2 text-right text-gray-900">
                 {grandTotal.sessions > 0 ? ((grandTotal.conversions / grandTotal.sessions) * 100).toFixed(2) : 0}%
               </td>
               <td className="py-3 px-4 text-right text-gray-500">-</td>
+              {trends && (
+                <>
+                  <TrendCell values={trends.totals.map((week) => week.sessions)} color="#111827" />
+                  <TrendCell values={trends.totals.map((week) => leadTotal(week.leads))} color="#111827" />
+                </>
+              )}
             </tr>
           </tfoot>
         </table>
@@ -369,15 +559,105 @@ function CategorySummaryTable({ breakdown }: { breakdown: DetailedBreakdown }) {
   );
 }
 
+// Sessions or leads per week, stacked by category
+function WeeklyTrendChart({
+  trends,
+  categories,
+  leadEvents,
+  weeks,
+  onWeeksChange,
+  quality,
+}: {
+  trends: Trends;
+  categories: ChannelCategory[];
+  leadEvents: LeadEvent[];
+  weeks: number;
+  onWeeksChange: (weeks: number) => void;
+  quality?: DataQuality | null;
+}) {
+  const [measure, setMeasure] = useState<"sessions" | "leads" | `lead:${string}`>("sessions");
+
+  const value = (sessions: number, leads: Record<string, number>): number => {
+    if (measure === "sessions") return sessions;
+    if (measure === "leads") return leadTotal(leads);
+    return leads[measure.slice("lead:".length)] || 0;
+  };
+
+  const chartData = trends.weeks.map((startDate, i) => ({
+    week: new Date(startDate).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" }),
+    ...Object.fromEntries(
+      categories.map((category) => {
+        const week = trends.byCategory[category.id]?.[i];
+        return [category.id, week ? value(week.sessions, week.leads) : 0];
+      })
+    ),
+    ...(measure === "sessions" ? {} : { unattributed: value(0, trends.unattributed[i]) }),
+  }));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <h3 className="text-lg font-semibold text-gray-900">Weekly Trend by Category</h3>
+          <DataQualityBadge quality={quality} />
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={measure}
+            onChange={(e) => setMeasure(e.target.value as typeof measure)}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg bg-white text-gray-700"
+          >
+            <option value="sessions">Sessions</option>
+            <option value="leads">All leads</option>
+            {leadEvents.map((event) => (
+              <option key={event.name} value={`lead:${event.name}`}>
+                {event.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={weeks}
+            onChange={(e) => onWeeksChange(parseInt(e.target.value))}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg bg-white text-gray-700"
+          >
+            {TREND_WEEK_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option} weeks
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <ResponsiveContainer width="100%" height={320}>
+        <BarChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="week" fontSize={11} tickLine={false} />
+          <YAxis fontSize={11} tickLine={false} />
+          <Tooltip />
+          <Legend />
+          {categories.map((category) => (
+            <Bar key={category.id} dataKey={category.id} name={category.name} stackId="week" fill={category.color} />
+          ))}
+          {measure !== "sessions" && (
+            <Bar dataKey="unattributed" name="Unattributed" stackId="week" fill="#d1d5db" />
+          )}
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
 function DetailedSourceTable({
   title,
   sources,
+  leadEvents,
   color,
   icon,
   defaultExpanded = true,
 }: {
   title: string;
   sources: SourceMetrics[];
+  leadEvents: LeadEvent[];
   color: string;
   icon: string;
   defaultExpanded?: boolean;
@@ -390,8 +670,8 @@ function DetailedSourceTable({
 
   const sortedSources = useMemo(() => {
     return [...sources].sort((a, b) => {
-      let aVal: number | string = a[sort.field as keyof SourceMetrics] as number | string;
-      let bVal: number | string = b[sort.field as keyof SourceMetrics] as number | string;
+      let aVal = sortValue(a, sort.field);
+      let bVal = sortValue(b, sort.field);
 
       if (sort.field === "source") {
         aVal = String(aVal).toLowerCase();
@@ -416,10 +696,9 @@ function DetailedSourceTable({
     (acc, s) => ({
       sessions: acc.sessions + s.sessions,
       conversions: acc.conversions + s.conversions,
-      forms: acc.forms + s.formSubmissions,
-      phones: acc.phones + s.phoneCalls,
+      leads: addLeads(acc.leads, s.leads),
     }),
-    { sessions: 0, conversions: 0, forms: 0, phones: 0 }
+    { sessions: 0, conversions: 0, leads: {} as Record<string, number> }
   );
 
   if (sources.length === 0) return null;
@@ -453,8 +732,9 @@ function DetailedSourceTable({
                 <SortableHeader label="Source" field="source" currentSort={sort} onSort={handleSort} align="left" />
                 <th className="text-left py-2 px-2 font-medium text-gray-500">Medium</th>
                 <SortableHeader label="Sessions" field="sessions" currentSort={sort} onSort={handleSort} />
-                <SortableHeader label="Forms" field="formSubmissions" currentSort={sort} onSort={handleSort} />
-                <SortableHeader label="Calls" field="phoneCalls" currentSort={sort} onSort={handleSort} />
+                {leadEvents.map((event) => (
+                  <SortableHeader key={event.name} label={event.label} field={`lead:${event.name}`} currentSort={sort} onSort={handleSort} />
+                ))}
                 <SortableHeader label="Leads" field="conversions" currentSort={sort} onSort={handleSort} />
                 <SortableHeader label="Conv. Rate" field="clickToLeadRate" currentSort={sort} onSort={handleSort} />
               </tr>
@@ -470,8 +750,11 @@ function DetailedSourceTable({
                   </td>
                   <td className="py-2 px-2 text-gray-500">{source.medium}</td>
                   <td className="py-2 px-2 text-right text-gray-700">{source.sessions.toLocaleString()}</td>
-                  <td className="py-2 px-2 text-right text-gray-700">{source.formSubmissions.toLocaleString()}</td>
-                  <td className="py-2 px-2 text-right text-gray-700">{source.phoneCalls.toLocaleString()}</td>
+                  {leadEvents.map((event) => (
+                    <td key={event.name} className="py-2 px-2 text-right text-gray-700">
+                      {(source.leads[event.name] || 0).toLocaleString()}
+                    </td>
+                  ))}
                   <td className="py-2 px-2 text-right font-semibold text-gray-900">{source.conversions.toLocaleString()}</td>
                   <td className="py-2 px-4 text-right">
                     <span className={`font-semibold ${source.clickToLeadRate > 5 ? "text-green-600" : source.clickToLeadRate > 2 ? "text-blue-600" : "text-gray-600"}`}>
@@ -485,8 +768,11 @@ function DetailedSourceTable({
               <tr className="bg-gray-50 font-semibold">
                 <td className="py-2 px-4 text-gray-900" colSpan={2}>Total</td>
                 <td className="py-2 px-2 text-right text-gray-900">{totals.sessions.toLocaleString()}</td>
-                <td className="py-2 px-2 text-right text-gray-900">{totals.forms.toLocaleString()}</td>
-                <td className="py-2 px-2 text-right text-gray-900">{totals.phones.toLocaleString()}</td>
+                {leadEvents.map((event) => (
+                  <td key={event.name} className="py-2 px-2 text-right text-gray-900">
+                    {(totals.leads[event.name] || 0).toLocaleString()}
+                  </td>
+                ))}
                 <td className="py-2 px-2 text-right text-gray-900">{totals.conversions.toLocaleString()}</td>
                 <td className="py-2 px-4 text-right text-gray-900">
                   {totals.sessions > 0 ? ((totals.conversions / totals.sessions) * 100).toFixed(2) : 0}%
@@ -500,22 +786,198 @@ function DetailedSourceTable({
   );
 }
 
-export default function WeeklyDashboard() {
+// Flags holidays in either period, since they make YoY changes unreliable
+function HolidayNotice({
+  holidays,
+  comparisonMode,
+  onAlignByHoliday,
+}: {
+  holidays: { current: Holiday[]; lastYear: Holiday[] };
+  comparisonMode: ComparisonMode;
+  onAlignByHoliday: () => void;
+}) {
+  if (holidays.current.length === 0 && holidays.lastYear.length === 0) return null;
+
+  const describe = (list: Holiday[]) =>
+    list.length > 0 ? list.map((h) => `${h.name} (${h.startDate} – ${h.endDate})`).join(", ") : "no holidays";
+  const currentIds = holidays.current.map((h) => h.id).sort().join();
+  const lastYearIds = holidays.lastYear.map((h) => h.id).sort().join();
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg px-4 py-3 text-sm text-amber-800 flex items-center justify-between gap-4 flex-wrap">
+      <div>
+        <p>
+          <span className="font-semibold">📅 Holiday period.</span> This period: {describe(holidays.current)}. Last
+          year&apos;s period: {describe(holidays.lastYear)}.
+        </p>
+        {currentIds !== lastYearIds && (
+          <p className="mt-1">The periods don&apos;t share the same holidays, so year-over-year changes may be misleading.</p>
+        )}
+      </div>
+      {currentIds !== lastYearIds && comparisonMode !== "holiday" && holidays.current.length > 0 && (
+        <button
+          onClick={onAlignByHoliday}
+          className="px-3 py-1.5 text-sm bg-amber-600 text-white rounded-md hover:bg-amber-700"
+        >
+          Compare holiday to holiday
+        </button>
+      )}
+    </div>
+  );
+}
+
+function RedistributionAudit({
+  redistribution,
+  leadEvents,
+  onStrategyChange,
+}: {
+  redistribution: Redistribution;
+  leadEvents: LeadEvent[];
+  onStrategyChange: (strategy: RedistributionStrategy) => void;
+}) {
+  const fallbacks = Object.entries(redistribution.fallbacks);
+  const moves = [...redistribution.moves].sort(
+    (a, b) => Object.values(b.leads).reduce((x, y) => x + y, 0) - Object.values(a.leads).reduce((x, y) => x + y, 0)
+  );
+
+  return (
+    <section>
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 bg-gradient-to-r from-amber-500 to-orange-500 text-white flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <h3 className="font-semibold text-lg">Unattributed Lead Events</h3>
+            <p className="text-amber-100 text-sm">
+              GA reported{" "}
+              {leadEvents
+                .filter((event) => redistribution.unattributed[event.name])
+                .map((event) => `${redistribution.unattributed[event.name]} ${event.label.toLowerCase()}`)
+                .join(", ")}{" "}
+              with source &quot;(not set)&quot;
+            </p>
+          </div>
+          <select
+            value={redistribution.strategy}
+            onChange={(e) => onStrategyChange(e.target.value as RedistributionStrategy)}
+            className="px-3 py-2 text-sm border border-amber-300 rounded-lg bg-white text-gray-700"
+          >
+            {Object.entries(REDISTRIBUTION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {(fallbacks.length > 0 || redistribution.historyRange) && (
+          <div className="px-6 py-3 text-sm text-gray-600 border-b border-gray-100 space-y-1">
+            {redistribution.historyRange && (
+              <p>
+                Historical shares from {redistribution.historyRange.startDate} to {redistribution.historyRange.endDate}.
+              </p>
+            )}
+            {fallbacks.map(([name, strategy]) => (
+              <p key={name} className="text-amber-700">
+                {leadEvents.find((event) => event.name === name)?.label ?? name}: no basis for this strategy, used
+                &quot;{REDISTRIBUTION_LABELS[strategy]}&quot; instead.
+              </p>
+            ))}
+          </div>
+        )}
+        {moves.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 bg-gray-50">
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Moved To</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Medium</th>
+                  {leadEvents.map((event) => (
+                    <th key={event.name} className="text-right py-3 px-4 font-medium text-gray-500">
+                      {event.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {moves.map((move) => (
+                  <tr key={`${move.source}|${move.medium}`} className="border-b border-gray-50 hover:bg-gray-50">
+                    <td className="py-2 px-4 font-medium text-gray-900">{move.source}</td>
+                    <td className="py-2 px-4 text-gray-500">{move.medium}</td>
+                    {leadEvents.map((event) => (
+                      <td key={event.name} className="py-2 px-4 text-right text-gray-700">
+                        {(move.leads[event.name] || 0).toLocaleString()}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="px-6 py-4 text-sm text-gray-500">
+            Nothing was moved; the events are shown as an Unattributed row in the category summary.
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
+
+function WeeklyReport() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
   const [data, setData] = useState<WeeklyData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [periodType, setPeriodType] = useState<"lastWeek" | "last7days">("lastWeek");
+  const [property, setProperty] = useSelectedProperty();
+  const [trends, setTrends] = useState<Trends | null>(null);
+  const [trendsQuality, setTrendsQuality] = useState<DataQuality | null>(null);
+  const [trendWeeks, setTrendWeeks] = useState(TREND_WEEK_OPTIONS[0]);
+
+  // Period, comparison and redistribution live in the URL, so a link always
+  // reproduces the same report. The API takes the same parameters.
+  const periodType = (searchParams.get("period") as PeriodType) || "lastWeek";
+  const comparisonMode = (searchParams.get("comparison") as ComparisonMode) || "weekday";
+  const filterParam = searchParams.get("filter");
+  const filter = useMemo<ReportFilter>(() => {
+    try {
+      return filterParam ? parseReportFilter(JSON.parse(filterParam)) : {};
+    } catch {
+      return {};
+    }
+  }, [filterParam]);
+
+  const updateParams = useCallback(
+    (updates: Record<string, string | undefined>) => {
+      const params = new URLSearchParams(searchParams.toString());
+      for (const [key, value] of Object.entries(updates)) {
+        if (value) {
+          params.set(key, value);
+        } else {
+          params.delete(key);
+        }
+      }
+      router.push(`/weekly?${params}`);
+    },
+    [router, searchParams]
+  );
+
+  const selectPeriod = (selection: PeriodSelection) =>
+    updateParams({
+      period: selection.period,
+      date: selection.date,
+      startDate: selection.startDate,
+      endDate: selection.endDate,
+    });
 
   const fetchData = useCallback(async () => {
+    if (property === null) return;
+
     setIsLoading(true);
     setError(null);
 
     try {
-      const url = periodType === "lastWeek"
-        ? "/api/analytics/weekly?period=lastWeek"
-        : "/api/analytics/weekly?period=custom&startDate=7daysAgo&endDate=yesterday";
-
-      const response = await fetch(url);
+      const params = new URLSearchParams(searchParams.toString());
+      params.set("property", property);
+      const response = await fetch(`/api/analytics/weekly?${params}`);
       const result = await response.json();
 
       if (!result.success) {
@@ -528,20 +990,36 @@ export default function WeeklyDashboard() {
     } finally {
       setIsLoading(false);
     }
-  }, [periodType]);
+  }, [searchParams, property]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  // Trends always cover the last complete weeks, whatever period is shown.
+  // They're optional: the report works without them.
+  useEffect(() => {
+    if (property === null) return;
+
+    const params = new URLSearchParams({ property, weeks: String(trendWeeks) });
+    if (filterParam) params.set("filter", filterParam);
+    fetch(`/api/analytics/weekly/trends?${params}`)
+      .then((response) => response.json())
+      .then((result) => {
+        setTrends(result.success ? result.data : null);
+        setTrendsQuality(result.success ? result.quality : null);
+      })
+      .catch(() => setTrends(null));
+  }, [property, trendWeeks, filterParam]);
+
   const formatDate = (dateStr: string) => {
     const date = new Date(dateStr);
-    return date.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+    return date.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", timeZone: "UTC" });
   };
 
   const formatFullDate = (dateStr: string) => {
     const date = new Date(dateStr);
-    return date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+    return date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
   };
 
   if (error) {
@@ -578,12 +1056,27 @@ export default function WeeklyDashboard() {
     );
   }
 
-  const chartData = data.daily.map((d) => ({
+  const chartData = (data.daily ?? []).map((d) => ({
     ...d,
     formattedDate: formatDate(d.date),
   }));
 
   const breakdown = data.detailedBreakdown;
+  const channelCategories = data.channelCategories ?? [];
+  const totals = data.totals;
+  const comparison = data.comparison;
+
+  // Keep the current dates when switching to another kind of period
+  const changePeriodType = (type: PeriodType) => {
+    const { startDate, endDate } = data.period.current;
+    if (type === "custom") {
+      selectPeriod({ period: type, startDate, endDate });
+    } else if (type === "lastWeek" || type === "mtd") {
+      selectPeriod({ period: type });
+    } else {
+      selectPeriod({ period: type, date: startDate });
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -593,33 +1086,77 @@ export default function WeeklyDashboard() {
             <div>
               <h1 className="text-2xl font-bold text-gray-900">Weekly Performance Report</h1>
               <p className="text-gray-500 text-sm mt-1">
+                <span className="font-medium text-gray-700">{data.period.label}:</span>{" "}
                 {formatFullDate(data.period.current.startDate)} - {formatFullDate(data.period.current.endDate)}
                 <span className="text-gray-400 ml-2">
-                  (vs {formatFullDate(data.period.lastYear.startDate)} - {formatFullDate(data.period.lastYear.endDate)})
+                  (vs {formatFullDate(data.period.lastYear.startDate)} - {formatFullDate(data.period.lastYear.endDate)} ·{" "}
+                  {COMPARISON_LABELS[data.period.comparisonMode]})
                 </span>
               </p>
             </div>
-            <div className="flex gap-2">
-              <button
-                onClick={() => setPeriodType("lastWeek")}
-                className={`px-4 py-2 text-sm rounded-lg transition-colors ${
-                  periodType === "lastWeek"
-                    ? "bg-blue-600 text-white"
-                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
-                }`}
+            <div className="flex gap-2 flex-wrap">
+              <PropertySelector value={property ?? ""} onChange={setProperty} />
+              <select
+                value={comparisonMode}
+                onChange={(e) => updateParams({ comparison: e.target.value })}
+                title="How last year's period is aligned"
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
-                Last Week (Mon-Sun)
-              </button>
-              <button
-                onClick={() => setPeriodType("last7days")}
-                className={`px-4 py-2 text-sm rounded-lg transition-colors ${
-                  periodType === "last7days"
-                    ? "bg-blue-600 text-white"
-                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
-                }`}
-              >
-                Last 7 Days
-              </button>
+                {Object.entries(COMPARISON_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    vs LY: {label}
+                  </option>
+                ))}
+              </select>
+              <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                <button
+                  onClick={() => selectPeriod(data.period.previous)}
+                  title="Previous period"
+                  className="px-3 py-2 text-sm bg-white text-gray-700 hover:bg-gray-100"
+                >
+                  ◀
+                </button>
+                <select
+                  value={periodType}
+                  onChange={(e) => changePeriodType(e.target.value as PeriodType)}
+                  className="px-3 py-2 text-sm border-x border-gray-300 bg-white text-gray-700 focus:outline-none"
+                >
+                  {PERIOD_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {PERIOD_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => data.period.next && selectPeriod(data.period.next)}
+                  disabled={!data.period.next}
+                  title="Next period"
+                  className="px-3 py-2 text-sm bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-white"
+                >
+                  ▶
+                </button>
+              </div>
+              {periodType === "custom" && (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="date"
+                    value={data.period.current.startDate}
+                    onChange={(e) =>
+                      e.target.value && selectPeriod({ period: "custom", startDate: e.target.value, endDate: data.period.current.endDate })
+                    }
+                    className="px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-700"
+                  />
+                  <span className="text-gray-400">–</span>
+                  <input
+                    type="date"
+                    value={data.period.current.endDate}
+                    onChange={(e) =>
+                      e.target.value && selectPeriod({ period: "custom", startDate: data.period.current.startDate, endDate: e.target.value })
+                    }
+                    className="px-3 py-2 text-sm border border-gray-300 rounded-lg text-gray-700"
+                  />
+                </div>
+              )}
               <Link
                 href="/"
                 className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
@@ -632,305 +1169,343 @@ export default function WeeklyDashboard() {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {property !== null && (
+          <FilterBar
+            property={property}
+            filter={filter}
+            onChange={(next) => updateParams({ filter: isEmptyFilter(next) ? undefined : JSON.stringify(next) })}
+          />
+        )}
+
+        <HolidayNotice
+          holidays={data.period.holidays}
+          comparisonMode={data.period.comparisonMode}
+          onAlignByHoliday={() => updateParams({ comparison: "holiday" })}
+        />
+
         {/* Primary Metrics - Forms, Calls, Click to Lead */}
         <section>
-          <h2 className="text-lg font-semibold text-gray-900 mb-4">Lead Generation</h2>
-          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
-            <MetricCard
-              title="Form Submissions"
-              value={data.totals.formSubmissions}
-              change={data.comparison.changes.formSubmissions}
-              lastYearValue={data.comparison.lastYear.formSubmissions}
-              icon="📝"
-              highlight={true}
-            />
-            <MetricCard
-              title="Phone Calls"
-              value={data.totals.phoneCalls}
-              change={data.comparison.changes.phoneCalls}
-              lastYearValue={data.comparison.lastYear.phoneCalls}
-              icon="📞"
-              highlight={true}
-            />
-            <MetricCard
-              title="Total Leads"
-              value={data.totals.conversions}
-              change={data.comparison.changes.conversions}
-              lastYearValue={data.comparison.lastYear.conversions}
-              icon="🎯"
-              highlight={true}
-            />
-            <MetricCard
-              title="Click → Lead Rate"
-              value={data.totals.clickToLeadRate}
-              change={data.comparison.changes.clickToLeadRate}
-              lastYearValue={data.comparison.lastYear.clickToLeadRate}
-              format="percent"
-              icon="📈"
-              highlight={true}
-            />
-            <MetricCard
-              title="Users"
-              value={data.totals.users}
-              change={data.comparison.changes.users}
-              lastYearValue={data.comparison.lastYear.users}
-              icon="👥"
-              highlight={true}
-            />
+          <div className="flex items-center gap-2 mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Lead Generation</h2>
+            <DataQualityBadge quality={data.quality.totals} />
           </div>
+          {totals ? (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {data.leadEvents.map((event) => (
+                <MetricCard
+                  key={event.name}
+                  title={event.label}
+                  value={totals.leads[event.name] || 0}
+                  change={comparison?.leadChanges[event.name]}
+                  lastYearValue={comparison?.lastYear.leads[event.name]}
+                  icon={event.icon}
+                  highlight={true}
+                />
+              ))}
+              <MetricCard
+                title="Total Leads"
+                value={totals.conversions}
+                change={comparison?.changes.conversions}
+                lastYearValue={comparison?.lastYear.conversions}
+                icon="🎯"
+                highlight={true}
+              />
+              <MetricCard
+                title="Click → Lead Rate"
+                value={totals.clickToLeadRate}
+                change={comparison?.changes.clickToLeadRate}
+                lastYearValue={comparison?.lastYear.clickToLeadRate}
+                format="percent"
+                icon="📈"
+                highlight={true}
+              />
+              {totals.leadValue !== null && (
+                <MetricCard
+                  title="Lead Value"
+                  value={totals.leadValue}
+                  lastYearValue={comparison?.lastYear.leadValue ?? undefined}
+                  icon="💵"
+                  highlight={true}
+                />
+              )}
+              <MetricCard
+                title="Users"
+                value={totals.users}
+                change={comparison?.changes.users}
+                lastYearValue={comparison?.lastYear.users}
+                icon="👥"
+                highlight={true}
+              />
+            </div>
+          ) : (
+            <SectionError title="Lead totals" message={data.errors.totals} />
+          )}
         </section>
 
         {/* Category Summary Table - Moved to top for quick overview */}
         <section>
-          <CategorySummaryTable breakdown={breakdown} />
+          {breakdown ? (
+            <CategorySummaryTable
+              breakdown={breakdown}
+              categories={channelCategories}
+              leadEvents={data.leadEvents}
+              unattributed={data.redistribution?.remaining}
+              trends={trends}
+              quality={mergeQuality(data.quality.detailedBreakdown, trends ? trendsQuality : null)}
+            />
+          ) : (
+            <SectionError title="Summary by Category" message={data.errors.detailedBreakdown} />
+          )}
         </section>
 
+        {trends && (
+          <section>
+            <WeeklyTrendChart
+              trends={trends}
+              categories={channelCategories}
+              leadEvents={data.leadEvents}
+              weeks={trendWeeks}
+              onWeeksChange={setTrendWeeks}
+              quality={trendsQuality}
+            />
+          </section>
+        )}
+
         {/* Detailed Channel Breakdowns */}
         <section>
-          <h2 className="text-lg font-semibold text-gray-900 mb-4">Detailed Channel Performance</h2>
-          <p className="text-gray-500 text-sm mb-4">Click headers to sort • Click category headers to expand/collapse</p>
-          <div className="space-y-4">
-            <DetailedSourceTable
-              title="Organic Search"
-              sources={breakdown.organicSearch}
-              color="bg-green-100 text-green-800"
-              icon="🔍"
-            />
-            <DetailedSourceTable
-              title="Paid Search & Ads"
-              sources={breakdown.paidSearch}
-              color="bg-blue-100 text-blue-800"
-              icon="💰"
-            />
-            <DetailedSourceTable
-              title="AI / LLM Referrals"
-              sources={breakdown.llmAI}
-              color="bg-purple-100 text-purple-800"
-              icon="🤖"
-            />
-            <DetailedSourceTable
-              title="Listings & Directories"
-              sources={breakdown.listings}
-              color="bg-yellow-100 text-yellow-800"
-              icon="📋"
-            />
-            <DetailedSourceTable
-              title="Direct Traffic"
-              sources={breakdown.direct}
-              color="bg-gray-200 text-gray-800"
-              icon="🎯"
-            />
-            <DetailedSourceTable
-              title="Social Media"
-              sources={breakdown.social}
-              color="bg-pink-100 text-pink-800"
-              icon="📱"
-              defaultExpanded={false}
-            />
-            <DetailedSourceTable
-              title="Referral Sites"
-              sources={breakdown.referral}
-              color="bg-orange-100 text-orange-800"
-              icon="🔗"
-              defaultExpanded={false}
-            />
-            {breakdown.other.length > 0 && (
-              <DetailedSourceTable
-                title="Other Sources"
-                sources={breakdown.other}
-                color="bg-slate-100 text-slate-800"
-                icon="🌐"
-                defaultExpanded={false}
-              />
-            )}
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <h2 className="text-lg font-semibold text-gray-900">Detailed Channel Performance</h2>
+              <DataQualityBadge quality={data.quality.detailedBreakdown} />
+            </div>
+            <div className="flex gap-4">
+              <Link
+                href={`/weekly/classification?${periodSearchParams(data.period.selection)}${filterParam ? `&filter=${encodeURIComponent(filterParam)}` : ""}`}
+                className="text-sm text-blue-600 hover:text-blue-700"
+              >
+                Explain classification
+              </Link>
+              <Link href="/admin/sources" className="text-sm text-blue-600 hover:text-blue-700">
+                Review unclassified sources →
+              </Link>
+            </div>
           </div>
+          <p className="text-gray-500 text-sm mb-4">Click headers to sort • Click category headers to expand/collapse</p>
+          {breakdown ? (
+            <div className="space-y-4">
+              {channelCategories.map((category) => (
+                <DetailedSourceTable
+                  key={category.id}
+                  title={category.name}
+                  sources={breakdown[category.id] || []}
+                  leadEvents={data.leadEvents}
+                  color={category.color}
+                  icon={category.icon}
+                  defaultExpanded={!category.collapsed}
+                />
+              ))}
+            </div>
+          ) : (
+            <SectionError title="Channel breakdown" message={data.errors.detailedBreakdown} />
+          )}
         </section>
 
         {/* Charts Row */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Leads Trend */}
-          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Daily Leads</h3>
-            <ResponsiveContainer width="100%" height={280}>
-              <BarChart data={data.leads.byDay.map((d) => ({ ...d, formattedDate: formatDate(d.date) }))}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-                <XAxis dataKey="formattedDate" fontSize={11} tickLine={false} />
-                <YAxis fontSize={11} tickLine={false} />
-                <Tooltip />
-                <Bar dataKey="leads" name="Leads" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
-              </BarChart>
-            </ResponsiveContainer>
-          </div>
+          {data.leads ? (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+              <div className="flex items-center justify-between gap-2 mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Daily Leads</h3>
+                <DataQualityBadge quality={data.quality.leads} />
+              </div>
+              <ResponsiveContainer width="100%" height={280}>
+                <BarChart data={data.leads.byDay.map((d) => ({ ...d, formattedDate: formatDate(d.date) }))}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="formattedDate" fontSize={11} tickLine={false} />
+                  <YAxis fontSize={11} tickLine={false} />
+                  <Tooltip />
+                  <Bar dataKey="leads" name="Leads" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <SectionError title="Daily Leads" message={data.errors.leads} />
+          )}
 
           {/* Traffic Trend */}
-          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Traffic Trend</h3>
-            <ResponsiveContainer width="100%" height={280}>
-              <AreaChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-                <XAxis dataKey="formattedDate" fontSize={11} tickLine={false} />
-                <YAxis fontSize={11} tickLine={false} />
-                <Tooltip />
-                <Legend />
-                <Area
-                  type="monotone"
-                  dataKey="users"
-                  name="Users"
-                  stroke="#3b82f6"
-                  fill="#3b82f6"
-                  fillOpacity={0.1}
-                />
-                <Area
-                  type="monotone"
-                  dataKey="sessions"
-                  name="Sessions"
-                  stroke="#10b981"
-                  fill="#10b981"
-                  fillOpacity={0.1}
-                />
-              </AreaChart>
-            </ResponsiveContainer>
-          </div>
+          {data.daily ? (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+              <div className="flex items-center justify-between gap-2 mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Traffic Trend</h3>
+                <DataQualityBadge quality={data.quality.daily} />
+              </div>
+              <ResponsiveContainer width="100%" height={280}>
+                <AreaChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="formattedDate" fontSize={11} tickLine={false} />
+                  <YAxis fontSize={11} tickLine={false} />
+                  <Tooltip />
+                  <Legend />
+                  <Area
+                    type="monotone"
+                    dataKey="users"
+                    name="Users"
+                    stroke="#3b82f6"
+                    fill="#3b82f6"
+                    fillOpacity={0.1}
+                  />
+                  <Area
+                    type="monotone"
+                    dataKey="sessions"
+                    name="Sessions"
+                    stroke="#10b981"
+                    fill="#10b981"
+                    fillOpacity={0.1}
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <SectionError title="Traffic Trend" message={data.errors.daily} />
+          )}
         </div>
 
         {/* Leads by Channel Pie + Top Pages */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Leads by Channel Type</h3>
-            <div className="flex items-center">
-              <ResponsiveContainer width="50%" height={220}>
-                <PieChart>
-                  <Pie
-                    data={data.conversionsByChannel.filter(c => c.conversions > 0)}
-                    dataKey="conversions"
-                    nameKey="channel"
-                    cx="50%"
-                    cy="50%"
-                    outerRadius={80}
-                    innerRadius={50}
-                    label={({ percent }) => `${(percent * 100).toFixed(0)}%`}
-                    labelLine={false}
-                  >
-                    {data.conversionsByChannel.filter(c => c.conversions > 0).map((entry, i) => (
-                      <Cell key={i} fill={CHANNEL_COLORS[entry.channel] || COLORS[i % COLORS.length]} />
-                    ))}
-                  </Pie>
-                  <Tooltip />
-                </PieChart>
-              </ResponsiveContainer>
-              <div className="flex-1 space-y-2">
-                {data.conversionsByChannel.filter(c => c.conversions > 0).slice(0, 6).map((channel, i) => (
-                  <div key={i} className="flex items-center justify-between text-sm">
-                    <div className="flex items-center gap-2">
-                      <div
-                        className="w-3 h-3 rounded-full"
-                        style={{ backgroundColor: CHANNEL_COLORS[channel.channel] || COLORS[i % COLORS.length] }}
-                      />
-                      <span className="text-gray-700 truncate max-w-[120px]">{channel.channel}</span>
+          {data.conversionsByChannel ? (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+              <div className="flex items-center justify-between gap-2 mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Leads by Channel Type</h3>
+                <DataQualityBadge quality={data.quality.conversionsByChannel} />
+              </div>
+              <div className="flex items-center">
+                <ResponsiveContainer width="50%" height={220}>
+                  <PieChart>
+                    <Pie
+                      data={data.conversionsByChannel.filter(c => c.conversions > 0)}
+                      dataKey="conversions"
+                      nameKey="channel"
+                      cx="50%"
+                      cy="50%"
+                      outerRadius={80}
+                      innerRadius={50}
+                      label={({ percent }) => `${(percent * 100).toFixed(0)}%`}
+                      labelLine={false}
+                    >
+                      {data.conversionsByChannel.filter(c => c.conversions > 0).map((entry, i) => (
+                        <Cell key={i} fill={CHANNEL_COLORS[entry.channel] || COLORS[i % COLORS.length]} />
+                      ))}
+                    </Pie>
+                    <Tooltip />
+                  </PieChart>
+                </ResponsiveContainer>
+                <div className="flex-1 space-y-2">
+                  {data.conversionsByChannel.filter(c => c.conversions > 0).slice(0, 6).map((channel, i) => (
+                    <div key={i} className="flex items-center justify-between text-sm">
+                      <div className="flex items-center gap-2">
+                        <div
+                          className="w-3 h-3 rounded-full"
+                          style={{ backgroundColor: CHANNEL_COLORS[channel.channel] || COLORS[i % COLORS.length] }}
+                        />
+                        <span className="text-gray-700 truncate max-w-[120px]">{channel.channel}</span>
+                      </div>
+                      <span className="font-semibold">{channel.conversions}</span>
                     </div>
-                    <span className="font-semibold">{channel.conversions}</span>
-                  </div>
-                ))}
+                  ))}
+                </div>
               </div>
             </div>
-          </div>
+          ) : (
+            <SectionError title="Leads by Channel Type" message={data.errors.conversionsByChannel} />
+          )}
 
-          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">Top Pages</h3>
-            <div className="space-y-3">
-              {data.topPages.slice(0, 7).map((page, i) => (
-                <div key={i} className="flex items-center justify-between py-2 border-b border-gray-50 last:border-0">
-                  <div className="flex-1 min-w-0 mr-3">
-                    <p className="text-sm font-medium text-gray-900 truncate">{page.title || page.path}</p>
-                    <p className="text-xs text-gray-500 truncate">{page.path}</p>
+          {data.topPages ? (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+              <div className="flex items-center justify-between gap-2 mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Top Pages</h3>
+                <DataQualityBadge quality={data.quality.topPages} />
+              </div>
+              <div className="space-y-3">
+                {data.topPages.slice(0, 7).map((page, i) => (
+                  <div key={i} className="flex items-center justify-between py-2 border-b border-gray-50 last:border-0">
+                    <div className="flex-1 min-w-0 mr-3">
+                      <p className="text-sm font-medium text-gray-900 truncate">{page.title || page.path}</p>
+                      <p className="text-xs text-gray-500 truncate">{page.path}</p>
+                    </div>
+                    <span className="text-sm font-semibold text-gray-900">{page.pageviews.toLocaleString()}</span>
                   </div>
-                  <span className="text-sm font-semibold text-gray-900">{page.pageviews.toLocaleString()}</span>
-                </div>
-              ))}
+                ))}
+              </div>
             </div>
-          </div>
+          ) : (
+            <SectionError title="Top Pages" message={data.errors.topPages} />
+          )}
         </div>
 
         {/* Summary Banner */}
-        <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-xl shadow-lg p-6 text-white">
-          <h3 className="text-lg font-semibold mb-4">Weekly Summary vs Last Year</h3>
-          <div className="grid grid-cols-2 md:grid-cols-5 gap-6">
-            <div>
-              <p className="text-blue-100 text-sm">Total Leads</p>
-              <p className="text-3xl font-bold">{data.totals.conversions.toLocaleString()}</p>
-              <p className={`text-sm ${data.comparison.changes.conversions >= 0 ? "text-green-300" : "text-red-300"}`}>
-                {data.comparison.changes.conversions >= 0 ? "↑" : "↓"} {Math.abs(data.comparison.changes.conversions).toFixed(1)}%
-              </p>
-            </div>
-            <div>
-              <p className="text-blue-100 text-sm">Form Submissions</p>
-              <p className="text-3xl font-bold">{data.totals.formSubmissions.toLocaleString()}</p>
+        {totals && comparison ? (
+          <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-xl shadow-lg p-6 text-white">
+            <div className="flex items-center gap-2 mb-4">
+              <h3 className="text-lg font-semibold">Weekly Summary vs Last Year</h3>
+              <DataQualityBadge quality={mergeQuality(data.quality.totals, data.quality.comparison)} />
             </div>
-            <div>
-              <p className="text-blue-100 text-sm">Phone Calls</p>
-              <p className="text-3xl font-bold">{data.totals.phoneCalls.toLocaleString()}</p>
-            </div>
-            <div>
-              <p className="text-blue-100 text-sm">Click → Lead</p>
-              <p className="text-3xl font-bold">{data.totals.clickToLeadRate.toFixed(2)}%</p>
-            </div>
-            <div>
-              <p className="text-blue-100 text-sm">Total Users</p>
-              <p className="text-3xl font-bold">{data.totals.users.toLocaleString()}</p>
-              <p className={`text-sm ${data.comparison.changes.users >= 0 ? "text-green-300" : "text-red-300"}`}>
-                {data.comparison.changes.users >= 0 ? "↑" : "↓"} {Math.abs(data.comparison.changes.users).toFixed(1)}%
-              </p>
-            </div>
-          </div>
-        </div>
-        {/* Debug: Raw phone_call events by source (before redistribution) */}
-        {data.rawPhoneCallsBySource && data.rawPhoneCallsBySource.length > 0 && (
-          <section>
-            <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
-              <div className="px-6 py-4 bg-gradient-to-r from-amber-500 to-orange-500 text-white">
-                <h3 className="font-semibold text-lg">Debug: Raw phone_call Events by Source</h3>
-                <p className="text-amber-100 text-sm">Raw GA4 data before (not set) redistribution. Compare with GA4 Events &gt; phone_call report.</p>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-6">
+              <div>
+                <p className="text-blue-100 text-sm">Total Leads</p>
+                <p className="text-3xl font-bold">{totals.conversions.toLocaleString()}</p>
+                <p className={`text-sm ${comparison.changes.conversions >= 0 ? "text-green-300" : "text-red-300"}`}>
+                  {comparison.changes.conversions >= 0 ? "↑" : "↓"} {Math.abs(comparison.changes.conversions).toFixed(1)}%
+                </p>
               </div>
-              <div className="overflow-x-auto">
-                <table className="w-full text-sm">
-                  <thead>
-                    <tr className="border-b border-gray-200 bg-gray-50">
-                      <th className="text-left py-3 px-4 font-medium text-gray-500">Source</th>
-                      <th className="text-left py-3 px-4 font-medium text-gray-500">Medium</th>
-                      <th className="text-right py-3 px-4 font-medium text-gray-500">Phone Calls</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {data.rawPhoneCallsBySource.map((row, i) => (
-                      <tr key={i} className={`border-b border-gray-50 hover:bg-gray-50 ${row.source === '(not set)' ? 'bg-amber-50' : ''}`}>
-                        <td className="py-2 px-4 font-medium text-gray-900">{row.source}</td>
-                        <td className="py-2 px-4 text-gray-500">{row.medium}</td>
-                        <td className="py-2 px-4 text-right font-semibold text-gray-900">{row.count}</td>
-                      </tr>
-                    ))}
-                  </tbody>
-                  <tfoot>
-                    <tr className="bg-gray-100 font-semibold">
-                      <td className="py-3 px-4 text-gray-900" colSpan={2}>Total</td>
-                      <td className="py-3 px-4 text-right text-gray-900">
-                        {data.rawPhoneCallsBySource.reduce((sum, r) => sum + r.count, 0)}
-                      </td>
-                    </tr>
-                  </tfoot>
-                </table>
+              {data.leadEvents.map((event) => (
+                <div key={event.name}>
+                  <p className="text-blue-100 text-sm">{event.label}</p>
+                  <p className="text-3xl font-bold">{(totals.leads[event.name] || 0).toLocaleString()}</p>
+                </div>
+              ))}
+              <div>
+                <p className="text-blue-100 text-sm">Click → Lead</p>
+                <p className="text-3xl font-bold">{totals.clickToLeadRate.toFixed(2)}%</p>
+              </div>
+              <div>
+                <p className="text-blue-100 text-sm">Total Users</p>
+                <p className="text-3xl font-bold">{totals.users.toLocaleString()}</p>
+                <p className={`text-sm ${comparison.changes.users >= 0 ? "text-green-300" : "text-red-300"}`}>
+                  {comparison.changes.users >= 0 ? "↑" : "↓"} {Math.abs(comparison.changes.users).toFixed(1)}%
+                </p>
               </div>
             </div>
-          </section>
+          </div>
+        ) : (
+          <SectionError title="Weekly Summary vs Last Year" message={data.errors.comparison || data.errors.totals} />
+        )}
+        {/* Where the "(not set)" lead events went */}
+        {data.redistribution && Object.values(data.redistribution.unattributed).some((count) => count > 0) && (
+          <RedistributionAudit
+            redistribution={data.redistribution}
+            leadEvents={data.leadEvents}
+            onStrategyChange={(strategy) => updateParams({ redistribution: strategy })}
+          />
         )}
       </main>
 
       <footer className="bg-white border-t border-gray-200 mt-8">
         <div className="max-w-7xl mx-auto px-4 py-4">
           <p className="text-center text-gray-500 text-sm">
-            Data compared with same week last year ({formatFullDate(data.period.lastYear.startDate)} - {formatFullDate(data.period.lastYear.endDate)})
+            Data compared with last year ({formatFullDate(data.period.lastYear.startDate)} - {formatFullDate(data.period.lastYear.endDate)} ·{" "}
+            {COMPARISON_LABELS[data.period.comparisonMode]})
           </p>
         </div>
       </footer>
     </div>
   );
 }
+
+export default function WeeklyDashboard() {
+  return (
+    <Suspense>
+      <WeeklyReport />
+    </Suspense>
+  );
+}
@@ -0,0 +1,20 @@
+// Next.js calls register() once per server start. With
+// ALERT_RUNNER_INTERVAL_MINUTES set, the server checks its alert rules on
+// that interval; otherwise an external cron can POST /api/analytics/alerts.
+export async function register() {
+  const minutes = parseInt(process.env.ALERT_RUNNER_INTERVAL_MINUTES || "0");
+  if (process.env.NEXT_RUNTIME !== "nodejs" || !(minutes > 0)) return;
+
+  const { runAlertRules } = await import("./lib/alerts");
+  const check = () =>
+    runAlertRules()
+      .then((results) => {
+        for (const result of results.filter((r) => r.errors.length > 0)) {
+          console.error(`Alert rule "${result.ruleId}" failed:`, result.errors.join("; "));
+        }
+      })
+      .catch((error) => console.error("Alert runner error:", error));
+
+  setInterval(check, minutes * 60 * 1000).unref();
+  check();
+}
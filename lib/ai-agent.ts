@@ -5,9 +5,14 @@ import {
   getTrafficSources,
   comparePeriods,
   detectAnomalies,
+  scanLeadAnomalies,
   getAggregatedMetrics,
   type DateRange,
+  type ReportOptions,
 } from "./ga-client";
+import { getProperty } from "./properties";
+import { isEmptyFilter, type ReportFilter } from "./report-filters";
+import { assertQuotaAvailable, QuotaExhaustedError } from "./quota";
 
 const client = new Anthropic();
 
@@ -129,19 +134,31 @@ const tools: Anthropic.Tool[] = [
   {
     name: "detect_anomalies",
     description:
-      "Detect unusual spikes or drops in a specific metric over the last 30 days using statistical analysis.",
+      "Detect unusual spikes or drops in a specific metric over the last 28 complete days. Each day is compared with the same weekday over the lookback window (median and median absolute deviation), and comes with its expected value and band (`expected`, `lower`, `upper`). Anomalies on holidays carry a `holiday` field with the holiday name. With metric \"leads\", each lead event's count over the last `windowDays` days is checked for the whole site, every channel category and the top sources instead; those anomalies are ranked by business impact (`impact` events above or below expected, `impactValue` when the lead has a value).",
     input_schema: {
       type: "object" as const,
       properties: {
         metric: {
           type: "string",
-          enum: ["users", "sessions", "pageviews", "bounceRate"],
-          description: "The metric to analyze for anomalies",
+          enum: ["users", "sessions", "pageviews", "bounceRate", "leads"],
+          description: "The metric to analyze for anomalies, or \"leads\" to scan lead events by channel category and source",
         },
         threshold: {
           type: "number",
           description:
-            "Standard deviation threshold for anomaly detection (default: 2)",
+            "Robust z-score beyond which a day is an anomaly (default: 3)",
+        },
+        lookbackDays: {
+          type: "number",
+          description: "Days of history each day is compared with, 28 to 364 (default: 56)",
+        },
+        windowDays: {
+          type: "number",
+          description: "For leads: days summed into the checked window, 1 to 28 (default: 7)",
+        },
+        topSources: {
+          type: "number",
+          description: "For leads: how many of the top sources to check one by one (default: 10)",
         },
       },
       required: ["metric"],
@@ -159,19 +176,26 @@ interface ToolInput {
   period2EndDate?: string;
   metric?: string;
   threshold?: number;
+  lookbackDays?: number;
+  windowDays?: number;
+  topSources?: number;
 }
 
 async function executeToolCall(
   toolName: string,
-  toolInput: ToolInput
+  toolInput: ToolInput,
+  options: ReportOptions
 ): Promise<string> {
+  // Refuse up front rather than burning the last tokens on a tool call
+  assertQuotaAvailable(getProperty(options.property).propertyId);
+
   switch (toolName) {
     case "get_metrics": {
       const dateRange: DateRange = {
         startDate: toolInput.startDate!,
         endDate: toolInput.endDate!,
       };
-      const result = await getMetrics(dateRange);
+      const result = await getMetrics(dateRange, undefined, options);
       return JSON.stringify(result, null, 2);
     }
 
@@ -180,7 +204,7 @@ async function executeToolCall(
         startDate: toolInput.startDate!,
         endDate: toolInput.endDate!,
       };
-      const result = await getAggregatedMetrics(dateRange);
+      const result = await getAggregatedMetrics(dateRange, options);
       return JSON.stringify(result, null, 2);
     }
 
@@ -189,7 +213,7 @@ async function executeToolCall(
         startDate: toolInput.startDate!,
         endDate: toolInput.endDate!,
       };
-      const result = await getTopPages(dateRange, toolInput.limit);
+      const result = await getTopPages(dateRange, toolInput.limit, options);
       return JSON.stringify(result, null, 2);
     }
 
@@ -198,7 +222,7 @@ async function executeToolCall(
         startDate: toolInput.startDate!,
         endDate: toolInput.endDate!,
       };
-      const result = await getTrafficSources(dateRange);
+      const result = await getTrafficSources(dateRange, options);
       return JSON.stringify(result, null, 2);
     }
 
@@ -211,14 +235,24 @@ async function executeToolCall(
         startDate: toolInput.period2StartDate!,
         endDate: toolInput.period2EndDate!,
       };
-      const result = await comparePeriods(period1, period2);
+      const result = await comparePeriods(period1, period2, options);
       return JSON.stringify(result, null, 2);
     }
 
     case "detect_anomalies": {
+      if (toolInput.metric === "leads") {
+        const result = await scanLeadAnomalies(toolInput.threshold, {
+          ...options,
+          lookbackDays: toolInput.lookbackDays,
+          windowDays: toolInput.windowDays,
+          topSources: toolInput.topSources,
+        });
+        return JSON.stringify(result, null, 2);
+      }
       const result = await detectAnomalies(
         toolInput.metric!,
-        toolInput.threshold
+        toolInput.threshold,
+        { ...options, lookbackDays: toolInput.lookbackDays }
       );
       return JSON.stringify(result, null, 2);
     }
@@ -235,7 +269,9 @@ export interface ChatMessage {
 
 export async function chat(
   userMessage: string,
-  conversationHistory: ChatMessage[] = []
+  conversationHistory: ChatMessage[] = [],
+  property?: string,
+  filter?: ReportFilter
 ): Promise<string> {
   const messages: Anthropic.MessageParam[] = conversationHistory.map((msg) => ({
     role: msg.role,
@@ -254,13 +290,21 @@ Key guidelines:
 - Suggest actionable next steps when appropriate
 - Be concise but thorough in your analysis
 - If you detect any issues or opportunities, proactively mention them
+- If a tool reports that the GA quota is nearly exhausted, tell the user plainly and do not retry
+- Tool results come as { data, quality }; if quality shows the data is sampled, thresholded, has an "(other)" row or is truncated, say the numbers are approximate
 
 For date references:
 - "yesterday" means the previous day
 - "last week" means the 7 days ending yesterday
 - "last month" means the 30 days ending yesterday
 - "this week" means the current week starting from Monday
-- "this month" means from the 1st of the current month to today`;
+- "this month" means from the 1st of the current month to today${
+    isEmptyFilter(filter)
+      ? ""
+      : `
+
+The user is looking at filtered data; every tool result is already limited to this filter: ${JSON.stringify(filter)}`
+  }`;
 
   let response = await client.messages.create({
     model: "claude-sonnet-4-20250514",
@@ -277,15 +321,26 @@ For date references:
 
     const toolResults: Anthropic.ToolResultBlockParam[] = await Promise.all(
       toolUseBlocks.map(async (toolUse) => {
-        const result = await executeToolCall(
-          toolUse.name,
-          toolUse.input as ToolInput
-        );
-        return {
-          type: "tool_result" as const,
-          tool_use_id: toolUse.id,
-          content: result,
-        };
+        try {
+          const result = await executeToolCall(
+            toolUse.name,
+            toolUse.input as ToolInput,
+            { property, filter }
+          );
+          return {
+            type: "tool_result" as const,
+            tool_use_id: toolUse.id,
+            content: result,
+          };
+        } catch (error) {
+          if (!(error instanceof QuotaExhaustedError)) throw error;
+          return {
+            type: "tool_result" as const,
+            tool_use_id: toolUse.id,
+            content: JSON.stringify({ error: error.message }),
+            is_error: true,
+          };
+        }
       })
     );
 
@@ -309,7 +364,9 @@ For date references:
 }
 
 export async function generateReport(
-  reportType: "daily" | "weekly" | "monthly"
+  reportType: "daily" | "weekly" | "monthly",
+  property?: string,
+  filter?: ReportFilter
 ): Promise<string> {
   const dateRanges: Record<string, { current: DateRange; previous: DateRange }> = {
     daily: {
@@ -327,14 +384,15 @@ export async function generateReport(
   };
 
   const { current, previous } = dateRanges[reportType];
+  const options: ReportOptions = { property, filter };
 
   const [metrics, topPages, trafficSources, comparison, anomalies] =
     await Promise.all([
-      getAggregatedMetrics(current),
-      getTopPages(current, 5),
-      getTrafficSources(current),
-      comparePeriods(current, previous),
-      detectAnomalies("users"),
+      getAggregatedMetrics(current, options),
+      getTopPages(current, 5, options),
+      getTrafficSources(current, options),
+      comparePeriods(current, previous, options),
+      detectAnomalies("users", undefined, options),
     ]);
 
   const prompt = `Generate a ${reportType} analytics report based on this data:
@@ -362,5 +420,5 @@ Please provide a well-structured report with:
 5. Traffic Analysis
 6. Recommendations`;
 
-  return chat(prompt);
+  return chat(prompt, [], property, filter);
 }
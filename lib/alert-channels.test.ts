@@ -0,0 +1,178 @@
+import http from "http";
+import net from "net";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createAlertChannel, type AlertNotification } from "./alert-channels";
+
+const notification: AlertNotification = {
+  ruleId: "form-leads-drop",
+  ruleName: "Form leads dropped",
+  property: "Acme Plumbing",
+  message: "Form leads were 3 over the 7 days to 2026-10-18, 71% below the 7 days before (10)",
+  range: { startDate: "2026-10-12", endDate: "2026-10-18" },
+  value: 3,
+  baseline: 10,
+  change: -70,
+  score: null,
+  triggeredAt: "2026-10-19T15:00:00.000Z",
+};
+
+// HTTP stand-in for webhook and Slack endpoints: records every request and
+// answers with `status`
+describe("webhook and Slack channels", () => {
+  const received: Array<{ url: string; headers: http.IncomingHttpHeaders; body: unknown }> = [];
+  let status = 200;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        received.push({ url: request.url || "", headers: request.headers, body: JSON.parse(body) });
+        response.statusCode = status;
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    received.length = 0;
+    status = 200;
+  });
+
+  it("posts the notification as JSON with the configured headers", async () => {
+    const channel = createAlertChannel({
+      id: "ops-webhook",
+      type: "webhook",
+      url: `${baseUrl}/ga-alerts`,
+      headers: { Authorization: "Bearer test-token" },
+    });
+    await channel.send(notification);
+
+    expect(received).toHaveLength(1);
+    expect(received[0].url).toBe("/ga-alerts");
+    expect(received[0].headers["content-type"]).toBe("application/json");
+    expect(received[0].headers.authorization).toBe("Bearer test-token");
+    expect(received[0].body).toEqual(notification);
+  });
+
+  it("posts a Slack incoming-webhook payload", async () => {
+    const channel = createAlertChannel({ id: "marketing-slack", type: "slack", url: `${baseUrl}/services/T000/B000` });
+    await channel.send(notification);
+
+    const body = received[0].body as { text: string; blocks: Array<{ type: string; text?: { text: string } }> };
+    expect(body.text).toContain(notification.message);
+    expect(body.blocks[0].type).toBe("section");
+    expect(body.blocks[0].text?.text).toContain("*Form leads dropped* (Acme Plumbing)");
+    expect(JSON.stringify(body.blocks[1])).toContain("2026-10-12 – 2026-10-18");
+  });
+
+  it("fails when the endpoint doesn't accept the notification", async () => {
+    status = 500;
+    const channel = createAlertChannel({ id: "ops-webhook", type: "webhook", url: `${baseUrl}/ga-alerts` });
+    await expect(channel.send(notification)).rejects.toThrow("responded 500");
+  });
+});
+
+// SMTP stand-in: enough of the protocol for sendMail, recording the
+// commands and message it was given
+describe("email channel", () => {
+  const commands: string[] = [];
+  let messages: string[] = [];
+  let server: net.Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = net.createServer((socket) => {
+      let buffer = "";
+      let inData = false;
+      socket.write("220 localhost test SMTP\r\n");
+      socket.on("data", (chunk) => {
+        buffer += chunk.toString("utf-8");
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end < 0) return;
+          messages.push(buffer.slice(0, end));
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write("250 queued\r\n");
+        }
+        let end;
+        while (!inData && (end = buffer.indexOf("\r\n")) >= 0) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          commands.push(line);
+          const verb = line.split(/[ :]/)[0].toUpperCase();
+          if (verb === "EHLO") socket.write("250-localhost\r\n250 AUTH PLAIN\r\n");
+          else if (verb === "AUTH") socket.write("235 authenticated\r\n");
+          else if (verb === "DATA") {
+            inData = true;
+            socket.write("354 go ahead\r\n");
+          } else if (verb === "QUIT") socket.end("221 bye\r\n");
+          else socket.write("250 ok\r\n");
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    commands.length = 0;
+    messages = [];
+  });
+
+  it("hands the message to the SMTP server", async () => {
+    const channel = createAlertChannel({
+      id: "account-team",
+      type: "email",
+      to: ["analytics@example.com", "owner@example.com"],
+      from: "alerts@example.com",
+      smtp: { host: "127.0.0.1", port, startTls: false, user: "alerts", password: "secret" },
+    });
+    await channel.send({ ...notification, message: ".leading dot\nsecond line" });
+
+    expect(commands.filter((line) => !line.startsWith("EHLO"))).toEqual([
+      `AUTH PLAIN ${Buffer.from("\0alerts\0secret").toString("base64")}`,
+      "MAIL FROM:<alerts@example.com>",
+      "RCPT TO:<analytics@example.com>",
+      "RCPT TO:<owner@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toContain("Subject: [GA alert] Form leads dropped (Acme Plumbing)");
+    expect(messages[0]).toContain("To: analytics@example.com, owner@example.com");
+    // Dot-stuffed so the line can't end the DATA section
+    expect(messages[0]).toContain("\r\n\r\n..leading dot\r\nsecond line\r\n");
+    expect(messages[0]).toContain("Period: 2026-10-12 – 2026-10-18");
+  });
+
+  it("fails when the server refuses a recipient", async () => {
+    const refusing = net.createServer((socket) => {
+      socket.write("220 localhost\r\n");
+      socket.on("data", (chunk) => {
+        const line = chunk.toString("utf-8");
+        socket.write(line.startsWith("RCPT") ? "550 no such user\r\n" : line.startsWith("EHLO") ? "250 localhost\r\n" : "250 ok\r\n");
+      });
+    });
+    await new Promise<void>((resolve) => refusing.listen(0, "127.0.0.1", resolve));
+
+    const channel = createAlertChannel({
+      id: "account-team",
+      type: "email",
+      to: ["nobody@example.com"],
+      smtp: { host: "127.0.0.1", port: (refusing.address() as AddressInfo).port, startTls: false },
+    });
+    await expect(channel.send(notification)).rejects.toThrow("SMTP RCPT TO failed: 550 no such user");
+    await new Promise<void>((resolve) => refusing.close(() => resolve()));
+  });
+});
@@ -0,0 +1,118 @@
+import type { AlertChannelConfig, AlertChannelType, SmtpSettings } from "./alert-rules";
+import type { DateRange } from "./ga-client";
+import { sendMail } from "./smtp";
+
+// What every channel is told when a rule fires
+export interface AlertNotification {
+  ruleId: string;
+  ruleName: string;
+  property: string;
+  // One-line summary, e.g. "Form leads (Organic Search) were 3 over the last
+  // 7 days, 71% below the 7 days before"
+  message: string;
+  range: DateRange;
+  value: number;
+  // Threshold, previous window or expected value the value was compared with
+  baseline: number | null;
+  // Percent change (change rules) or robust z-score (anomaly rules)
+  change: number | null;
+  score: number | null;
+  triggeredAt: string;
+}
+
+// A delivery target for notifications. Channels are created from the
+// `channels` in the alert config, so tests can point each one at a local
+// stand-in (an HTTP listener, MailHog) by URL or host.
+export interface AlertChannel {
+  id: string;
+  type: AlertChannelType;
+  send(notification: AlertNotification): Promise<void>;
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`${url} responded ${response.status} ${response.statusText}`);
+  }
+}
+
+function createWebhookChannel(id: string, url: string, headers?: Record<string, string>): AlertChannel {
+  return {
+    id,
+    type: "webhook",
+    send: (notification) => postJson(url, notification, headers),
+  };
+}
+
+// Slack incoming-webhook payload; Mattermost, Rocket.Chat and Discord's
+// /slack endpoint accept the same shape
+function createSlackChannel(id: string, url: string): AlertChannel {
+  return {
+    id,
+    type: "slack",
+    send: (notification) =>
+      postJson(url, {
+        text: `:rotating_light: ${notification.message}`,
+        blocks: [
+          {
+            type: "section",
+            text: { type: "mrkdwn", text: `:rotating_light: *${notification.ruleName}* (${notification.property})\n${notification.message}` },
+          },
+          {
+            type: "context",
+            elements: [
+              { type: "mrkdwn", text: `${notification.range.startDate} – ${notification.range.endDate} · rule \`${notification.ruleId}\`` },
+            ],
+          },
+        ],
+      }),
+  };
+}
+
+// SMTP_* settings, with the channel's own smtp block on top
+function smtpSettings(overrides: Partial<SmtpSettings> = {}): SmtpSettings {
+  return {
+    host: process.env.SMTP_HOST || "localhost",
+    port: parseInt(process.env.SMTP_PORT || "587"),
+    secure: process.env.SMTP_SECURE === "true",
+    startTls: process.env.SMTP_STARTTLS !== "false",
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    ...overrides,
+  };
+}
+
+function createEmailChannel(id: string, to: string[], from: string | undefined, smtp?: Partial<SmtpSettings>): AlertChannel {
+  return {
+    id,
+    type: "email",
+    send: (notification) =>
+      sendMail(smtpSettings(smtp), {
+        from: from || process.env.ALERT_EMAIL_FROM || "ga-dashboard@localhost",
+        to,
+        subject: `[GA alert] ${notification.ruleName} (${notification.property})`,
+        text: [
+          notification.message,
+          "",
+          `Period: ${notification.range.startDate} – ${notification.range.endDate}`,
+          `Rule: ${notification.ruleId}`,
+          `Triggered: ${notification.triggeredAt}`,
+        ].join("\n"),
+      }),
+  };
+}
+
+export function createAlertChannel(config: AlertChannelConfig): AlertChannel {
+  switch (config.type) {
+    case "webhook":
+      return createWebhookChannel(config.id, config.url, config.headers);
+    case "slack":
+      return createSlackChannel(config.id, config.url);
+    case "email":
+      return createEmailChannel(config.id, config.to, config.from, config.smtp);
+  }
+}
@@ -0,0 +1,214 @@
+import fs from "fs";
+import path from "path";
+import { getProperties, getProperty } from "./properties";
+import { getChannelCategories } from "./channel-taxonomy";
+import type { SeriesScope } from "./ga-client";
+
+export const ALERT_SCHEDULES = ["hourly", "daily", "weekly"] as const;
+export type AlertSchedule = (typeof ALERT_SCHEDULES)[number];
+
+export const ALERT_CHANNEL_TYPES = ["webhook", "slack", "email"] as const;
+export type AlertChannelType = (typeof ALERT_CHANNEL_TYPES)[number];
+
+// When a rule fires. Values are taken over the rule's window of complete days
+// ending yesterday: summed for counts, averaged for rates.
+export type AlertCondition =
+  // The window's value is above or below a fixed value
+  | { type: "threshold"; operator: "above" | "below"; value: number }
+  // The window changed by at least `percent` against the window before it
+  | { type: "change"; percent: number; direction?: "up" | "down" | "any" }
+  // The window's robust z-score against the same weekday in earlier weeks
+  // (see anomalies.ts) is beyond `score`, default 3
+  | { type: "anomaly"; score?: number; lookbackDays?: number }
+  // Tracking health rules: any check is at least `minStatus`, default failing
+  | { type: "health"; minStatus?: "warning" | "failing" };
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  // Property key; defaults to the first property
+  property?: string;
+  // Exactly one of a metric alias / GA metric name, a lead event name, or
+  // trackingHealth to watch the tracking health checks (see tracking-health.ts)
+  metric?: string;
+  leadEvent?: string;
+  trackingHealth?: boolean;
+  // Whole site when omitted
+  scope?: SeriesScope;
+  // Complete days the value covers; defaults to 1
+  windowDays?: number;
+  condition: AlertCondition;
+  schedule: AlertSchedule;
+  // Hour in the property's timezone daily and weekly rules run at; defaults to 8
+  hour?: number;
+  // Day weekly rules run on, 0 = Sunday; defaults to 1 (Monday)
+  weekday?: number;
+  // Ids of the channels notified when the rule fires
+  channels: string[];
+  enabled?: boolean;
+}
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  secure?: boolean;
+  startTls?: boolean;
+  user?: string;
+  password?: string;
+}
+
+export type AlertChannelConfig =
+  // POSTs the notification as JSON
+  | { id: string; type: "webhook"; url: string; headers?: Record<string, string> }
+  // POSTs a Slack incoming-webhook payload (text and blocks)
+  | { id: string; type: "slack"; url: string }
+  // Sends a plain-text email; smtp overrides the SMTP_* settings
+  | { id: string; type: "email"; to: string[]; from?: string; smtp?: Partial<SmtpSettings> };
+
+export interface AlertConfig {
+  rules: AlertRule[];
+  channels: AlertChannelConfig[];
+}
+
+export const DEFAULT_ALERT_HOUR = 8;
+export const DEFAULT_ALERT_WEEKDAY = 1;
+
+let cachedConfig: AlertConfig | null = null;
+
+function configPath(): string {
+  return path.join(process.cwd(), process.env.ALERT_RULES_CONFIG || "config/alert-rules.json");
+}
+
+function isUrl(value: unknown): boolean {
+  try {
+    return typeof value === "string" && /^https?:$/.test(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function validateCondition(condition: AlertCondition | undefined, where: string) {
+  if (!condition) {
+    throw new Error(`${where} needs a condition`);
+  }
+  switch (condition.type) {
+    case "threshold":
+      if (!["above", "below"].includes(condition.operator) || typeof condition.value !== "number") {
+        throw new Error(`${where}: threshold conditions need an operator (above or below) and a numeric value`);
+      }
+      return;
+    case "change":
+      if (!(condition.percent > 0) || (condition.direction && !["up", "down", "any"].includes(condition.direction))) {
+        throw new Error(`${where}: change conditions need a positive percent and a direction of up, down or any`);
+      }
+      return;
+    case "anomaly":
+      if ((condition.score !== undefined && !(condition.score > 0)) ||
+        (condition.lookbackDays !== undefined && !(condition.lookbackDays >= 28 && condition.lookbackDays <= 364))) {
+        throw new Error(`${where}: anomaly score must be positive and lookbackDays between 28 and 364`);
+      }
+      return;
+    case "health":
+      if (condition.minStatus !== undefined && !["warning", "failing"].includes(condition.minStatus)) {
+        throw new Error(`${where}: minStatus must be warning or failing`);
+      }
+      return;
+    default:
+      throw new Error(`${where}: unknown condition type "${(condition as { type?: string }).type}". Use: threshold, change, anomaly or health`);
+  }
+}
+
+// Check every rule against the properties, taxonomy and channels up front so
+// a typo fails when the file is loaded instead of at 8am
+function validateAlertConfig(config: AlertConfig, source: string) {
+  if (!Array.isArray(config.rules) || !Array.isArray(config.channels)) {
+    throw new Error(`${source} must list rules and channels`);
+  }
+
+  const channelIds = new Set<string>();
+  for (const channel of config.channels) {
+    const where = `${source} channel "${channel.id}"`;
+    if (!channel.id || channelIds.has(channel.id)) {
+      throw new Error(`Missing or duplicate channel id in ${source}: ${JSON.stringify(channel)}`);
+    }
+    channelIds.add(channel.id);
+    if (!ALERT_CHANNEL_TYPES.includes(channel.type)) {
+      throw new Error(`${where}: unknown type "${channel.type}". Use: ${ALERT_CHANNEL_TYPES.join(", ")}`);
+    }
+    if (channel.type !== "email" && !isUrl(channel.url)) {
+      throw new Error(`${where} needs an http(s) url`);
+    }
+    if (channel.type === "email" && (!Array.isArray(channel.to) || channel.to.length === 0)) {
+      throw new Error(`${where} needs at least one "to" address`);
+    }
+  }
+
+  const ruleIds = new Set<string>();
+  const propertyIds = new Set(getProperties().map((property) => property.id));
+  for (const rule of config.rules) {
+    const where = `${source} rule "${rule.id}"`;
+    if (!rule.id || ruleIds.has(rule.id)) {
+      throw new Error(`Missing or duplicate rule id in ${source}: ${JSON.stringify(rule)}`);
+    }
+    ruleIds.add(rule.id);
+    if (rule.property && !propertyIds.has(rule.property)) {
+      throw new Error(`${where} refers to unknown property "${rule.property}"`);
+    }
+    if ([rule.metric, rule.leadEvent, rule.trackingHealth].filter(Boolean).length !== 1) {
+      throw new Error(`${where} needs one of metric, leadEvent or trackingHealth`);
+    }
+    if (Boolean(rule.trackingHealth) !== (rule.condition?.type === "health")) {
+      throw new Error(`${where}: health conditions go with trackingHealth rules, and only there`);
+    }
+    if (rule.trackingHealth && (rule.scope || rule.windowDays !== undefined)) {
+      throw new Error(`${where}: trackingHealth rules check the whole property and take no scope or windowDays`);
+    }
+    if (rule.leadEvent && !getProperty(rule.property).leadEvents.some((event) => event.name === rule.leadEvent)) {
+      throw new Error(`${where} refers to unknown lead event "${rule.leadEvent}"`);
+    }
+    if (rule.scope?.category && !getChannelCategories(rule.property).some((category) => category.id === rule.scope?.category)) {
+      throw new Error(`${where} refers to unknown category "${rule.scope.category}"`);
+    }
+    if (rule.windowDays !== undefined && !(Number.isInteger(rule.windowDays) && rule.windowDays >= 1 && rule.windowDays <= 28)) {
+      throw new Error(`${where}: windowDays must be between 1 and 28`);
+    }
+    validateCondition(rule.condition, where);
+    if (!ALERT_SCHEDULES.includes(rule.schedule)) {
+      throw new Error(`${where}: unknown schedule "${rule.schedule}". Use: ${ALERT_SCHEDULES.join(", ")}`);
+    }
+    if (rule.hour !== undefined && !(Number.isInteger(rule.hour) && rule.hour >= 0 && rule.hour <= 23)) {
+      throw new Error(`${where}: hour must be between 0 and 23`);
+    }
+    if (rule.weekday !== undefined && !(Number.isInteger(rule.weekday) && rule.weekday >= 0 && rule.weekday <= 6)) {
+      throw new Error(`${where}: weekday must be between 0 (Sunday) and 6`);
+    }
+    if (!Array.isArray(rule.channels) || rule.channels.length === 0) {
+      throw new Error(`${where} needs at least one channel`);
+    }
+    for (const channel of rule.channels) {
+      if (!channelIds.has(channel)) {
+        throw new Error(`${where} refers to unknown channel "${channel}"`);
+      }
+    }
+  }
+}
+
+// Rules and channels from ALERT_RULES_CONFIG (config/alert-rules.json by
+// default). Without the file there are no alerts.
+export function getAlertConfig(): AlertConfig {
+  if (!cachedConfig) {
+    const filePath = configPath();
+    if (!fs.existsSync(filePath)) {
+      cachedConfig = { rules: [], channels: [] };
+    } else {
+      const config: AlertConfig = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      validateAlertConfig(config, filePath);
+      cachedConfig = {
+        rules: config.rules.map((rule) => ({ ...rule, name: rule.name || rule.id })),
+        channels: config.channels,
+      };
+    }
+  }
+  return cachedConfig;
+}
@@ -0,0 +1,90 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const sighting = {
+  property: "default",
+  kind: "rule" as const,
+  subject: "form-leads-drop",
+  date: "2026-10-18",
+  message: "Form leads dropped",
+  details: {},
+};
+const NOW = new Date("2026-10-19T15:00:00Z");
+
+// A fresh copy of the module, as the interval runner and route handlers (or
+// two server instances) each have their own
+async function loadStore() {
+  vi.resetModules();
+  return import("./alert-store");
+}
+
+describe("alert store shared between module instances", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "alert-store-"));
+    // The store path is relative to the working directory
+    vi.stubEnv("ALERT_STORE_FILE", path.relative(process.cwd(), path.join(dir, "alerts.json")));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps a state change made elsewhere when an alert is seen again", async () => {
+    const runner = await loadStore();
+    const routes = await loadStore();
+
+    const [{ alert, isNew }] = runner.recordAlerts([sighting], NOW);
+    expect(isNew).toBe(true);
+
+    routes.updateAlertState(alert.id, { status: "acknowledged", note: "Form was down for a deploy" }, NOW);
+
+    const [again] = runner.recordAlerts([{ ...sighting, message: "Form leads still low" }], new Date("2026-10-19T16:00:00Z"));
+    expect(again.isNew).toBe(false);
+    expect(again.alert.status).toBe("acknowledged");
+    expect(again.alert.message).toBe("Form leads still low");
+
+    const stored = routes.getAlert(alert.id, NOW)!;
+    expect(stored.status).toBe("acknowledged");
+    expect(stored.note).toBe("Form was down for a deploy");
+    expect(stored.history.map((change) => change.status)).toEqual(["open", "acknowledged"]);
+  });
+
+  it("keeps alerts recorded elsewhere when changing another one", async () => {
+    const runner = await loadStore();
+    const routes = await loadStore();
+
+    const [first] = runner.recordAlerts([sighting], NOW);
+    routes.listAlerts({}, NOW);
+    runner.recordAlerts([{ ...sighting, date: "2026-10-19" }], NOW);
+    routes.updateAlertState(first.alert.id, { status: "resolved" }, NOW);
+
+    expect(runner.listAlerts({}, NOW).map((alert) => [alert.date, alert.status])).toEqual([
+      ["2026-10-19", "open"],
+      ["2026-10-18", "resolved"],
+    ]);
+  });
+
+  it("wakes snoozed alerts once the snooze date arrives", async () => {
+    const store = await loadStore();
+    const [{ alert }] = store.recordAlerts([sighting], NOW);
+    store.updateAlertState(alert.id, { status: "snoozed", snoozedUntil: "2026-10-26" }, NOW);
+
+    expect(store.getAlert(alert.id, new Date("2026-10-25T12:00:00Z"))!.status).toBe("snoozed");
+    expect(store.getAlert(alert.id, new Date("2026-10-26T00:00:00Z"))!.status).toBe("open");
+  });
+
+  it("rejects snooze dates that aren't on the calendar", async () => {
+    const store = await loadStore();
+    const [{ alert }] = store.recordAlerts([sighting], NOW);
+
+    for (const snoozedUntil of ["2027-02-31", "2026-13-45", "2026-11-1", "next week"]) {
+      expect(() => store.updateAlertState(alert.id, { status: "snoozed", snoozedUntil }, NOW)).toThrow(store.AlertStateError);
+    }
+    expect(store.getAlert(alert.id, NOW)).toMatchObject({ status: "open", snoozedUntil: null });
+  });
+});
@@ -0,0 +1,210 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { getProperties } from "./properties";
+import { dateInTimeZone, isCalendarDate } from "./dates";
+
+export const ALERT_STATUSES = ["open", "acknowledged", "snoozed", "resolved"] as const;
+export type AlertStatus = (typeof ALERT_STATUSES)[number];
+
+export function isAlertStatus(value: unknown): value is AlertStatus {
+  return typeof value === "string" && (ALERT_STATUSES as readonly string[]).includes(value);
+}
+
+// Thrown for state changes that don't make sense (unknown status, snooze
+// without a future date); the API turns it into a 400
+export class AlertStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AlertStateError";
+  }
+}
+
+export interface AlertStateChange {
+  at: string;
+  status: AlertStatus;
+  snoozedUntil?: string;
+  note?: string;
+}
+
+export interface StoredAlert {
+  id: string;
+  // Property key from config/properties.json
+  property: string;
+  // A dashboard anomaly or an alert rule that fired
+  kind: "anomaly" | "rule";
+  // Metric for anomalies, rule id for rules
+  subject: string;
+  // Day of the anomaly, or the last day of the rule's window
+  date: string;
+  message: string;
+  // The anomaly point or rule evaluation as last seen
+  details: Record<string, unknown>;
+  status: AlertStatus;
+  // Snoozed alerts reopen on this date (property timezone)
+  snoozedUntil: string | null;
+  note: string | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  // Every state change, oldest first
+  history: AlertStateChange[];
+}
+
+// One detection of an alert; the same kind, property, subject and date is the
+// same alert however often it's detected
+export type AlertSighting = Pick<StoredAlert, "property" | "kind" | "subject" | "date" | "message" | "details">;
+
+const STORE_FILE = process.env.ALERT_STORE_FILE || "data/alerts.json";
+// Alerts not seen for this long are dropped from the store
+const RETENTION_DAYS = parseInt(process.env.ALERT_RETENTION_DAYS || "365");
+
+function storePath(): string {
+  return path.join(process.cwd(), STORE_FILE);
+}
+
+// Read fresh for every call rather than cached: the interval runner, the
+// route handlers and other server instances each change the file, and every
+// change has to start from what the others last wrote
+function load(): Map<string, StoredAlert> {
+  const filePath = storePath();
+  const stored: StoredAlert[] = fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, "utf-8")).alerts || [] : [];
+  return new Map(stored.map((alert) => [alert.id, alert]));
+}
+
+// Write to a temp file and rename so a crash mid-write can't leave half a file
+function save(store: Map<string, StoredAlert>, now: Date) {
+  const cutoff = now.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  for (const [id, alert] of store) {
+    if (new Date(alert.lastSeenAt).getTime() < cutoff) store.delete(id);
+  }
+
+  const filePath = storePath();
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(tmpPath, JSON.stringify({ alerts: Array.from(store.values()) }, null, 2) + "\n");
+  fs.renameSync(tmpPath, filePath);
+}
+
+export function alertId(sighting: Pick<AlertSighting, "property" | "kind" | "subject" | "date">): string {
+  return crypto
+    .createHash("sha1")
+    .update([sighting.kind, sighting.property, sighting.subject, sighting.date].join("|"))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+// Alerts of properties since removed from the config fall back to UTC
+function today(alert: StoredAlert, now: Date): string {
+  return dateInTimeZone(now, getProperties().find((p) => p.id === alert.property)?.timezone || "UTC");
+}
+
+// Reopen alerts whose snooze has run out; returns whether anything changed
+function wakeSnoozed(store: Map<string, StoredAlert>, now: Date): boolean {
+  let changed = false;
+  for (const alert of store.values()) {
+    if (alert.status === "snoozed" && alert.snoozedUntil && alert.snoozedUntil <= today(alert, now)) {
+      alert.status = "open";
+      alert.snoozedUntil = null;
+      alert.history.push({ at: now.toISOString(), status: "open", note: "Snooze ended" });
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+// Store what was detected. New alerts start open; known ones keep their
+// state and only get the latest details. isNew tells callers whether to
+// notify anyone.
+export function recordAlerts(sightings: AlertSighting[], now: Date = new Date()): Array<{ alert: StoredAlert; isNew: boolean }> {
+  const store = load();
+  wakeSnoozed(store, now);
+
+  const recorded = sightings.map((sighting) => {
+    const id = alertId(sighting);
+    const existing = store.get(id);
+    if (existing) {
+      existing.message = sighting.message;
+      existing.details = sighting.details;
+      existing.lastSeenAt = now.toISOString();
+      return { alert: existing, isNew: false };
+    }
+
+    const alert: StoredAlert = {
+      id,
+      ...sighting,
+      status: "open",
+      snoozedUntil: null,
+      note: null,
+      firstSeenAt: now.toISOString(),
+      lastSeenAt: now.toISOString(),
+      history: [{ at: now.toISOString(), status: "open" }],
+    };
+    store.set(id, alert);
+    return { alert, isNew: true };
+  });
+
+  if (sightings.length > 0) save(store, now);
+  return recorded;
+}
+
+// Newest first
+export function listAlerts(
+  { property, status, kind }: { property?: string; status?: AlertStatus; kind?: StoredAlert["kind"] } = {},
+  now: Date = new Date()
+): StoredAlert[] {
+  const store = load();
+  if (wakeSnoozed(store, now)) save(store, now);
+  return Array.from(store.values())
+    .filter((alert) => (!property || alert.property === property) && (!status || alert.status === status) && (!kind || alert.kind === kind))
+    .sort((a, b) => b.date.localeCompare(a.date) || b.lastSeenAt.localeCompare(a.lastSeenAt));
+}
+
+export function getAlert(id: string, now: Date = new Date()): StoredAlert | null {
+  const store = load();
+  if (wakeSnoozed(store, now)) save(store, now);
+  return store.get(id) ?? null;
+}
+
+// Move an alert to a new state. Snoozing needs a date after today; a note
+// replaces the alert's note and is kept in its history. Returns null for
+// unknown ids.
+export function updateAlertState(
+  id: string,
+  { status, note, snoozedUntil }: { status: AlertStatus; note?: string; snoozedUntil?: string },
+  now: Date = new Date()
+): StoredAlert | null {
+  const store = load();
+  wakeSnoozed(store, now);
+  const alert = store.get(id);
+  if (!alert) return null;
+
+  if (!isAlertStatus(status)) {
+    throw new AlertStateError(`Unknown status "${status}". Use: ${ALERT_STATUSES.join(", ")}`);
+  }
+  if (note !== undefined && (typeof note !== "string" || note.length > 1000)) {
+    throw new AlertStateError("note must be text of at most 1000 characters");
+  }
+  if (status === "snoozed") {
+    if (typeof snoozedUntil !== "string" || !isCalendarDate(snoozedUntil)) {
+      throw new AlertStateError("Snoozing needs snoozedUntil as a calendar date (YYYY-MM-DD)");
+    }
+    if (snoozedUntil <= today(alert, now)) {
+      throw new AlertStateError("snoozedUntil must be after today");
+    }
+  }
+
+  alert.status = status;
+  alert.snoozedUntil = status === "snoozed" ? snoozedUntil! : null;
+  if (note !== undefined) {
+    alert.note = note.trim() || null;
+  }
+  alert.history.push({
+    at: now.toISOString(),
+    status,
+    ...(status === "snoozed" ? { snoozedUntil } : {}),
+    ...(note?.trim() ? { note: note.trim() } : {}),
+  });
+
+  save(store, now);
+  return alert;
+}
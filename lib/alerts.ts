@@ -0,0 +1,301 @@
+import { getAlertConfig, DEFAULT_ALERT_HOUR, DEFAULT_ALERT_WEEKDAY, type AlertRule } from "./alert-rules";
+import { createAlertChannel, type AlertNotification } from "./alert-channels";
+import { getDailySeries, type DateRange, type DetectedAnomaly } from "./ga-client";
+import { recordAlerts, type AlertStatus } from "./alert-store";
+import { getTrackingHealth, isAtLeast, type HealthStatus } from "./tracking-health";
+import { getProperty } from "./properties";
+import { getChannelCategories } from "./channel-taxonomy";
+import { DEFAULT_ANOMALY_THRESHOLD, DEFAULT_LOOKBACK_DAYS, rollingSums, scoreDays, type DailyValue } from "./anomalies";
+import { addDays, dateInTimeZone, dayOfWeek, hourInTimeZone } from "./dates";
+import type { DataQuality } from "./data-quality";
+
+export interface AlertEvaluation extends Omit<AlertNotification, "triggeredAt"> {
+  triggered: boolean;
+  quality: DataQuality;
+}
+
+export interface AlertRunResult {
+  ruleId: string;
+  ranAt: string;
+  evaluation: AlertEvaluation | null;
+  // Stored alert when the rule fired (see alert-store.ts); channels are only
+  // notified the first time an alert is recorded
+  alertId: string | null;
+  // Channels that accepted the notification
+  notified: string[];
+  errors: string[];
+}
+
+export interface AlertRuleStatus {
+  rule: AlertRule;
+  lastRun: AlertRunResult | null;
+  due: boolean;
+}
+
+// Last run of each rule and the schedule slot it covered. Kept in memory, so
+// a restart runs every rule once more at the next check.
+const ruleState = new Map<string, { slot: string; result: AlertRunResult }>();
+
+// Latest scheduled slot at or before `now` in the property's timezone:
+// "2026-10-19T14" for hourly rules, the date of the last run day otherwise.
+// A rule is due when its latest slot hasn't run yet.
+export function currentSlot(rule: AlertRule, now: Date = new Date()): string {
+  const { timezone } = getProperty(rule.property);
+  const today = dateInTimeZone(now, timezone);
+  const hour = hourInTimeZone(now, timezone);
+  const runHour = rule.hour ?? DEFAULT_ALERT_HOUR;
+
+  switch (rule.schedule) {
+    case "hourly":
+      return `${today}T${String(hour).padStart(2, "0")}`;
+    case "daily":
+      return hour >= runHour ? today : addDays(today, -1);
+    case "weekly": {
+      const daysSince = (dayOfWeek(today) - (rule.weekday ?? DEFAULT_ALERT_WEEKDAY) + 7) % 7;
+      return daysSince === 0 && hour < runHour ? addDays(today, -7) : addDays(today, -daysSince);
+    }
+  }
+}
+
+function isDue(rule: AlertRule, now: Date): boolean {
+  return rule.enabled !== false && ruleState.get(rule.id)?.slot !== currentSlot(rule, now);
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function describeTarget(rule: AlertRule): string {
+  const { leadEvents } = getProperty(rule.property);
+  const target = rule.leadEvent
+    ? leadEvents.find((event) => event.name === rule.leadEvent)?.label || rule.leadEvent
+    : rule.metric!;
+  const category = getChannelCategories(rule.property).find((c) => c.id === rule.scope?.category)?.name;
+  const scope = [category, rule.scope?.source].filter(Boolean).join(" / ");
+  return scope ? `${target} (${scope})` : target;
+}
+
+// Counts add up over the window; rates are averaged
+function windowValue(values: DailyValue[], range: DateRange, counts: boolean): number {
+  const days = values.filter((day) => day.date >= range.startDate && day.date <= range.endDate);
+  const sum = days.reduce((total, day) => total + day.value, 0);
+  return counts || days.length === 0 ? sum : sum / days.length;
+}
+
+// Tracking health rules fire when any check is at least minStatus; the value
+// is how many are
+async function evaluateHealthRule(rule: AlertRule, minStatus: HealthStatus, now: Date): Promise<AlertEvaluation> {
+  const { data: health, quality } = await getTrackingHealth({ property: rule.property }, now);
+  const problems = [
+    ...health.events.flatMap((event) =>
+      event.checks.filter((check) => isAtLeast(check.status, minStatus)).map((check) => `${event.label}: ${check.message}`)
+    ),
+    ...(isAtLeast(health.searchConsole.status, minStatus) ? [`Search Console: ${health.searchConsole.message}`] : []),
+  ];
+
+  return {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    property: getProperty(rule.property).name,
+    message: problems.length > 0 ? `Tracking health: ${problems.join("; ")}` : "Tracking health: every check passed",
+    range: health.range,
+    value: problems.length,
+    baseline: null,
+    change: null,
+    score: null,
+    triggered: problems.length > 0,
+    quality,
+  };
+}
+
+// Check one rule against the window of complete days ending yesterday
+export async function evaluateAlertRule(rule: AlertRule, now: Date = new Date()): Promise<AlertEvaluation> {
+  const { condition } = rule;
+  if (condition.type === "health") {
+    return evaluateHealthRule(rule, condition.minStatus ?? "failing", now);
+  }
+
+  const property = getProperty(rule.property);
+  const windowDays = rule.windowDays ?? 1;
+  const endDate = addDays(dateInTimeZone(now, property.timezone), -1);
+  const range: DateRange = { startDate: addDays(endDate, -(windowDays - 1)), endDate };
+
+  const historyDays =
+    condition.type === "anomaly" ? condition.lookbackDays ?? DEFAULT_LOOKBACK_DAYS :
+    condition.type === "change" ? windowDays : 0;
+  const { data: series, quality } = await getDailySeries(
+    { metric: rule.metric, leadEvent: rule.leadEvent },
+    rule.scope || {},
+    { startDate: addDays(range.startDate, -historyDays), endDate },
+    { property: rule.property }
+  );
+
+  const value = windowValue(series.values, range, series.counts);
+  const period = windowDays === 1 ? `on ${endDate}` : `over the ${windowDays} days to ${endDate}`;
+  const target = describeTarget(rule);
+  let triggered = false;
+  let baseline: number | null = null;
+  let change: number | null = null;
+  let score: number | null = null;
+  let message: string;
+
+  switch (condition.type) {
+    case "threshold": {
+      baseline = condition.value;
+      triggered = condition.operator === "above" ? value > condition.value : value < condition.value;
+      message = `${target} was ${formatNumber(value)} ${period} (alert ${condition.operator} ${formatNumber(condition.value)})`;
+      break;
+    }
+    case "change": {
+      const previous: DateRange = { startDate: addDays(range.startDate, -windowDays), endDate: addDays(range.startDate, -1) };
+      baseline = windowValue(series.values, previous, series.counts);
+      change = baseline !== 0 ? ((value - baseline) / Math.abs(baseline)) * 100 : null;
+      const direction = condition.direction || "any";
+      triggered =
+        change !== null &&
+        Math.abs(change) >= condition.percent &&
+        (direction === "any" || (direction === "up" ? change > 0 : change < 0));
+      message = change === null
+        ? `${target} was ${formatNumber(value)} ${period}; the period before had none to compare with`
+        : `${target} was ${formatNumber(value)} ${period}, ${Math.abs(Math.round(change))}% ${change >= 0 ? "above" : "below"} the ${windowDays === 1 ? "day" : `${windowDays} days`} before (${formatNumber(baseline)})`;
+      break;
+    }
+    case "anomaly": {
+      const threshold = condition.score ?? DEFAULT_ANOMALY_THRESHOLD;
+      const byDate = new Map(series.values.map((day) => [day.date, day.value]));
+      const windows = rollingSums(byDate, series.values[0]?.date || range.startDate, endDate, windowDays)
+        .map((day) => (series.counts ? day : { ...day, value: day.value / windowDays }));
+      const [point] = scoreDays(windows, [endDate], {
+        lookbackDays: condition.lookbackDays ?? DEFAULT_LOOKBACK_DAYS,
+        threshold,
+        counts: series.counts,
+      });
+      if (!point) {
+        message = `${target} was ${formatNumber(value)} ${period}; not enough history to judge it`;
+        break;
+      }
+      baseline = point.expected;
+      score = point.score;
+      triggered = point.isAnomaly;
+      message = `${target} was ${formatNumber(value)} ${period}, expected ${formatNumber(Math.round(point.lower))}–${formatNumber(Math.round(point.upper))} (score ${point.score.toFixed(1)})`;
+      break;
+    }
+  }
+
+  return {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    property: property.name,
+    message,
+    range,
+    value,
+    baseline,
+    change,
+    score,
+    triggered,
+    quality,
+  };
+}
+
+// Evaluate every due rule (or the given ones, due or not, with force) and
+// notify the rule's channels when it fires for a window it hasn't fired for
+// before. A rule whose evaluation fails stays due so the next check retries
+// it; failed deliveries are reported but not retried.
+export async function runAlertRules({
+  now = new Date(),
+  force = false,
+  ruleIds,
+}: { now?: Date; force?: boolean; ruleIds?: string[] } = {}): Promise<AlertRunResult[]> {
+  const { rules, channels } = getAlertConfig();
+  const selected = rules
+    .filter((rule) => !ruleIds || ruleIds.includes(rule.id))
+    .filter((rule) => force || isDue(rule, now));
+
+  const results: AlertRunResult[] = [];
+  for (const rule of selected) {
+    const result: AlertRunResult = {
+      ruleId: rule.id,
+      ranAt: now.toISOString(),
+      evaluation: null,
+      alertId: null,
+      notified: [],
+      errors: [],
+    };
+
+    try {
+      result.evaluation = await evaluateAlertRule(rule, now);
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : String(error));
+      results.push(result);
+      continue;
+    }
+
+    if (result.evaluation.triggered) {
+      const { triggered, quality, ...details } = result.evaluation;
+      const [{ alert, isNew }] = recordAlerts([{
+        property: getProperty(rule.property).id,
+        kind: "rule",
+        subject: rule.id,
+        date: details.range.endDate,
+        message: details.message,
+        details: { ...details },
+      }], now);
+      result.alertId = alert.id;
+
+      // Hourly rules see the same window all day; only its first sighting is sent
+      if (isNew) {
+        const notification: AlertNotification = { ...details, triggeredAt: now.toISOString() };
+        const targets = channels.filter((channel) => rule.channels.includes(channel.id)).map(createAlertChannel);
+        const deliveries = await Promise.allSettled(targets.map((channel) => channel.send(notification)));
+        deliveries.forEach((delivery, i) => {
+          if (delivery.status === "fulfilled") {
+            result.notified.push(targets[i].id);
+          } else {
+            result.errors.push(`${targets[i].id}: ${delivery.reason instanceof Error ? delivery.reason.message : delivery.reason}`);
+          }
+        });
+      }
+    }
+
+    ruleState.set(rule.id, { slot: currentSlot(rule, now), result });
+    results.push(result);
+  }
+
+  return results;
+}
+
+export function getAlertRuleStatuses(now: Date = new Date()): AlertRuleStatus[] {
+  return getAlertConfig().rules.map((rule) => ({
+    rule,
+    lastRun: ruleState.get(rule.id)?.result ?? null,
+    due: isDue(rule, now),
+  }));
+}
+
+export interface TrackedAnomaly extends DetectedAnomaly {
+  alertId: string;
+  status: AlertStatus;
+  note: string | null;
+  snoozedUntil: string | null;
+}
+
+// Store the dashboard's anomalies as alerts and attach each one's state, so
+// an acknowledged spike stays acknowledged while it's in the 28-day window
+export function trackAnomalies(metric: string, anomalies: DetectedAnomaly[], property?: string): TrackedAnomaly[] {
+  const recorded = recordAlerts(anomalies.map((anomaly) => ({
+    property: getProperty(property).id,
+    kind: "anomaly",
+    subject: metric,
+    date: anomaly.date,
+    message: `Unusual ${anomaly.score > 0 ? "spike" : "drop"} in ${metric}: expected ${formatNumber(Math.round(anomaly.lower))}–${formatNumber(Math.round(anomaly.upper))}, got ${formatNumber(anomaly.value)}`,
+    details: { ...anomaly },
+  })));
+
+  return anomalies.map((anomaly, i) => ({
+    ...anomaly,
+    alertId: recorded[i].alert.id,
+    status: recorded[i].alert.status,
+    note: recorded[i].alert.note,
+    snoozedUntil: recorded[i].alert.snoozedUntil,
+  }));
+}
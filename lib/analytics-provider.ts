@@ -0,0 +1,57 @@
+import type { protos } from "@google-analytics/data";
+import { createGA4Provider } from "./providers/ga4-provider";
+import { createFixtureProvider } from "./providers/fixture-provider";
+import { withReportCache } from "./report-cache";
+import { withQuotaTracking } from "./quota";
+import { withRetries } from "./retry";
+
+export type ReportRequest = protos.google.analytics.data.v1beta.IRunReportRequest;
+export type ReportResponse = protos.google.analytics.data.v1beta.IRunReportResponse;
+export type PropertyMetadata = protos.google.analytics.data.v1beta.IMetadata;
+export type CompatibilityRequest = protos.google.analytics.data.v1beta.ICheckCompatibilityRequest;
+export type CompatibilityResponse = protos.google.analytics.data.v1beta.ICheckCompatibilityResponse;
+
+// Everything ga-client needs from a data backend. Implementations take and
+// return the GA4 Data API request/response shapes so report code stays the
+// same regardless of where the rows come from.
+export interface AnalyticsProvider {
+  name: string;
+  runReport(request: ReportRequest): Promise<ReportResponse>;
+  // Up to 5 requests for the same property in one round-trip; responses come
+  // back in request order
+  batchRunReports(requests: ReportRequest[]): Promise<ReportResponse[]>;
+  // Dimensions and metrics the property offers, custom definitions included
+  getMetadata(property: string): Promise<PropertyMetadata>;
+  // Which requested dimensions and metrics can't be used together
+  checkCompatibility(request: CompatibilityRequest): Promise<CompatibilityResponse>;
+}
+
+let provider: AnalyticsProvider | null = null;
+
+// Select the backend from ANALYTICS_PROVIDER ("ga4" by default, or "fixture"
+// for offline development against ANALYTICS_FIXTURE_FILE)
+export function getAnalyticsProvider(): AnalyticsProvider {
+  if (!provider) {
+    const kind = (process.env.ANALYTICS_PROVIDER || "ga4").toLowerCase();
+
+    let backend: AnalyticsProvider;
+    switch (kind) {
+      case "ga4":
+        backend = createGA4Provider();
+        break;
+      case "fixture":
+        backend = createFixtureProvider(
+          process.env.ANALYTICS_FIXTURE_FILE || "fixtures/demo-property.json"
+        );
+        break;
+      default:
+        throw new Error(`Unknown ANALYTICS_PROVIDER "${kind}". Use: ga4 or fixture`);
+    }
+
+    // Cache hits never reach GA, so quota is only tracked for real calls;
+    // every retry attempt is a real call and is tracked too
+    provider = withReportCache(withRetries(withQuotaTracking(backend)));
+  }
+
+  return provider;
+}
@@ -0,0 +1,129 @@
+import { addDays } from "./dates";
+
+// Each day is compared with the same weekday over the lookback window before
+// it: the median of those days is the expected value and their median
+// absolute deviation (scaled to match a standard deviation) the spread. Both
+// ignore outliers, so one bad Monday doesn't hide the next, and weekends are
+// only compared with weekends.
+export const DEFAULT_LOOKBACK_DAYS = 56;
+export const MIN_LOOKBACK_DAYS = 28;
+export const MAX_LOOKBACK_DAYS = 364;
+export const DEFAULT_ANOMALY_THRESHOLD = 3;
+
+// MAD × 1.4826 estimates the standard deviation of normal data
+const MAD_SCALE = 1.4826;
+// Spread never drops below this share of the expected value, so a run of
+// identical days doesn't turn the next small change into an anomaly
+const MIN_RELATIVE_SPREAD = 0.05;
+// Same-weekday days needed before a day is judged at all
+const MIN_BASELINE_DAYS = 3;
+
+export interface DailyValue {
+  date: string;
+  value: number;
+}
+
+export interface AnomalyPoint extends DailyValue {
+  // Median of the same weekday over the lookback window
+  expected: number;
+  // expected ± threshold × spread
+  lower: number;
+  upper: number;
+  // Robust z-score: (value - expected) / spread
+  score: number;
+  isAnomaly: boolean;
+}
+
+export interface AnomalyDetectionOptions {
+  lookbackDays?: number;
+  threshold?: number;
+  // Count metrics (sessions, events) also get a Poisson floor on the spread,
+  // so days with a handful of events don't look wildly volatile
+  counts?: boolean;
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Median absolute deviation from the median
+export function mad(values: number[]): number {
+  const center = median(values);
+  return median(values.map((value) => Math.abs(value - center)));
+}
+
+// Score every day of `evaluate` against the same weekday in `history` (any
+// daily values, including the evaluated ones; missing days count as 0). Days
+// without enough history are left out.
+export function scoreDays(
+  history: DailyValue[],
+  evaluate: string[],
+  { lookbackDays = DEFAULT_LOOKBACK_DAYS, threshold = DEFAULT_ANOMALY_THRESHOLD, counts = true }: AnomalyDetectionOptions = {}
+): AnomalyPoint[] {
+  const values = new Map(history.map((day) => [day.date, day.value]));
+  const firstDate = history.reduce((first, day) => (day.date < first ? day.date : first), evaluate[0] || "");
+  const points: AnomalyPoint[] = [];
+
+  for (const date of evaluate) {
+    const baseline: number[] = [];
+    for (let back = 7; back <= lookbackDays; back += 7) {
+      const previous = addDays(date, -back);
+      if (previous < firstDate) break;
+      baseline.push(values.get(previous) ?? 0);
+    }
+    if (baseline.length < MIN_BASELINE_DAYS) continue;
+
+    const value = values.get(date) ?? 0;
+    const expected = median(baseline);
+    const spread = Math.max(
+      MAD_SCALE * mad(baseline),
+      Math.abs(expected) * MIN_RELATIVE_SPREAD,
+      counts ? Math.sqrt(Math.max(expected, 1)) : 0,
+      Number.EPSILON
+    );
+    const score = (value - expected) / spread;
+
+    points.push({
+      date,
+      value,
+      expected,
+      lower: counts ? Math.max(0, expected - threshold * spread) : expected - threshold * spread,
+      upper: expected + threshold * spread,
+      score,
+      isAnomaly: Math.abs(score) > threshold,
+    });
+  }
+
+  return points;
+}
+
+// Sum of the `windowDays` days ending on each date from startDate to endDate
+// (missing days count as 0). Dates without a full window of data before them
+// are left out. Sparse series such as daily phone calls are easier to judge a
+// week at a time.
+export function rollingSums(
+  values: Map<string, number>,
+  startDate: string,
+  endDate: string,
+  windowDays: number
+): DailyValue[] {
+  const sums: DailyValue[] = [];
+  let sum = 0;
+  let count = 0;
+
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    sum += values.get(date) ?? 0;
+    count++;
+    if (count > windowDays) {
+      sum -= values.get(addDays(date, -windowDays)) ?? 0;
+    }
+    if (count >= windowDays) {
+      sums.push({ date, value: sum });
+    }
+  }
+
+  return sums;
+}
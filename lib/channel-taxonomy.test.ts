@@ -0,0 +1,61 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const DEFAULT_TAXONOMY = path.join(process.cwd(), "config/channel-taxonomy.json");
+
+// OVERRIDES_DIR is read when the module loads
+async function loadTaxonomy() {
+  vi.resetModules();
+  return import("./channel-taxonomy");
+}
+
+describe("addSourceRule", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "taxonomy-overrides-"));
+    // Paths are relative to the working directory
+    vi.stubEnv("CHANNEL_TAXONOMY_OVERRIDES_DIR", path.relative(process.cwd(), dir));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("writes to the property's override file and leaves the taxonomy file alone", async () => {
+    const before = fs.readFileSync(DEFAULT_TAXONOMY, "utf-8");
+    const taxonomy = await loadTaxonomy();
+    expect(taxonomy.classifySource("newsletter", "email").category).toBe("other");
+
+    const rule = taxonomy.addSourceRule({ source: "newsletter", medium: "email", category: "referral", displayName: "Newsletter" });
+
+    expect(fs.readFileSync(DEFAULT_TAXONOMY, "utf-8")).toBe(before);
+    expect(JSON.parse(fs.readFileSync(path.join(dir, "default.json"), "utf-8"))).toEqual({ rules: [rule] });
+    expect(taxonomy.classifySource("newsletter", "email")).toEqual({ category: "referral", displayName: "Newsletter" });
+  });
+
+  it("merges the overrides over the taxonomy when loaded again", async () => {
+    const first = await loadTaxonomy();
+    first.addSourceRule({ source: "qr-flyer", medium: "print", category: "direct" });
+    first.addSourceRule({ source: "qr-flyer", medium: "print", category: "referral" });
+
+    const second = await loadTaxonomy();
+    const { rules } = second.getChannelTaxonomy();
+    expect(rules.slice(0, 2).map((rule) => rule.id)).toEqual(["assigned-qr-flyer-print-2", "assigned-qr-flyer-print"]);
+    // The latest assignment wins
+    expect(second.classifySource("qr-flyer", "print").category).toBe("referral");
+    // Taxonomy rules still apply after the overrides
+    expect(second.classifySource("google", "cpc").category).toBe("paidSearch");
+  });
+
+  it("rejects an assignment to an unknown category without writing it", async () => {
+    const taxonomy = await loadTaxonomy();
+    expect(() => taxonomy.addSourceRule({ source: "newsletter", medium: "email", category: "nope" })).toThrow(
+      'targets unknown category "nope"'
+    );
+    expect(fs.existsSync(path.join(dir, "default.json"))).toBe(false);
+  });
+});
@@ -0,0 +1,326 @@
+import fs from "fs";
+import path from "path";
+import { getProperty } from "./properties";
+
+// Bump when the file format changes incompatibly
+export const TAXONOMY_VERSION = 1;
+
+export interface ChannelCategory {
+  id: string;
+  name: string;
+  icon: string;
+  // Tailwind classes for the category header
+  color: string;
+  // Start the weekly table collapsed
+  collapsed?: boolean;
+}
+
+// Rules are tried in order; the first whose source and medium patterns both
+// match decides the category. Patterns are case-insensitive regexes tested
+// against the raw GA value.
+export interface TaxonomyRule {
+  id: string;
+  source?: string;
+  medium?: string;
+  category: string;
+  // Overrides the displayNames lookup for sources this rule catches
+  displayName?: string;
+}
+
+export interface DisplayNameRule {
+  // Tested against the source after sourcePrefixes are stripped
+  source: string;
+  displayName: string;
+  // Only apply within these categories; all categories when omitted
+  categories?: string[];
+}
+
+export interface ChannelTaxonomy {
+  version: number;
+  categories: ChannelCategory[];
+  fallbackCategory: string;
+  sourcePrefixes: string[];
+  rules: TaxonomyRule[];
+  displayNames: DisplayNameRule[];
+}
+
+interface CompiledTaxonomy {
+  taxonomy: ChannelTaxonomy;
+  rules: Array<{ rule: TaxonomyRule; source: RegExp | null; medium: RegExp | null }>;
+  displayNames: Array<{ rule: DisplayNameRule; source: RegExp }>;
+}
+
+const DEFAULT_TAXONOMY_FILE = "config/channel-taxonomy.json";
+// Manual classifications from the review page, one file per property, kept
+// out of git so deploys don't overwrite them (see addSourceRule)
+const OVERRIDES_DIR = process.env.CHANNEL_TAXONOMY_OVERRIDES_DIR || "config/taxonomy-overrides";
+
+interface TaxonomyOverrides {
+  rules: TaxonomyRule[];
+}
+
+const taxonomyCache = new Map<string, CompiledTaxonomy>();
+
+function compilePattern(pattern: string, where: string): RegExp {
+  try {
+    return new RegExp(pattern, "i");
+  } catch (error) {
+    throw new Error(`Invalid regex ${JSON.stringify(pattern)} in ${where}: ${(error as Error).message}`);
+  }
+}
+
+// Check the file shape and compile every pattern up front so a bad rule
+// fails at load time instead of silently misclassifying traffic
+function compileTaxonomy(taxonomy: ChannelTaxonomy, source: string): CompiledTaxonomy {
+  if (taxonomy.version !== TAXONOMY_VERSION) {
+    throw new Error(`${source} has version ${taxonomy.version}; expected ${TAXONOMY_VERSION}`);
+  }
+  if (!Array.isArray(taxonomy.categories) || taxonomy.categories.length === 0) {
+    throw new Error(`${source} must list at least one category`);
+  }
+
+  const categoryIds = new Set<string>();
+  for (const category of taxonomy.categories) {
+    if (!category.id || !category.name) {
+      throw new Error(`Invalid category in ${source}: ${JSON.stringify(category)}`);
+    }
+    if (categoryIds.has(category.id)) {
+      throw new Error(`Duplicate category "${category.id}" in ${source}`);
+    }
+    categoryIds.add(category.id);
+  }
+  if (!categoryIds.has(taxonomy.fallbackCategory)) {
+    throw new Error(`${source}: fallbackCategory "${taxonomy.fallbackCategory}" is not a listed category`);
+  }
+
+  const ruleIds = new Set<string>();
+  const rules = (taxonomy.rules || []).map((rule) => {
+    const where = `${source} rule "${rule.id}"`;
+    if (!rule.id) {
+      throw new Error(`Rule without an id in ${source}: ${JSON.stringify(rule)}`);
+    }
+    if (ruleIds.has(rule.id)) {
+      throw new Error(`Duplicate rule id "${rule.id}" in ${source}`);
+    }
+    ruleIds.add(rule.id);
+    if (!rule.source && !rule.medium) {
+      throw new Error(`${where} needs a source or medium pattern`);
+    }
+    if (!categoryIds.has(rule.category)) {
+      throw new Error(`${where} targets unknown category "${rule.category}"`);
+    }
+    return {
+      rule,
+      source: rule.source ? compilePattern(rule.source, where) : null,
+      medium: rule.medium ? compilePattern(rule.medium, where) : null,
+    };
+  });
+
+  const displayNames = (taxonomy.displayNames || []).map((rule) => {
+    const where = `${source} display name "${rule.displayName}"`;
+    if (!rule.source || !rule.displayName) {
+      throw new Error(`Invalid display name entry in ${source}: ${JSON.stringify(rule)}`);
+    }
+    for (const category of rule.categories || []) {
+      if (!categoryIds.has(category)) {
+        throw new Error(`${where} refers to unknown category "${category}"`);
+      }
+    }
+    return { rule, source: compilePattern(rule.source, where) };
+  });
+
+  return {
+    taxonomy: { ...taxonomy, sourcePrefixes: taxonomy.sourcePrefixes || [] },
+    rules,
+    displayNames,
+  };
+}
+
+export function validateChannelTaxonomy(taxonomy: ChannelTaxonomy, source: string = "taxonomy") {
+  compileTaxonomy(taxonomy, source);
+}
+
+function taxonomyPath(propertyKey?: string | null): string {
+  const file = getProperty(propertyKey).taxonomy || process.env.CHANNEL_TAXONOMY || DEFAULT_TAXONOMY_FILE;
+  return path.join(process.cwd(), file);
+}
+
+function overridesPath(propertyKey?: string | null): string {
+  return path.join(process.cwd(), OVERRIDES_DIR, `${getProperty(propertyKey).id}.json`);
+}
+
+function readOverrides(filePath: string): TaxonomyOverrides {
+  return fs.existsSync(filePath) ? { rules: JSON.parse(fs.readFileSync(filePath, "utf-8")).rules || [] } : { rules: [] };
+}
+
+// The property's override rules go ahead of its taxonomy's own rules
+function mergeOverrides(taxonomy: ChannelTaxonomy, overrides: TaxonomyOverrides): ChannelTaxonomy {
+  return overrides.rules.length > 0 ? { ...taxonomy, rules: [...overrides.rules, ...(taxonomy.rules || [])] } : taxonomy;
+}
+
+function loadCompiledTaxonomy(propertyKey?: string | null): CompiledTaxonomy {
+  const filePath = taxonomyPath(propertyKey);
+  const overridesFile = overridesPath(propertyKey);
+  const cacheKey = `${filePath}|${overridesFile}`;
+  let compiled = taxonomyCache.get(cacheKey);
+  if (!compiled) {
+    const taxonomy: ChannelTaxonomy = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    compiled = compileTaxonomy(mergeOverrides(taxonomy, readOverrides(overridesFile)), `${filePath} with ${overridesFile}`);
+    taxonomyCache.set(cacheKey, compiled);
+  }
+  return compiled;
+}
+
+// Taxonomy for a property: its own `taxonomy` file if configured, otherwise
+// CHANNEL_TAXONOMY or the bundled default, with the property's manual
+// classifications on top
+export function getChannelTaxonomy(propertyKey?: string | null): ChannelTaxonomy {
+  return loadCompiledTaxonomy(propertyKey).taxonomy;
+}
+
+export function getChannelCategories(propertyKey?: string | null): ChannelCategory[] {
+  return getChannelTaxonomy(propertyKey).categories;
+}
+
+function stripSourcePrefixes(source: string, prefixes: string[]): string {
+  let normalized = source.toLowerCase().trim();
+  for (const prefix of prefixes) {
+    if (normalized.startsWith(prefix)) {
+      normalized = normalized.slice(prefix.length);
+    }
+  }
+  return normalized;
+}
+
+export interface SourceClassification {
+  category: string;
+  // Name used to group the source within its category; unknown sources keep
+  // their raw name
+  displayName: string;
+}
+
+// Everything that went into one classification, for debugging surprises
+export interface ClassificationTrace extends SourceClassification {
+  source: string;
+  medium: string;
+  // First rule whose patterns matched; null means the fallback category
+  matchedRule: TaxonomyRule | null;
+  // Source after sourcePrefixes were stripped, as seen by displayNames
+  normalizedSource: string;
+  displayNameFrom: "rule" | "alias" | "raw";
+  displayNameRule: DisplayNameRule | null;
+  // Later aliases that also matched and were ignored because an earlier one won
+  aliasCollisions: DisplayNameRule[];
+}
+
+export function explainSource(source: string, medium: string, propertyKey?: string | null): ClassificationTrace {
+  const { taxonomy, rules, displayNames } = loadCompiledTaxonomy(propertyKey);
+  const sourceValue = source.trim();
+  const mediumValue = medium.trim();
+
+  const match = rules.find(
+    (compiled) =>
+      (!compiled.source || compiled.source.test(sourceValue)) &&
+      (!compiled.medium || compiled.medium.test(mediumValue))
+  );
+  const category = match ? match.rule.category : taxonomy.fallbackCategory;
+
+  const normalizedSource = stripSourcePrefixes(source, taxonomy.sourcePrefixes);
+  const aliases = displayNames
+    .filter(
+      (compiled) =>
+        (!compiled.rule.categories || compiled.rule.categories.includes(category)) &&
+        compiled.source.test(normalizedSource)
+    )
+    .map((compiled) => compiled.rule);
+
+  const trace = {
+    source,
+    medium,
+    category,
+    matchedRule: match?.rule ?? null,
+    normalizedSource,
+  };
+
+  if (match?.rule.displayName) {
+    return {
+      ...trace,
+      displayName: match.rule.displayName,
+      displayNameFrom: "rule",
+      displayNameRule: null,
+      aliasCollisions: aliases,
+    };
+  }
+  if (aliases.length > 0) {
+    return {
+      ...trace,
+      displayName: aliases[0].displayName,
+      displayNameFrom: "alias",
+      displayNameRule: aliases[0],
+      aliasCollisions: aliases.slice(1),
+    };
+  }
+  return {
+    ...trace,
+    displayName: source,
+    displayNameFrom: "raw",
+    displayNameRule: null,
+    aliasCollisions: [],
+  };
+}
+
+export function classifySource(source: string, medium: string, propertyKey?: string | null): SourceClassification {
+  const { category, displayName } = explainSource(source, medium, propertyKey);
+  return { category, displayName };
+}
+
+export interface SourceAssignment {
+  source: string;
+  medium: string;
+  category: string;
+  displayName?: string;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "none";
+}
+
+// Save a manual classification as an exact source/medium rule in the
+// property's override file, ahead of every taxonomy rule. The taxonomy files
+// themselves are never rewritten. The cached taxonomy is replaced right away,
+// so the next breakdown uses it without a restart.
+export function addSourceRule(assignment: SourceAssignment, propertyKey?: string | null): TaxonomyRule {
+  const filePath = taxonomyPath(propertyKey);
+  const overridesFile = overridesPath(propertyKey);
+  const taxonomy: ChannelTaxonomy = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  const overrides = readOverrides(overridesFile);
+
+  const baseId = `assigned-${slugify(assignment.source)}-${slugify(assignment.medium)}`;
+  const existingIds = new Set([...overrides.rules, ...(taxonomy.rules || [])].map((rule) => rule.id));
+  let id = baseId;
+  for (let n = 2; existingIds.has(id); n++) {
+    id = `${baseId}-${n}`;
+  }
+
+  const rule: TaxonomyRule = {
+    id,
+    source: `^${escapeRegex(assignment.source.trim())}$`,
+    medium: `^${escapeRegex(assignment.medium.trim())}$`,
+    category: assignment.category,
+    ...(assignment.displayName?.trim() ? { displayName: assignment.displayName.trim() } : {}),
+  };
+
+  const updated: TaxonomyOverrides = { rules: [rule, ...overrides.rules] };
+  const compiled = compileTaxonomy(mergeOverrides(taxonomy, updated), `${filePath} with ${overridesFile}`);
+  // Temp file and rename so a crash mid-write can't leave half a file
+  fs.mkdirSync(path.dirname(overridesFile), { recursive: true });
+  fs.writeFileSync(`${overridesFile}.tmp`, JSON.stringify(updated, null, 2) + "\n");
+  fs.renameSync(`${overridesFile}.tmp`, overridesFile);
+  taxonomyCache.set(`${filePath}|${overridesFile}`, compiled);
+
+  return rule;
+}
@@ -0,0 +1,127 @@
+import type { ReportResponse } from "./analytics-provider";
+
+// What GA says about how exact a report's numbers are. Thresholded, sampled
+// and "(other)" figures are estimates or leave rows out, so the dashboard
+// marks the sections they feed.
+export interface DataQuality {
+  // GA read a sample of the sessions; samplingRate is the lowest share read
+  // across the reports behind a result (0-1), null when not sampled
+  sampled: boolean;
+  samplingRate: number | null;
+  // Rows were withheld to protect user identity (Google signals, demographics)
+  thresholded: boolean;
+  // Low-traffic values were folded into an "(other)" row
+  otherRow: boolean;
+  // Rows were left out at the row ceiling, so totals built from the rows are
+  // short; missingRows says how many
+  truncated: boolean;
+  missingRows: number;
+  // The report filter has metric conditions on metrics this report doesn't
+  // request, so they weren't applied and its numbers ignore them
+  filterNotApplied: boolean;
+}
+
+// A response as runReport returns it, marked when the report filter's metric
+// conditions couldn't be applied to the request
+export type FilteredReportResponse = ReportResponse & { metricFilterSkipped?: boolean };
+
+// A report function's result with the quality of the GA data behind it
+export interface ReportResult<T> {
+  data: T;
+  quality: DataQuality;
+}
+
+export const EXACT_QUALITY: DataQuality = {
+  sampled: false,
+  samplingRate: null,
+  thresholded: false,
+  otherRow: false,
+  truncated: false,
+  missingRows: 0,
+  filterNotApplied: false,
+};
+
+// Quality of one GA response. Pass the limit for reports that ask for the
+// first rows on purpose (top pages, top sources): rows past it aren't missing.
+export function responseQuality(
+  response: FilteredReportResponse | null | undefined,
+  { limit = Infinity, offset = 0 }: { limit?: number; offset?: number } = {}
+): DataQuality {
+  if (!response) return EXACT_QUALITY;
+
+  const rates = (response.metadata?.samplingMetadatas || [])
+    .map((sampling) => Number(sampling.samplesReadCount || 0) / Number(sampling.samplingSpaceSize || 0))
+    .filter((rate) => Number.isFinite(rate));
+  const expectedRows = Math.min(Number(response.rowCount || 0) - offset, limit);
+  const missingRows = Math.max(0, expectedRows - (response.rows || []).length);
+
+  return {
+    sampled: rates.length > 0,
+    samplingRate: rates.length > 0 ? Math.min(...rates) : null,
+    thresholded: Boolean(response.metadata?.subjectToThresholding),
+    otherRow: Boolean(response.metadata?.dataLossFromOtherRow),
+    truncated: missingRows > 0,
+    missingRows,
+    filterNotApplied: Boolean(response.metricFilterSkipped),
+  };
+}
+
+// Combined quality of several results: any issue in one is an issue in all
+export function mergeQuality(...qualities: Array<DataQuality | null | undefined>): DataQuality {
+  const known = qualities.filter((quality): quality is DataQuality => Boolean(quality));
+  const rates = known.map((quality) => quality.samplingRate).filter((rate): rate is number => rate !== null);
+
+  return {
+    sampled: known.some((quality) => quality.sampled),
+    samplingRate: rates.length > 0 ? Math.min(...rates) : null,
+    thresholded: known.some((quality) => quality.thresholded),
+    otherRow: known.some((quality) => quality.otherRow),
+    truncated: known.some((quality) => quality.truncated),
+    missingRows: known.reduce((sum, quality) => sum + (quality.missingRows || 0), 0),
+    filterNotApplied: known.some((quality) => quality.filterNotApplied),
+  };
+}
+
+export function isExact(quality?: DataQuality | null): boolean {
+  return !quality || !(quality.sampled || quality.thresholded || quality.otherRow || quality.truncated || quality.filterNotApplied);
+}
+
+// Short labels with an explanation each, for badges and tooltips
+export function qualityIssues(quality?: DataQuality | null): Array<{ label: string; description: string }> {
+  if (!quality) return [];
+
+  const issues: Array<{ label: string; description: string }> = [];
+  if (quality.sampled) {
+    issues.push({
+      label: quality.samplingRate !== null ? `Sampled (${Math.max(1, Math.round(quality.samplingRate * 100))}%)` : "Sampled",
+      description: "GA estimated these numbers from a sample of sessions.",
+    });
+  }
+  if (quality.thresholded) {
+    issues.push({
+      label: "Thresholded",
+      description: "GA withheld rows with few users to protect their identity, so totals may be low.",
+    });
+  }
+  if (quality.otherRow) {
+    issues.push({
+      label: "(other) row",
+      description: "Some low-traffic values were grouped into an \"(other)\" row.",
+    });
+  }
+  if (quality.truncated) {
+    issues.push({
+      label: "Truncated",
+      description: quality.missingRows > 0
+        ? `${quality.missingRows.toLocaleString()} rows past the row ceiling aren't included.`
+        : "The report hit its row ceiling; rows beyond it aren't included.",
+    });
+  }
+  if (quality.filterNotApplied) {
+    issues.push({
+      label: "Metric filter not applied",
+      description: "This section doesn't report the metrics the filter's metric conditions use, so those conditions are ignored here.",
+    });
+  }
+  return issues;
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { daysBetween, dateInTimeZone, lastCompleteWeek, resolveGADate } from "./dates";
+
+const LA = "America/Los_Angeles";
+
+// 2026 US DST changes: clocks spring forward on Sunday March 8 at 2:00 PST
+// (10:00 UTC) and fall back on Sunday November 1 at 2:00 PDT (09:00 UTC).
+// Los Angeles midnight is 08:00 UTC under PST and 07:00 UTC under PDT.
+
+describe("dateInTimeZone", () => {
+  it("changes date at Los Angeles midnight on the spring-forward weekend", () => {
+    expect(dateInTimeZone(new Date("2026-03-08T07:59:59Z"), LA)).toBe("2026-03-07");
+    expect(dateInTimeZone(new Date("2026-03-08T08:00:00Z"), LA)).toBe("2026-03-08");
+    // The first midnight after the change is an hour earlier in UTC
+    expect(dateInTimeZone(new Date("2026-03-09T06:59:59Z"), LA)).toBe("2026-03-08");
+    expect(dateInTimeZone(new Date("2026-03-09T07:00:00Z"), LA)).toBe("2026-03-09");
+  });
+
+  it("keeps the skipped 2am hour on the same date", () => {
+    expect(dateInTimeZone(new Date("2026-03-08T09:59:59Z"), LA)).toBe("2026-03-08");
+    expect(dateInTimeZone(new Date("2026-03-08T10:00:00Z"), LA)).toBe("2026-03-08");
+  });
+
+  it("changes date at Los Angeles midnight on the fall-back weekend", () => {
+    expect(dateInTimeZone(new Date("2026-11-01T06:59:59Z"), LA)).toBe("2026-10-31");
+    expect(dateInTimeZone(new Date("2026-11-01T07:00:00Z"), LA)).toBe("2026-11-01");
+    // The first midnight after the change is an hour later in UTC
+    expect(dateInTimeZone(new Date("2026-11-02T07:59:59Z"), LA)).toBe("2026-11-01");
+    expect(dateInTimeZone(new Date("2026-11-02T08:00:00Z"), LA)).toBe("2026-11-02");
+  });
+
+  it("keeps both runs of the repeated 1am hour on the same date", () => {
+    expect(dateInTimeZone(new Date("2026-11-01T08:30:00Z"), LA)).toBe("2026-11-01");
+    expect(dateInTimeZone(new Date("2026-11-01T09:30:00Z"), LA)).toBe("2026-11-01");
+  });
+});
+
+describe("resolveGADate", () => {
+  it("resolves relative dates in the property's timezone, not UTC", () => {
+    const lateSunday = new Date("2026-03-09T06:59:00Z");
+    expect(resolveGADate("today", lateSunday)).toBe("2026-03-09");
+    expect(resolveGADate("today", lateSunday, LA)).toBe("2026-03-08");
+    expect(resolveGADate("yesterday", lateSunday, LA)).toBe("2026-03-07");
+  });
+
+  it("resolves around midnight after spring forward", () => {
+    const before = new Date("2026-03-09T06:59:59Z");
+    const after = new Date("2026-03-09T07:00:00Z");
+    expect(resolveGADate("today", before, LA)).toBe("2026-03-08");
+    expect(resolveGADate("today", after, LA)).toBe("2026-03-09");
+    expect(resolveGADate("yesterday", after, LA)).toBe("2026-03-08");
+    expect(resolveGADate("7daysAgo", after, LA)).toBe("2026-03-02");
+  });
+
+  it("resolves around midnight after fall back", () => {
+    const before = new Date("2026-11-02T07:59:59Z");
+    const after = new Date("2026-11-02T08:00:00Z");
+    expect(resolveGADate("today", before, LA)).toBe("2026-11-01");
+    expect(resolveGADate("yesterday", before, LA)).toBe("2026-10-31");
+    expect(resolveGADate("today", after, LA)).toBe("2026-11-02");
+    expect(resolveGADate("1daysAgo", after, LA)).toBe("2026-11-01");
+    expect(resolveGADate("28daysAgo", after, LA)).toBe("2026-10-05");
+  });
+
+  it("leaves absolute dates alone and rejects anything else", () => {
+    expect(resolveGADate("2026-03-08", new Date("2026-11-02T08:00:00Z"), LA)).toBe("2026-03-08");
+    expect(() => resolveGADate("lastWeek", new Date(), LA)).toThrow("Invalid date");
+  });
+});
+
+describe("lastCompleteWeek", () => {
+  it("rolls over at Monday midnight after spring forward", () => {
+    // Sunday March 8, 23:59 PDT: the DST week isn't complete yet
+    expect(lastCompleteWeek(LA, new Date("2026-03-09T06:59:59Z"))).toEqual({
+      startDate: "2026-02-23",
+      endDate: "2026-03-01",
+    });
+    expect(lastCompleteWeek(LA, new Date("2026-03-09T07:00:00Z"))).toEqual({
+      startDate: "2026-03-02",
+      endDate: "2026-03-08",
+    });
+  });
+
+  it("rolls over at Monday midnight after fall back", () => {
+    // Sunday November 1, 23:59 PST
+    expect(lastCompleteWeek(LA, new Date("2026-11-02T07:59:59Z"))).toEqual({
+      startDate: "2026-10-19",
+      endDate: "2026-10-25",
+    });
+    expect(lastCompleteWeek(LA, new Date("2026-11-02T08:00:00Z"))).toEqual({
+      startDate: "2026-10-26",
+      endDate: "2026-11-01",
+    });
+  });
+
+  it("differs from the UTC week late on Sunday evening", () => {
+    // Already Monday in UTC
+    const sundayEvening = new Date("2026-03-09T05:00:00Z");
+    expect(lastCompleteWeek("UTC", sundayEvening).endDate).toBe("2026-03-08");
+    expect(lastCompleteWeek(LA, sundayEvening).endDate).toBe("2026-03-01");
+  });
+
+  it("covers seven calendar days across a DST change", () => {
+    for (const now of ["2026-03-09T07:00:00Z", "2026-11-02T08:00:00Z"]) {
+      const week = lastCompleteWeek(LA, new Date(now));
+      expect(daysBetween(week.startDate, week.endDate)).toBe(6);
+    }
+  });
+});
@@ -0,0 +1,185 @@
+// Dates are handled as YYYY-MM-DD calendar dates in the GA property's
+// reporting timezone. Arithmetic runs on UTC midnights so DST changes in the
+// property's timezone can't add or drop a day; only "what is today" depends
+// on the timezone.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CalendarRange {
+  startDate: string;
+  endDate: string;
+}
+
+export function toISODate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// Calendar date of an instant in an IANA timezone
+export function dateInTimeZone(instant: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value;
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+// Hour (0-23) of an instant in an IANA timezone
+export function hourInTimeZone(instant: Date, timeZone: string): number {
+  const hour = new Intl.DateTimeFormat("en-US", { timeZone, hour: "numeric", hourCycle: "h23" })
+    .formatToParts(instant)
+    .find((p) => p.type === "hour")?.value;
+  return parseInt(hour || "0") % 24;
+}
+
+// A YYYY-MM-DD string naming a day that exists (no 2026-02-30)
+export function isCalendarDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && toISODate(date) === value;
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toISODate(d);
+}
+
+// Same day and month in another year; Feb 29 becomes Feb 28
+export function addYears(date: string, years: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const targetYear = year + years;
+  const lastDay = new Date(Date.UTC(targetYear, month, 0)).getUTCDate();
+  return toISODate(new Date(Date.UTC(targetYear, month - 1, Math.min(day, lastDay))));
+}
+
+// 0 = Sunday, as Date.getDay()
+export function dayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// Resolve a GA date string ("today", "yesterday", "NdaysAgo" or
+// "YYYY-MM-DD") to an absolute YYYY-MM-DD date. GA resolves relative dates in
+// the property's timezone, so pass it to get the same answer.
+export function resolveGADate(value: string, now: Date = new Date(), timeZone: string = "UTC"): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const today = dateInTimeZone(now, timeZone);
+  if (value === "today") return today;
+  if (value === "yesterday") return addDays(today, -1);
+  const relative = value.match(/^(\d+)daysAgo$/);
+  if (relative) {
+    return addDays(today, -parseInt(relative[1]));
+  }
+  throw new Error(`INVALID_ARGUMENT: Invalid date "${value}"`);
+}
+
+// Move a GA date string by a number of days, keeping relative dates relative
+export function shiftGADate(value: string, days: number): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return addDays(value, days);
+  const daysAgo =
+    value === "today" ? 0 : value === "yesterday" ? 1 : parseInt(value.match(/^(\d+)daysAgo$/)?.[1] ?? "NaN");
+  if (Number.isNaN(daysAgo)) {
+    throw new Error(`INVALID_ARGUMENT: Invalid date "${value}"`);
+  }
+  const shifted = daysAgo - days;
+  if (shifted < 0) {
+    throw new Error(`INVALID_ARGUMENT: "${value}" shifted by ${days} days is in the future`);
+  }
+  return shifted === 0 ? "today" : `${shifted}daysAgo`;
+}
+
+// Monday to Sunday week before the current one in the property's timezone
+export function lastCompleteWeek(timeZone: string, now: Date = new Date()): CalendarRange {
+  const today = dateInTimeZone(now, timeZone);
+  const weekday = dayOfWeek(today);
+  const lastSunday = addDays(today, -(weekday === 0 ? 7 : weekday));
+  return { startDate: addDays(lastSunday, -6), endDate: lastSunday };
+}
+
+// Monday of the week containing a date
+export function startOfWeek(date: string): string {
+  return addDays(date, -((dayOfWeek(date) + 6) % 7));
+}
+
+export function startOfMonth(date: string): string {
+  return `${date.slice(0, 8)}01`;
+}
+
+// Same day in another month, clamped to the month's length
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return toISODate(target);
+}
+
+export function endOfMonth(date: string): string {
+  return addDays(addMonths(startOfMonth(date), 1), -1);
+}
+
+// How a period is matched with "the same period last year":
+// - weekday: 364 days earlier, so every day lines up with the same weekday
+// - calendar: same calendar dates
+// - isoWeek: same ISO week number and weekday in the previous ISO year
+// - holiday: lined up on a holiday in the period (see holidays.ts), else weekday
+export const COMPARISON_MODES = ["weekday", "calendar", "isoWeek", "holiday"] as const;
+
+export type ComparisonMode = (typeof COMPARISON_MODES)[number];
+
+export const DEFAULT_COMPARISON_MODE: ComparisonMode = "weekday";
+
+export function isComparisonMode(value: unknown): value is ComparisonMode {
+  return COMPARISON_MODES.includes(value as ComparisonMode);
+}
+
+// ISO 8601 week-numbering year, week (1-53) and weekday (1 = Monday)
+export function isoWeek(date: string): { year: number; week: number; weekday: number } {
+  const weekday = ((dayOfWeek(date) + 6) % 7) + 1;
+  // The Thursday of a week decides which year the week belongs to
+  const thursday = addDays(date, 4 - weekday);
+  const year = parseInt(thursday.slice(0, 4));
+  const week = Math.floor(daysBetween(`${year}-01-01`, thursday) / 7) + 1;
+  return { year, week, weekday };
+}
+
+export function fromIsoWeek(year: number, week: number, weekday: number): string {
+  // January 4th is always in week 1
+  const week1Monday = startOfWeek(`${year}-01-04`);
+  return addDays(week1Monday, (week - 1) * 7 + (weekday - 1));
+}
+
+export function yearAgoRange(
+  range: CalendarRange,
+  mode: Exclude<ComparisonMode, "holiday"> = "weekday"
+): CalendarRange {
+  if (mode === "calendar") {
+    return { startDate: addYears(range.startDate, -1), endDate: addYears(range.endDate, -1) };
+  }
+  if (mode === "isoWeek") {
+    const { year, week, weekday } = isoWeek(range.startDate);
+    // Week 53 only exists in some years; fall back to the last week of the previous year
+    const weeksLastYear = isoWeek(`${year - 1}-12-28`).week;
+    const startDate = fromIsoWeek(year - 1, Math.min(week, weeksLastYear), weekday);
+    return { startDate, endDate: addDays(startDate, daysBetween(range.startDate, range.endDate)) };
+  }
+  return { startDate: addDays(range.startDate, -364), endDate: addDays(range.endDate, -364) };
+}
+
+// Whole days from one YYYY-MM-DD date to another
+export function daysBetween(startDate: string, endDate: string): number {
+  return Math.round(
+    (new Date(`${endDate}T00:00:00Z`).getTime() - new Date(`${startDate}T00:00:00Z`).getTime()) / DAY_MS
+  );
+}
+
+export function eachDate(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const end = new Date(`${endDate}T00:00:00Z`).getTime();
+  for (let t = new Date(`${startDate}T00:00:00Z`).getTime(); t <= end; t += DAY_MS) {
+    dates.push(toISODate(new Date(t)));
+  }
+  return dates;
+}
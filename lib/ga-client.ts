@@ -1,19 +1,205 @@
-import { BetaAnalyticsDataClient } from "@google-analytics/data";
+import {
+  getAnalyticsProvider,
+  type PropertyMetadata,
+  type ReportRequest,
+  type ReportResponse,
+} from "./analytics-provider";
+import {
+  classifySource,
+  explainSource,
+  getChannelCategories,
+  getChannelTaxonomy,
+  type ChannelCategory,
+  type ClassificationTrace,
+} from "./channel-taxonomy";
+import { getProperty, type LeadEventDefinition } from "./properties";
+import {
+  DEFAULT_REDISTRIBUTION,
+  redistributeLeads,
+  type RedistributionAudit,
+  type RedistributionStrategy,
+} from "./lead-redistribution";
+import { reportCacheKey } from "./report-cache";
+import {
+  addDays,
+  dateInTimeZone,
+  eachDate,
+  fromIsoWeek,
+  lastCompleteWeek,
+  resolveGADate,
+  shiftGADate,
+  yearAgoRange,
+  type ComparisonMode,
+} from "./dates";
+import { holidayAlignedRange, holidaysInRange } from "./holidays";
+import { parsePeriodSelection, resolvePeriod, type ResolvedPeriod } from "./report-periods";
+import { isRetryableError, isTokenQuotaError } from "./retry";
+import { applyReportFilter, metricFilterApplies, type ReportFilter } from "./report-filters";
+import { mergeQuality, responseQuality, type FilteredReportResponse, type ReportResult } from "./data-quality";
+import {
+  DEFAULT_ANOMALY_THRESHOLD,
+  DEFAULT_LOOKBACK_DAYS,
+  MAX_LOOKBACK_DAYS,
+  MIN_LOOKBACK_DAYS,
+  rollingSums,
+  scoreDays,
+  type AnomalyPoint,
+  type DailyValue,
+} from "./anomalies";
+import {
+  incompatibleFields,
+  QueryValidationError,
+  toCompatibilityRequest,
+  toQueryResult,
+  toReportRequest,
+  validateReportQuery,
+  type QueryResult,
+  type ReportQuery,
+} from "./report-query";
+
+export interface ReportOptions {
+  // Property key from config/properties.json; defaults to the first property
+  property?: string;
+  // Dimension and metric conditions applied to every report (see report-filters.ts)
+  filter?: ReportFilter;
+}
+
+export interface ComparisonOptions extends ReportOptions {
+  // How last year's period is aligned with this one; defaults to weekday
+  comparison?: ComparisonMode;
+}
+
+// GA accepts at most 5 requests per batchRunReports call
+const MAX_BATCH_SIZE = 5;
+
+interface PlannedReport {
+  request: ReportRequest;
+  callbacks: Array<{ resolve: (response: ReportResponse) => void; reject: (error: unknown) => void }>;
+}
+
+let plannedReports: PlannedReport[] = [];
+
+// All reports go through the configured provider (GA4 or offline fixtures).
+// Reports requested in the same tick are planned together: identical requests
+// are merged and the rest sent per property in batches of up to 5. Pass
+// batch: false for reports that are allowed to fail (e.g. Search Console
+// metrics on unlinked properties) so they can't fail a whole batch. The
+// caller's report filter is added here, so every report honours it; a report
+// whose metrics can't take the filter's metric conditions comes back marked
+// with metricFilterSkipped.
+function runReport(
+  request: ReportRequest,
+  { batch = true, filter }: { batch?: boolean; filter?: ReportFilter } = {}
+): Promise<FilteredReportResponse> {
+  const filtered = applyReportFilter(request, filter);
+  const response = batch ? planReport(filtered) : getAnalyticsProvider().runReport(filtered);
+  if (metricFilterApplies(request, filter)) return response;
+  // Marked on a copy, as cached and deduplicated responses are shared
+  return response.then((unmarked) => ({ ...unmarked, metricFilterSkipped: true }));
+}
+
+function planReport(request: ReportRequest): Promise<ReportResponse> {
+  return new Promise((resolve, reject) => {
+    if (plannedReports.length === 0) {
+      setTimeout(flushPlannedReports, 0);
+    }
+
+    let key: string;
+    try {
+      key = reportCacheKey(request);
+    } catch {
+      key = "";
+    }
+    const duplicate = key ? plannedReports.find((planned) => reportCacheKey(planned.request) === key) : undefined;
+    if (duplicate) {
+      duplicate.callbacks.push({ resolve, reject });
+    } else {
+      plannedReports.push({ request, callbacks: [{ resolve, reject }] });
+    }
+  });
+}
+
+function flushPlannedReports() {
+  const planned = plannedReports;
+  plannedReports = [];
 
-// Support both file-based credentials (local) and JSON string (Vercel)
-const getCredentials = () => {
-  if (process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON) {
-    return JSON.parse(process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON);
+  const byProperty = new Map<string, PlannedReport[]>();
+  for (const report of planned) {
+    const property = report.request.property || "";
+    byProperty.set(property, [...(byProperty.get(property) || []), report]);
   }
-  return undefined; // Falls back to GOOGLE_APPLICATION_CREDENTIALS file
-};
 
-const credentials = getCredentials();
-const analyticsDataClient = credentials
-  ? new BetaAnalyticsDataClient({ credentials })
-  : new BetaAnalyticsDataClient();
+  for (const reports of byProperty.values()) {
+    for (let i = 0; i < reports.length; i += MAX_BATCH_SIZE) {
+      runPlannedBatch(reports.slice(i, i + MAX_BATCH_SIZE));
+    }
+  }
+}
+
+function settle(report: PlannedReport, promise: Promise<ReportResponse>) {
+  promise.then(
+    (response) => report.callbacks.forEach(({ resolve }) => resolve(response)),
+    (error) => report.callbacks.forEach(({ reject }) => reject(error))
+  );
+}
 
-const propertyId = process.env.GA_PROPERTY_ID || "";
+async function runPlannedBatch(reports: PlannedReport[]) {
+  const provider = getAnalyticsProvider();
+  if (reports.length === 1) {
+    settle(reports[0], provider.runReport(reports[0].request));
+    return;
+  }
+
+  try {
+    const responses = await provider.batchRunReports(reports.map((report) => report.request));
+    reports.forEach((report, i) => settle(report, Promise.resolve(responses[i])));
+  } catch (error) {
+    // Rerunning each report one by one would only spend more of a spent budget
+    if (isRetryableError(error) || isTokenQuotaError(error)) {
+      reports.forEach((report) => settle(report, Promise.reject(error)));
+      return;
+    }
+    // One invalid request fails the whole batch; rerun them individually so
+    // the error only reaches the caller whose report caused it
+    for (const report of reports) {
+      settle(report, provider.runReport(report.request));
+    }
+  }
+}
+
+// Rows per request when paging through a report, and the most rows one
+// report may collect (GA allows up to 250,000 per request)
+const PAGE_SIZE = parseInt(process.env.GA_REPORT_PAGE_SIZE || "10000");
+const MAX_REPORT_ROWS = parseInt(process.env.GA_MAX_REPORT_ROWS || "100000");
+
+// Run a report page by page, following rowCount with offsets until it has
+// every row (or `limit` rows), up to MAX_REPORT_ROWS. Pages after the first
+// are requested together so they share batches. Rows left out at the ceiling
+// still count in rowCount, which is how responseQuality reports them.
+async function runPagedReport(
+  request: ReportRequest,
+  { limit = Infinity, filter }: { limit?: number; filter?: ReportFilter } = {}
+): Promise<FilteredReportResponse> {
+  const start = Number(request.offset || 0);
+  const wanted = Math.min(limit, MAX_REPORT_ROWS);
+  const pageSize = Math.min(PAGE_SIZE, wanted);
+
+  const first = await runReport({ ...request, offset: start, limit: pageSize }, { filter });
+  const end = start + Math.min(Number(first.rowCount || 0) - start, wanted);
+
+  const offsets: number[] = [];
+  for (let offset = start + pageSize; offset < end; offset += pageSize) {
+    offsets.push(offset);
+  }
+  if (offsets.length === 0) return first;
+
+  const pages = await Promise.all(
+    offsets.map((offset) =>
+      runReport({ ...request, offset, limit: Math.min(pageSize, end - offset) }, { filter })
+    )
+  );
+  return { ...first, rows: [...(first.rows || []), ...pages.flatMap((page) => page.rows || [])] };
+}
 
 export interface MetricsResult {
   date: string;
@@ -57,14 +243,16 @@ export interface DateRange {
   endDate: string;
 }
 
+// Lead event counts keyed by event name, one entry per configured lead event
+export type LeadCounts = Record<string, number>;
+
 export interface ChannelMetrics {
   channel: string;
   users: number;
   sessions: number;
   clicks: number;
   conversions: number;
-  formSubmissions: number;
-  phoneCalls: number;
+  leads: LeadCounts;
   clickToLeadRate: number;
 }
 
@@ -75,198 +263,61 @@ export interface SourceMetrics {
   users: number;
   sessions: number;
   conversions: number;
-  formSubmissions: number;
-  phoneCalls: number;
+  leads: LeadCounts;
   clickToLeadRate: number;
 }
 
-export interface DetailedChannelBreakdown {
-  organicSearch: SourceMetrics[];
-  paidSearch: SourceMetrics[];
-  llmAI: SourceMetrics[];
-  listings: SourceMetrics[];
-  social: SourceMetrics[];
-  referral: SourceMetrics[];
-  direct: SourceMetrics[];
-  other: SourceMetrics[];
-}
+// Sources keyed by channel category id from the property's taxonomy
+export type DetailedChannelBreakdown = Record<string, SourceMetrics[]>;
 
 export interface ConversionsByType {
-  formSubmissions: number;
-  phoneCalls: number;
+  leads: LeadCounts;
   totalConversions: number;
   byChannel: ChannelMetrics[];
 }
 
-// Known LLM/AI sources (exact matches or specific domains)
-const LLM_SOURCES = [
-  'chatgpt.com', 'chat.openai.com', 'openai.com',
-  'perplexity.ai',
-  'claude.ai', 'anthropic.com',
-  'bard.google.com', 'gemini.google.com',
-  'copilot.microsoft.com',
-  'you.com', 'phind.com', 'poe.com'
-];
-
-// Known listing/directory sources
-const LISTING_SOURCES = [
-  'yelp.com', 'm.yelp.com', 'yelp',
-  'google.com/maps', 'maps.google.com', 'google.com/local',
-  'business.google.com', 'g.page',
-  'clutch.co', 'expertise.com', 'thumbtack.com',
-  'homeadvisor.com', 'angieslist.com', 'angi.com',
-  'bbb.org', 'yellowpages.com', 'manta.com',
-  'facebook.com/biz', 'nextdoor.com',
-  'avvo.com', 'justia.com', 'lawyers.com',
-  'healthgrades.com', 'zocdoc.com', 'vitals.com',
-  'houzz.com', 'buildzoom.com',
-  'cpafee.com', 'designrush.com', 'upcity.com'
-];
-
-// Known search engines for organic
-const ORGANIC_SEARCH_ENGINES = [
-  'google', 'bing', 'yahoo', 'duckduckgo', 'baidu',
-  'yandex', 'ecosia', 'brave', 'startpage'
-];
-
-// Known paid search sources
-const PAID_SEARCH_SOURCES = [
-  'google', 'bing', 'yahoo', 'facebook', 'instagram',
-  'linkedin', 'twitter', 'tiktok', 'pinterest'
-];
-
-// Normalize source names to group similar sources together
-// Category is used to apply different normalization rules for different contexts
-function normalizeSourceName(source: string, category?: string): string {
-  const sourceLower = source.toLowerCase().trim();
-
-  // Remove www. prefix
-  let normalized = sourceLower.replace(/^www\./, '');
-
-  // Remove m. prefix (mobile versions)
-  normalized = normalized.replace(/^m\./, '');
-
-  // Remove l. prefix (link trackers like l.facebook.com)
-  normalized = normalized.replace(/^l\./, '');
-
-  // Remove lm. prefix
-  normalized = normalized.replace(/^lm\./, '');
-
-  // LLM/AI specific mappings - only apply in llmAI category
-  const llmSourceMap: Record<string, string> = {
-    'chatgpt.com': 'ChatGPT',
-    'chat.openai.com': 'ChatGPT',
-    'openai.com': 'OpenAI',
-    'perplexity.ai': 'Perplexity',
-    'perplexity': 'Perplexity',
-    'claude.ai': 'Claude AI',
-    'anthropic.com': 'Anthropic',
-    'gemini.google.com': 'Google Gemini',
-    'bard.google.com': 'Google Gemini',
-    'gemini_organic': 'Google Gemini',
-    'gemini': 'Google Gemini',
-    'copilot.com': 'Microsoft Copilot',
-    'copilot.microsoft.com': 'Microsoft Copilot',
-    'duck.ai': 'DuckDuckGo AI',
-    'kagi.com': 'Kagi',
-  };
-
-  // General source mappings (applies to all categories except organic search for some)
-  const generalSourceMap: Record<string, string> = {
-    'yelp.com': 'Yelp',
-    'yelp': 'Yelp',
-    'yelp_organic': 'Yelp',
-    'clutch.co': 'Clutch',
-    'expertise.com': 'Expertise',
-    'designrush.com': 'DesignRush',
-    'cpafee.com': 'CPA Fee',
-    'manta.com': 'Manta',
-    'trustpilot': 'Trustpilot',
-    'trustpilot.com': 'Trustpilot',
-    'themanifest.com': 'The Manifest',
-    'bark.com': 'Bark',
-    'facebook.com': 'Facebook',
-    'instagram.com': 'Instagram',
-    'linkedin.com': 'LinkedIn',
-    'twitter.com': 'Twitter',
-    'x.com': 'Twitter',
-    't.co': 'Twitter',
-    'youtube.com': 'YouTube',
-    'reddit.com': 'Reddit',
-    'ads.reddit.com': 'Reddit',
-    'duckduckgo.com': 'DuckDuckGo',
-    'duckduckgo': 'DuckDuckGo',
-    'mail.google.com': 'Gmail',
-    'messages.google.com': 'Google Messages',
-    'groups.google.com': 'Google Groups',
-  };
-
-  // Organic search engine mappings - use proper search engine names
-  const organicSearchMap: Record<string, string> = {
-    'google': 'Google',
-    'bing': 'Bing',
-    'yahoo': 'Yahoo',
-    'duckduckgo': 'DuckDuckGo',
-    'baidu': 'Baidu',
-    'yandex': 'Yandex',
-    'ecosia': 'Ecosia',
-    'brave': 'Brave',
-    'startpage': 'Startpage',
-    'aol': 'AOL',
-  };
-
-  // Apply LLM mappings only for llmAI category
-  if (category === 'llmAI') {
-    if (llmSourceMap[normalized]) {
-      return llmSourceMap[normalized];
-    }
-    for (const [key, value] of Object.entries(llmSourceMap)) {
-      if (normalized.includes(key) || key.includes(normalized)) {
-        return value;
-      }
-    }
-  }
-
-  // Apply organic search mappings for organicSearch category
-  if (category === 'organicSearch') {
-    for (const [key, value] of Object.entries(organicSearchMap)) {
-      if (normalized.includes(key)) {
-        return value;
-      }
-    }
-  }
+export function emptyLeadCounts(leadEvents: LeadEventDefinition[]): LeadCounts {
+  return Object.fromEntries(leadEvents.map((event) => [event.name, 0]));
+}
 
-  // Apply general mappings
-  if (generalSourceMap[normalized]) {
-    return generalSourceMap[normalized];
-  }
+export function sumLeadCounts(counts: LeadCounts): number {
+  return Object.values(counts).reduce((sum, count) => sum + count, 0);
+}
 
-  // Check partial matches for general mappings
-  for (const [key, value] of Object.entries(generalSourceMap)) {
-    if (normalized.includes(key) || key.includes(normalized)) {
-      return value;
-    }
-  }
+// Configured event name for a GA event name (GA names are matched
+// case-insensitively), or undefined if it isn't a lead event
+function leadEventName(leadEvents: LeadEventDefinition[], eventName: string): string | undefined {
+  const lower = eventName.toLowerCase();
+  return leadEvents.find((event) => event.name.toLowerCase() === lower)?.name;
+}
 
-  // Return original with proper capitalization if no mapping found
-  return source;
+function leadEventFilter(leadEvents: LeadEventDefinition[]): ReportRequest["dimensionFilter"] {
+  return {
+    filter: {
+      fieldName: "eventName",
+      inListFilter: {
+        values: leadEvents.map((event) => event.name),
+      },
+    },
+  };
 }
 
-// Aggregate sources with the same normalized name
-// Category is passed to apply context-specific normalization
-function aggregateSources(sources: SourceMetrics[], category: string): SourceMetrics[] {
+// Group sources that share a display name within a category, e.g. yelp.com
+// and m.yelp.com both become "Yelp"
+function aggregateSources(sources: SourceMetrics[], propertyKey?: string): SourceMetrics[] {
   const aggregated = new Map<string, SourceMetrics>();
 
   for (const source of sources) {
-    const normalizedName = normalizeSourceName(source.source, category);
+    const normalizedName = classifySource(source.source, source.medium, propertyKey).displayName;
 
     if (aggregated.has(normalizedName)) {
       const existing = aggregated.get(normalizedName)!;
       existing.users += source.users;
       existing.sessions += source.sessions;
       existing.conversions += source.conversions;
-      existing.formSubmissions += source.formSubmissions;
-      existing.phoneCalls += source.phoneCalls;
+      for (const [name, count] of Object.entries(source.leads)) {
+        existing.leads[name] = (existing.leads[name] || 0) + count;
+      }
       // Recalculate click to lead rate
       existing.clickToLeadRate = existing.sessions > 0
         ? (existing.conversions / existing.sessions) * 100
@@ -279,6 +330,7 @@ function aggregateSources(sources: SourceMetrics[], category: string): SourceMet
       aggregated.set(normalizedName, {
         ...source,
         source: normalizedName,
+        leads: { ...source.leads },
       });
     }
   }
@@ -286,123 +338,51 @@ function aggregateSources(sources: SourceMetrics[], category: string): SourceMet
   return Array.from(aggregated.values());
 }
 
-function categorizeSource(source: string, medium: string): string {
-  const sourceLower = source.toLowerCase();
-  const mediumLower = medium.toLowerCase();
-
-  // Check for LLM/AI sources first (specific domains)
-  const llmMatches = ['chatgpt', 'openai', 'perplexity', 'claude.ai', 'anthropic', 'gemini', 'bard.google', 'copilot', 'phind', 'poe.com', 'you.com', 'duck.ai', 'kagi.com'];
-  if (llmMatches.some(llm => sourceLower.includes(llm))) {
-    return 'llmAI';
-  }
-
-  // Check for listing/directory sources (including _organic suffix variations)
-  const listingMatches = ['yelp', 'clutch', 'expertise', 'thumbtack', 'homeadvisor', 'angi', 'bbb.org', 'yellowpages', 'manta', 'nextdoor', 'avvo', 'justia', 'healthgrades', 'zocdoc', 'houzz', 'cpafee', 'designrush', 'upcity', 'trustpilot', 'themanifest', 'bark.com', 'g2.com', 'capterra'];
-  if (listingMatches.some(listing => sourceLower.includes(listing))) {
-    return 'listings';
-  }
-
-  // Check for _paid suffix in source name (e.g., duckduckgo_paid)
-  if (sourceLower.endsWith('_paid') || mediumLower === 'cpc' || mediumLower === 'ppc' || mediumLower === 'paid' || mediumLower.includes('paid') || mediumLower === 'display') {
-    return 'paidSearch';
-  }
-
-  // Check for organic search engines
-  const organicEngines = [...ORGANIC_SEARCH_ENGINES, 'aol', 'search'];
-
-  // Check for _organic suffix in source name (e.g., duckduckgo_organic, bing_organic)
-  if (sourceLower.endsWith('_organic')) {
-    const baseSource = sourceLower.replace('_organic', '');
-    if (organicEngines.some(engine => baseSource.includes(engine))) {
-      return 'organicSearch';
-    }
-  }
-
-  // Check for organic medium
-  if (mediumLower === 'organic') {
-    if (organicEngines.some(engine => sourceLower.includes(engine))) {
-      return 'organicSearch';
-    }
-  }
-
-  // Check for common search engines without explicit medium (google, bing, yahoo as source only)
-  const mainSearchEngines = ['google', 'bing', 'yahoo', 'duckduckgo', 'baidu', 'yandex'];
-  if (mainSearchEngines.some(engine => sourceLower === engine) && (mediumLower === '(none)' || mediumLower === '' || mediumLower === '(not set)')) {
-    return 'organicSearch';
-  }
-
-  // Check for social media (including t.co for Twitter)
-  const socialMatches = ['facebook', 'instagram', 'twitter', 'linkedin', 'tiktok', 'pinterest', 'youtube', 'reddit', 't.co', 'x.com'];
-  if (mediumLower.includes('social') || socialMatches.some(s => sourceLower === s || sourceLower.includes(s + '.'))) {
-    return 'social';
-  }
-
-  // Check for direct
-  if (sourceLower === '(direct)' || sourceLower === 'website' || sourceLower === 'offline' || mediumLower === 'direct' || mediumLower === '(none)' && sourceLower === '(direct)') {
-    return 'direct';
-  }
-
-  // Check for referral
-  if (mediumLower === 'referral') {
-    return 'referral';
-  }
-
-  // Check if source looks like a website domain (contains . and ends with common TLD) - treat as referral
-  if (sourceLower.includes('.') && (sourceLower.endsWith('.com') || sourceLower.endsWith('.org') || sourceLower.endsWith('.net') || sourceLower.endsWith('.co') || sourceLower.endsWith('.io'))) {
-    return 'referral';
-  }
-
-  return 'other';
+// Get the last complete week (Monday to Sunday) in the property's timezone
+export function getLastCompleteWeek(options: ReportOptions = {}): DateRange {
+  return lastCompleteWeek(getProperty(options.property).timezone);
 }
 
-// Get the last complete week (Monday to Sunday)
-export function getLastCompleteWeek(): DateRange {
-  const today = new Date();
-  const dayOfWeek = today.getDay();
-
-  // Calculate last Sunday
-  const lastSunday = new Date(today);
-  lastSunday.setDate(today.getDate() - (dayOfWeek === 0 ? 7 : dayOfWeek));
-
-  // Calculate last Monday (6 days before last Sunday)
-  const lastMonday = new Date(lastSunday);
-  lastMonday.setDate(lastSunday.getDate() - 6);
+// Turn relative GA dates ("7daysAgo", "yesterday") into YYYY-MM-DD dates the
+// way GA does, in the property's timezone
+export function resolveDateRange(dateRange: DateRange, options: ReportOptions = {}): DateRange {
+  const { timezone } = getProperty(options.property);
+  const now = new Date();
 
   return {
-    startDate: formatDateForGA(lastMonday),
-    endDate: formatDateForGA(lastSunday),
+    startDate: resolveGADate(dateRange.startDate, now, timezone),
+    endDate: resolveGADate(dateRange.endDate, now, timezone),
   };
 }
 
-// Get the same week from last year
-export function getSameWeekLastYear(dateRange: DateRange): DateRange {
-  const start = new Date(dateRange.startDate);
-  const end = new Date(dateRange.endDate);
-
-  start.setFullYear(start.getFullYear() - 1);
-  end.setFullYear(end.getFullYear() - 1);
-
-  return {
-    startDate: formatDateForGA(start),
-    endDate: formatDateForGA(end),
-  };
+// Report period from query parameters (see report-periods.ts) in the
+// property's timezone
+export function getReportPeriod(params: URLSearchParams, options: ReportOptions = {}): ResolvedPeriod {
+  return resolvePeriod(parsePeriodSelection(params), getProperty(options.property).timezone);
 }
 
-function formatDateForGA(date: Date): string {
-  return date.toISOString().split('T')[0];
+// Get the matching period from last year, aligned by options.comparison
+export function getSameWeekLastYear(dateRange: DateRange, options: ComparisonOptions = {}): DateRange {
+  const range = resolveDateRange(dateRange, options);
+  if (options.comparison === "holiday") {
+    return holidayAlignedRange(range, options.property)?.range ?? yearAgoRange(range, "weekday");
+  }
+  return yearAgoRange(range, options.comparison);
 }
 
 export async function getMetrics(
   dateRange: DateRange,
-  metrics: string[] = ["activeUsers", "sessions", "bounceRate", "conversions", "screenPageViews"]
-): Promise<MetricsResult[]> {
-  const [response] = await analyticsDataClient.runReport({
+  metrics: string[] = ["activeUsers", "sessions", "bounceRate", "conversions", "screenPageViews"],
+  options: ReportOptions = {}
+): Promise<ReportResult<MetricsResult[]>> {
+  const { propertyId } = getProperty(options.property);
+  const response = await runReport({
     property: propertyId,
     dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
     dimensions: [{ name: "date" }],
     metrics: metrics.map((m) => ({ name: m })),
     orderBys: [{ dimension: { dimensionName: "date" } }],
-  });
+  }, { filter: options.filter });
 
   const results: MetricsResult[] = [];
 
@@ -422,17 +402,20 @@ export async function getMetrics(
     }
   }
 
-  return results;
+  return { data: results, quality: responseQuality(response) };
 }
 
-export async function getAggregatedMetrics(dateRange: DateRange): Promise<{
+export interface AggregatedMetrics {
   users: number;
   sessions: number;
   bounceRate: number;
   conversions: number;
   pageviews: number;
-}> {
-  const [response] = await analyticsDataClient.runReport({
+}
+
+export async function getAggregatedMetrics(dateRange: DateRange, options: ReportOptions = {}): Promise<ReportResult<AggregatedMetrics>> {
+  const { propertyId } = getProperty(options.property);
+  const response = await runReport({
     property: propertyId,
     dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
     metrics: [
@@ -442,31 +425,25 @@ export async function getAggregatedMetrics(dateRange: DateRange): Promise<{
       { name: "conversions" },
       { name: "screenPageViews" },
     ],
-  });
+  }, { filter: options.filter });
 
   const metricValues = response.rows?.[0]?.metricValues || [];
 
   return {
-    users: parseInt(metricValues[0]?.value || "0"),
-    sessions: parseInt(metricValues[1]?.value || "0"),
-    bounceRate: parseFloat(metricValues[2]?.value || "0") * 100,
-    conversions: parseInt(metricValues[3]?.value || "0"),
-    pageviews: parseInt(metricValues[4]?.value || "0"),
+    data: {
+      users: parseInt(metricValues[0]?.value || "0"),
+      sessions: parseInt(metricValues[1]?.value || "0"),
+      bounceRate: parseFloat(metricValues[2]?.value || "0") * 100,
+      conversions: parseInt(metricValues[3]?.value || "0"),
+      pageviews: parseInt(metricValues[4]?.value || "0"),
+    },
+    quality: responseQuality(response),
   };
 }
 
-export interface RawPhoneCallBySource {
-  source: string;
-  medium: string;
-  count: number;
-}
-
-export async function getDetailedChannelBreakdown(dateRange: DateRange): Promise<{
-  breakdown: DetailedChannelBreakdown;
-  rawPhoneCallsBySource: RawPhoneCallBySource[];
-}> {
-  // Get data by source/medium - increased limit to capture more sources
-  const [sourceResponse] = await analyticsDataClient.runReport({
+// Get data by source/medium; run with runPagedReport to get every source
+function sourceSessionsRequest(propertyId: string, dateRange: DateRange): ReportRequest {
+  return {
     property: propertyId,
     dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
     dimensions: [{ name: "sessionSource" }, { name: "sessionMedium" }],
@@ -476,94 +453,80 @@ export async function getDetailedChannelBreakdown(dateRange: DateRange): Promise
       { name: "conversions" },
     ],
     orderBys: [{ metric: { metricName: "sessions" }, desc: true }],
-    limit: 500,
-  });
+  };
+}
 
-  // Get form submissions and phone calls by source/medium - filter to only target events
-  const [eventsResponse] = await analyticsDataClient.runReport({
+// Get lead events by source/medium - filter to only the configured lead events
+function sourceEventsRequest(propertyId: string, dateRange: DateRange, leadEvents: LeadEventDefinition[]): ReportRequest {
+  return {
     property: propertyId,
     dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
     dimensions: [{ name: "sessionSource" }, { name: "sessionMedium" }, { name: "eventName" }],
     metrics: [{ name: "eventCount" }],
-    dimensionFilter: {
-      filter: {
-        fieldName: "eventName",
-        inListFilter: {
-          values: ["form", "phone_call"],
-        },
-      },
-    },
-    limit: 10000,
-  });
+    dimensionFilter: leadEventFilter(leadEvents),
+  };
+}
 
-  // Get phone_call events for debug table (separate query filtered to phone_call only)
-  // Note: GA4 API doesn't allow event-scoped source/medium with eventCount metric,
-  // so we use sessionSource/sessionMedium which are compatible
-  const [rawPhoneResponse] = await analyticsDataClient.runReport({
-    property: propertyId,
-    dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
-    dimensions: [{ name: "sessionSource" }, { name: "sessionMedium" }],
-    metrics: [{ name: "eventCount" }],
-    dimensionFilter: {
-      filter: {
-        fieldName: "eventName",
-        stringFilter: { matchType: "EXACT", value: "phone_call" },
-      },
-    },
-    orderBys: [{ metric: { metricName: "eventCount" }, desc: true }],
-    limit: 100,
-  });
+// The 90 days before a period, for historical lead shares
+function historyBefore(dateRange: DateRange, days = 90): DateRange {
+  return { startDate: shiftGADate(dateRange.startDate, -days), endDate: shiftGADate(dateRange.startDate, -1) };
+}
 
-  // Build raw phone_call debug table from event-scoped response
-  const rawPhoneCallsBySource: RawPhoneCallBySource[] = [];
-  if (rawPhoneResponse.rows) {
-    for (const row of rawPhoneResponse.rows) {
-      rawPhoneCallsBySource.push({
-        source: row.dimensionValues?.[0]?.value || "(not set)",
-        medium: row.dimensionValues?.[1]?.value || "(not set)",
-        count: parseInt(row.metricValues?.[0]?.value || "0"),
-      });
-    }
-  }
+function isUnattributedSource(source: string): boolean {
+  return !source || source === "(not set)" || source === "(none)";
+}
+
+export interface BreakdownOptions extends ReportOptions {
+  // Overrides the property's leadRedistribution setting
+  redistribution?: RedistributionStrategy;
+}
+
+export async function getDetailedChannelBreakdown(dateRange: DateRange, options: BreakdownOptions = {}): Promise<ReportResult<{
+  breakdown: DetailedChannelBreakdown;
+  categories: ChannelCategory[];
+  // Where the "(not set)" lead events went; `remaining` is what the report
+  // should show as an Unattributed row
+  redistribution: RedistributionAudit & { historyRange?: DateRange };
+}>> {
+  const { propertyId, leadEvents, leadRedistribution } = getProperty(options.property);
+  const categories = getChannelCategories(options.property);
+  const strategy = options.redistribution || leadRedistribution || DEFAULT_REDISTRIBUTION;
+  const historyRange = strategy === "historical" ? historyBefore(dateRange) : undefined;
+
+  const [sourceResponse, eventsResponse, historyResponse] = await Promise.all([
+    runPagedReport(sourceSessionsRequest(propertyId, dateRange), { filter: options.filter }),
+    runPagedReport(sourceEventsRequest(propertyId, dateRange, leadEvents), { filter: options.filter }),
+    historyRange ? runPagedReport(sourceEventsRequest(propertyId, historyRange, leadEvents), { filter: options.filter }) : null,
+  ]);
 
   // Build event data map and track all sources with events
-  const eventData: Map<string, { forms: number; phones: number; source: string; medium: string }> = new Map();
-  let unattributedForms = 0;
-  let unattributedPhones = 0;
+  const eventData: Map<string, { leads: LeadCounts; source: string; medium: string }> = new Map();
+  const unattributed = emptyLeadCounts(leadEvents);
 
   if (eventsResponse.rows) {
     for (const row of eventsResponse.rows) {
       const source = row.dimensionValues?.[0]?.value || "";
       const medium = row.dimensionValues?.[1]?.value || "";
-      const eventName = (row.dimensionValues?.[2]?.value || "").toLowerCase();
+      const eventName = leadEventName(leadEvents, row.dimensionValues?.[2]?.value || "");
       const count = parseInt(row.metricValues?.[0]?.value || "0");
+      if (!eventName) continue;
 
       // Track unattributed events separately for redistribution
-      const isUnattributed = !source || source === "(not set)" || source === "(none)";
-
-      if (isUnattributed) {
-        if (eventName === 'form') unattributedForms += count;
-        else if (eventName === 'phone_call') unattributedPhones += count;
+      if (isUnattributedSource(source)) {
+        unattributed[eventName] += count;
         continue;
       }
 
       const key = `${source}|${medium}`;
       if (!eventData.has(key)) {
-        eventData.set(key, { forms: 0, phones: 0, source, medium });
-      }
-      const data = eventData.get(key)!;
-
-      if (eventName === 'form') {
-        data.forms += count;
-      } else if (eventName === 'phone_call') {
-        data.phones += count;
+        eventData.set(key, { leads: emptyLeadCounts(leadEvents), source, medium });
       }
+      eventData.get(key)!.leads[eventName] += count;
     }
   }
 
   // Build source data map from sessions query
   const sourceData: Map<string, { users: number; sessions: number; conversions: number; source: string; medium: string }> = new Map();
-  let totalSessions = 0;
   if (sourceResponse.rows) {
     for (const row of sourceResponse.rows) {
       const source = row.dimensionValues?.[0]?.value || "";
@@ -574,53 +537,62 @@ export async function getDetailedChannelBreakdown(dateRange: DateRange): Promise
       const key = `${source}|${medium}`;
 
       sourceData.set(key, { users, sessions, conversions, source, medium });
-      if (source && source !== "(not set)" && source !== "(none)") {
-        totalSessions += sessions;
-      }
     }
   }
 
-  // Redistribute unattributed events proportionally based on session counts
-  if ((unattributedForms > 0 || unattributedPhones > 0) && totalSessions > 0) {
-    for (const [key, data] of sourceData) {
-      if (!data.source || data.source === "(not set)" || data.source === "(none)") continue;
-      const proportion = data.sessions / totalSessions;
-      if (!eventData.has(key)) {
-        eventData.set(key, { forms: 0, phones: 0, source: data.source, medium: data.medium });
-      }
-      const events = eventData.get(key)!;
-      events.forms += Math.round(unattributedForms * proportion);
-      events.phones += Math.round(unattributedPhones * proportion);
+  // Lead counts per source over the history window
+  const history = new Map<string, LeadCounts>();
+  for (const row of historyResponse?.rows || []) {
+    const source = row.dimensionValues?.[0]?.value || "";
+    const medium = row.dimensionValues?.[1]?.value || "";
+    const eventName = leadEventName(leadEvents, row.dimensionValues?.[2]?.value || "");
+    if (!eventName || isUnattributedSource(source)) continue;
+
+    const key = `${source}|${medium}`;
+    if (!history.has(key)) {
+      history.set(key, emptyLeadCounts(leadEvents));
+    }
+    history.get(key)![eventName] += parseInt(row.metricValues?.[0]?.value || "0");
+  }
+
+  // Move the unattributed events onto sources with this period's traffic
+  const redistribution = redistributeLeads(
+    unattributed,
+    Array.from(sourceData.values()).filter((data) => !isUnattributedSource(data.source)),
+    strategy,
+    history
+  );
+  for (const move of redistribution.moves) {
+    const key = `${move.source}|${move.medium}`;
+    if (!eventData.has(key)) {
+      eventData.set(key, { leads: emptyLeadCounts(leadEvents), source: move.source, medium: move.medium });
+    }
+    const events = eventData.get(key)!;
+    for (const [name, count] of Object.entries(move.leads)) {
+      events.leads[name] += count;
     }
   }
 
   // Merge all unique source/medium combinations from both queries
   const allKeys = new Set([...sourceData.keys(), ...eventData.keys()]);
 
-  // Initialize breakdown
-  const breakdown: DetailedChannelBreakdown = {
-    organicSearch: [],
-    paidSearch: [],
-    llmAI: [],
-    listings: [],
-    social: [],
-    referral: [],
-    direct: [],
-    other: [],
-  };
+  // Initialize breakdown with every configured category, in display order
+  const breakdown: DetailedChannelBreakdown = Object.fromEntries(
+    categories.map((category) => [category.id, [] as SourceMetrics[]])
+  );
 
   for (const key of allKeys) {
     const sessions = sourceData.get(key) || { users: 0, sessions: 0, conversions: 0, source: '', medium: '' };
-    const events = eventData.get(key) || { forms: 0, phones: 0, source: '', medium: '' };
+    const events = eventData.get(key) || { leads: emptyLeadCounts(leadEvents), source: '', medium: '' };
 
     // Get source/medium from whichever has data
     const source = sessions.source || events.source;
     const medium = sessions.medium || events.medium;
 
     // Skip unattributed or empty sources
-    if (!source || source === "(not set)" || source === "(none)") continue;
+    if (isUnattributedSource(source)) continue;
 
-    const category = categorizeSource(source, medium);
+    const { category } = classifySource(source, medium, options.property);
 
     const metrics: SourceMetrics = {
       source,
@@ -629,101 +601,350 @@ export async function getDetailedChannelBreakdown(dateRange: DateRange): Promise
       users: sessions.users,
       sessions: sessions.sessions,
       conversions: sessions.conversions,
-      formSubmissions: events.forms,
-      phoneCalls: events.phones,
+      leads: events.leads,
       clickToLeadRate: sessions.sessions > 0 ? (sessions.conversions / sessions.sessions) * 100 : 0,
     };
 
-    breakdown[category as keyof DetailedChannelBreakdown].push(metrics);
+    breakdown[category].push(metrics);
   }
 
   // Aggregate and sort each category by sessions (then by conversions for ties)
-  for (const key of Object.keys(breakdown) as Array<keyof DetailedChannelBreakdown>) {
-    breakdown[key] = aggregateSources(breakdown[key], key);
+  for (const key of Object.keys(breakdown)) {
+    breakdown[key] = aggregateSources(breakdown[key], options.property);
     breakdown[key].sort((a, b) => {
       if (b.sessions !== a.sessions) return b.sessions - a.sessions;
-      return (b.formSubmissions + b.phoneCalls) - (a.formSubmissions + a.phoneCalls);
+      return sumLeadCounts(b.leads) - sumLeadCounts(a.leads);
     });
   }
 
-  return { breakdown, rawPhoneCallsBySource };
+  return {
+    data: { breakdown, categories, redistribution: { ...redistribution, historyRange } },
+    quality: mergeQuality(responseQuality(sourceResponse), responseQuality(eventsResponse), responseQuality(historyResponse)),
+  };
+}
+
+// Custom definitions change rarely; an hour keeps validation cheap
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const metadataCache = new Map<string, { metadata: PropertyMetadata; expiresAt: number }>();
+
+export async function getPropertyMetadata(options: ReportOptions = {}): Promise<PropertyMetadata> {
+  const { propertyId } = getProperty(options.property);
+  const cached = metadataCache.get(propertyId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.metadata;
+  }
+
+  const metadata = await getAnalyticsProvider().getMetadata(propertyId);
+  metadataCache.set(propertyId, { metadata, expiresAt: Date.now() + METADATA_TTL_MS });
+  return metadata;
 }
 
-export async function getConversionsByChannel(dateRange: DateRange): Promise<ConversionsByType> {
-  // Get conversions by default channel group
-  const [channelResponse] = await analyticsDataClient.runReport({
-    property: propertyId,
-    dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
-    dimensions: [{ name: "sessionDefaultChannelGroup" }],
-    metrics: [
-      { name: "activeUsers" },
-      { name: "sessions" },
-      { name: "conversions" },
-    ],
-    orderBys: [{ metric: { metricName: "conversions" }, desc: true }],
-  });
+// Run an arbitrary report. Field names are checked against the property's
+// metadata and GA's compatibility rules first, so a bad query comes back as a
+// QueryValidationError listing every problem instead of one GA error.
+export async function runQuery(query: ReportQuery, options: ReportOptions = {}): Promise<ReportResult<QueryResult>> {
+  const { propertyId, timezone } = getProperty(options.property);
+  // The report filter is checked along with the query's own filters
+  const unfiltered = toReportRequest(query, propertyId);
+  const request = applyReportFilter(unfiltered, options.filter);
+
+  const problems = validateReportQuery(
+    { ...query, dimensionFilter: request.dimensionFilter ?? undefined, metricFilter: request.metricFilter ?? undefined },
+    await getPropertyMetadata(options),
+    timezone
+  );
+  if (problems.length > 0) {
+    throw new QueryValidationError(problems);
+  }
+
+  const compatibility = await getAnalyticsProvider().checkCompatibility(toCompatibilityRequest(request));
+  const incompatible = incompatibleFields(compatibility);
+  if (incompatible.length > 0) {
+    throw new QueryValidationError(incompatible);
+  }
+
+  // Without a limit every row is fetched, page by page up to the ceiling
+  const response = await runPagedReport(request, { limit: query.limit });
+  return {
+    data: toQueryResult(response),
+    quality: {
+      ...responseQuality(response, { limit: query.limit, offset: query.offset }),
+      filterNotApplied: !metricFilterApplies(unfiltered, options.filter),
+    },
+  };
+}
+
+export const MIN_TREND_WEEKS = 12;
+export const MAX_TREND_WEEKS = 52;
+
+export interface TrendWeek {
+  // Monday of the ISO week
+  startDate: string;
+  sessions: number;
+  leads: LeadCounts;
+}
 
-  // Get form submissions and phone calls by event name and channel - filter to only target events
-  const [eventsResponse] = await analyticsDataClient.runReport({
+export interface ChannelTrends {
+  range: DateRange;
+  categories: ChannelCategory[];
+  // Monday of each week, oldest first; every series below has one entry per week
+  weeks: string[];
+  byCategory: Record<string, TrendWeek[]>;
+  // Lead events GA reports without a source; not redistributed here
+  unattributed: LeadCounts[];
+  totals: TrendWeek[];
+}
+
+// Sessions and lead events per category for the last complete weeks. One
+// report with an ISO week dimension covers every week: sessions are counted
+// from session_start events so they can share the eventName dimension with
+// the lead events.
+export async function getChannelTrends(weeks = MIN_TREND_WEEKS, options: ReportOptions = {}): Promise<ReportResult<ChannelTrends>> {
+  const { propertyId, leadEvents, timezone } = getProperty(options.property);
+  const categories = getChannelCategories(options.property);
+  const lastWeek = lastCompleteWeek(timezone);
+  const range = { startDate: addDays(lastWeek.startDate, -7 * (weeks - 1)), endDate: lastWeek.endDate };
+
+  const response = await runPagedReport({
     property: propertyId,
-    dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
-    dimensions: [{ name: "sessionDefaultChannelGroup" }, { name: "eventName" }],
+    dateRanges: [range],
+    dimensions: [{ name: "isoYearIsoWeek" }, { name: "sessionSource" }, { name: "sessionMedium" }, { name: "eventName" }],
     metrics: [{ name: "eventCount" }],
     dimensionFilter: {
       filter: {
         fieldName: "eventName",
-        inListFilter: {
-          values: ["form", "phone_call"],
-        },
+        inListFilter: { values: ["session_start", ...leadEvents.map((event) => event.name)] },
       },
     },
-  });
+  }, { filter: options.filter });
 
-  // Get clicks data by channel (from Search Console if available)
-  let clicksByChannel: Map<string, number> = new Map();
-  try {
-    const [searchResponse] = await analyticsDataClient.runReport({
+  const weekStarts = Array.from({ length: weeks }, (_, i) => addDays(range.startDate, i * 7));
+  const emptySeries = (): TrendWeek[] =>
+    weekStarts.map((startDate) => ({ startDate, sessions: 0, leads: emptyLeadCounts(leadEvents) }));
+
+  const byCategory: Record<string, TrendWeek[]> = Object.fromEntries(
+    categories.map((category) => [category.id, emptySeries()])
+  );
+  const unattributed = weekStarts.map(() => emptyLeadCounts(leadEvents));
+  const totals = emptySeries();
+
+  for (const row of response.rows || []) {
+    const isoYearWeek = row.dimensionValues?.[0]?.value || "";
+    const source = row.dimensionValues?.[1]?.value || "";
+    const medium = row.dimensionValues?.[2]?.value || "";
+    const gaEventName = row.dimensionValues?.[3]?.value || "";
+    const count = parseInt(row.metricValues?.[0]?.value || "0");
+
+    const startDate = fromIsoWeek(parseInt(isoYearWeek.slice(0, 4)), parseInt(isoYearWeek.slice(4)), 1);
+    const index = weekStarts.indexOf(startDate);
+    if (index === -1) continue;
+
+    const isSessionStart = gaEventName === "session_start";
+    const eventName = isSessionStart ? undefined : leadEventName(leadEvents, gaEventName);
+    if (!isSessionStart && !eventName) continue;
+
+    if (isUnattributedSource(source)) {
+      if (eventName) {
+        unattributed[index][eventName] += count;
+        totals[index].leads[eventName] += count;
+      }
+      continue;
+    }
+
+    const { category } = classifySource(source, medium, options.property);
+    for (const week of [byCategory[category][index], totals[index]]) {
+      if (eventName) {
+        week.leads[eventName] += count;
+      } else {
+        week.sessions += count;
+      }
+    }
+  }
+
+  return {
+    data: { range, categories, weeks: weekStarts, byCategory, unattributed, totals },
+    quality: responseQuality(response),
+  };
+}
+
+export interface SourceClassificationTrace extends ClassificationTrace {
+  sessions: number;
+  conversions: number;
+  // Other raw sources merged under the same display name in this category
+  groupedWith: string[];
+}
+
+// Classification trace for every raw source/medium behind the detailed
+// breakdown, using the same GA queries (so normally straight from the cache)
+export async function explainChannelBreakdown(
+  dateRange: DateRange,
+  options: ReportOptions = {}
+): Promise<ReportResult<SourceClassificationTrace[]>> {
+  const { propertyId, leadEvents } = getProperty(options.property);
+
+  const [sourceResponse, eventsResponse] = await Promise.all([
+    runPagedReport(sourceSessionsRequest(propertyId, dateRange), { filter: options.filter }),
+    runPagedReport(sourceEventsRequest(propertyId, dateRange, leadEvents), { filter: options.filter }),
+  ]);
+
+  const pairs = new Map<string, { source: string; medium: string; sessions: number; conversions: number }>();
+  for (const row of sourceResponse.rows || []) {
+    const source = row.dimensionValues?.[0]?.value || "";
+    const medium = row.dimensionValues?.[1]?.value || "";
+    pairs.set(`${source}|${medium}`, {
+      source,
+      medium,
+      sessions: parseInt(row.metricValues?.[1]?.value || "0"),
+      conversions: parseInt(row.metricValues?.[2]?.value || "0"),
+    });
+  }
+  // Sources with lead events but no sessions in the top rows still reach the breakdown
+  for (const row of eventsResponse.rows || []) {
+    const source = row.dimensionValues?.[0]?.value || "";
+    const medium = row.dimensionValues?.[1]?.value || "";
+    const key = `${source}|${medium}`;
+    if (!pairs.has(key)) {
+      pairs.set(key, { source, medium, sessions: 0, conversions: 0 });
+    }
+  }
+
+  const traces = Array.from(pairs.values())
+    .filter(({ source }) => source && source !== "(not set)" && source !== "(none)")
+    .map((pair) => ({ ...explainSource(pair.source, pair.medium, options.property), ...pair }));
+
+  const rawSourcesByName = new Map<string, Set<string>>();
+  for (const trace of traces) {
+    const key = `${trace.category}|${trace.displayName}`;
+    rawSourcesByName.set(key, (rawSourcesByName.get(key) || new Set()).add(trace.source));
+  }
+
+  const data = traces
+    .map((trace) => ({
+      ...trace,
+      groupedWith: Array.from(rawSourcesByName.get(`${trace.category}|${trace.displayName}`)!).filter(
+        (source) => source !== trace.source
+      ),
+    }))
+    .sort((a, b) => b.sessions - a.sessions);
+
+  return { data, quality: mergeQuality(responseQuality(sourceResponse), responseQuality(eventsResponse)) };
+}
+
+export interface UnclassifiedSource {
+  source: string;
+  medium: string;
+  sessions: number;
+  leads: number;
+}
+
+// Source/medium pairs that no taxonomy rule matches, i.e. everything that
+// ends up in the fallback ("Other") category
+export async function getUnclassifiedSources(
+  dateRange: DateRange = { startDate: "90daysAgo", endDate: "yesterday" },
+  options: ReportOptions = {}
+): Promise<ReportResult<UnclassifiedSource[]>> {
+  const { propertyId, leadEvents } = getProperty(options.property);
+  const { fallbackCategory } = getChannelTaxonomy(options.property);
+
+  // Leads are the property's configured lead events, counted the same way as
+  // the weekly breakdown
+  const [sourceResponse, eventsResponse] = await Promise.all([
+    runPagedReport(sourceSessionsRequest(propertyId, dateRange), { filter: options.filter }),
+    runPagedReport(sourceEventsRequest(propertyId, dateRange, leadEvents), { filter: options.filter }),
+  ]);
+
+  const pairs = new Map<string, UnclassifiedSource>();
+  const pair = (source: string, medium: string) => {
+    const key = `${source}|${medium}`;
+    if (!pairs.has(key)) {
+      pairs.set(key, { source, medium, sessions: 0, leads: 0 });
+    }
+    return pairs.get(key)!;
+  };
+
+  for (const row of sourceResponse.rows || []) {
+    pair(row.dimensionValues?.[0]?.value || "", row.dimensionValues?.[1]?.value || "").sessions +=
+      parseInt(row.metricValues?.[1]?.value || "0");
+  }
+  for (const row of eventsResponse.rows || []) {
+    if (!leadEventName(leadEvents, row.dimensionValues?.[2]?.value || "")) continue;
+    pair(row.dimensionValues?.[0]?.value || "", row.dimensionValues?.[1]?.value || "").leads +=
+      parseInt(row.metricValues?.[0]?.value || "0");
+  }
+
+  const results = Array.from(pairs.values())
+    // Unattributed traffic isn't a source anyone can classify
+    .filter(({ source }) => !isUnattributedSource(source))
+    .filter(({ source, medium }) => classifySource(source, medium, options.property).category === fallbackCategory)
+    .sort((a, b) => b.sessions - a.sessions);
+
+  return { data: results, quality: mergeQuality(responseQuality(sourceResponse), responseQuality(eventsResponse)) };
+}
+
+export async function getConversionsByChannel(
+  dateRange: DateRange,
+  options: ReportOptions = {}
+): Promise<ReportResult<ConversionsByType>> {
+  const { propertyId, leadEvents } = getProperty(options.property);
+
+  const [channelResponse, eventsResponse, searchResponse] = await Promise.all([
+    // Get conversions by default channel group
+    runReport({
+      property: propertyId,
+      dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
+      dimensions: [{ name: "sessionDefaultChannelGroup" }],
+      metrics: [
+        { name: "activeUsers" },
+        { name: "sessions" },
+        { name: "conversions" },
+      ],
+      orderBys: [{ metric: { metricName: "conversions" }, desc: true }],
+    }, { filter: options.filter }),
+
+    // Get lead events by event name and channel - filter to only the configured lead events
+    runReport({
+      property: propertyId,
+      dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
+      dimensions: [{ name: "sessionDefaultChannelGroup" }, { name: "eventName" }],
+      metrics: [{ name: "eventCount" }],
+      dimensionFilter: leadEventFilter(leadEvents),
+    }, { filter: options.filter }),
+
+    // Get clicks data by channel (from Search Console if available)
+    runReport({
       property: propertyId,
       dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
       dimensions: [{ name: "sessionDefaultChannelGroup" }],
       metrics: [{ name: "organicGoogleSearchClicks" }],
-    });
+    }, { batch: false, filter: options.filter }).catch(() => null), // Search Console data may not be available
+  ]);
 
-    if (searchResponse.rows) {
-      for (const row of searchResponse.rows) {
-        const channel = row.dimensionValues?.[0]?.value || "";
-        const clicks = parseInt(row.metricValues?.[0]?.value || "0");
-        clicksByChannel.set(channel, clicks);
-      }
+  let clicksByChannel: Map<string, number> = new Map();
+  if (searchResponse?.rows) {
+    for (const row of searchResponse.rows) {
+      const channel = row.dimensionValues?.[0]?.value || "";
+      const clicks = parseInt(row.metricValues?.[0]?.value || "0");
+      clicksByChannel.set(channel, clicks);
     }
-  } catch {
-    // Search Console data may not be available
   }
 
-  // Process events to categorize form submissions and phone calls
-  const channelData: Map<string, { forms: number; phones: number }> = new Map();
-  let totalForms = 0;
-  let totalPhones = 0;
+  // Count lead events per channel and type
+  const channelData: Map<string, LeadCounts> = new Map();
+  const totalLeads = emptyLeadCounts(leadEvents);
 
   if (eventsResponse.rows) {
     for (const row of eventsResponse.rows) {
       const channel = row.dimensionValues?.[0]?.value || "";
-      const eventName = (row.dimensionValues?.[1]?.value || "").toLowerCase();
+      const eventName = leadEventName(leadEvents, row.dimensionValues?.[1]?.value || "");
       const count = parseInt(row.metricValues?.[0]?.value || "0");
+      if (!eventName) continue;
 
       if (!channelData.has(channel)) {
-        channelData.set(channel, { forms: 0, phones: 0 });
+        channelData.set(channel, emptyLeadCounts(leadEvents));
       }
 
-      const data = channelData.get(channel)!;
-
-      if (eventName === 'form') {
-        data.forms += count;
-        totalForms += count;
-      } else if (eventName === 'phone_call') {
-        data.phones += count;
-        totalPhones += count;
-      }
+      channelData.get(channel)![eventName] += count;
+      totalLeads[eventName] += count;
     }
   }
 
@@ -738,7 +959,7 @@ export async function getConversionsByChannel(dateRange: DateRange): Promise<Con
       const sessions = parseInt(row.metricValues?.[1]?.value || "0");
       const conversions = parseInt(row.metricValues?.[2]?.value || "0");
       const clicks = clicksByChannel.get(channel) || sessions; // Use sessions as proxy if no click data
-      const eventData = channelData.get(channel) || { forms: 0, phones: 0 };
+      const leads = channelData.get(channel) || emptyLeadCounts(leadEvents);
 
       totalConversions += conversions;
 
@@ -748,59 +969,72 @@ export async function getConversionsByChannel(dateRange: DateRange): Promise<Con
         sessions,
         clicks,
         conversions,
-        formSubmissions: eventData.forms,
-        phoneCalls: eventData.phones,
+        leads,
         clickToLeadRate: clicks > 0 ? (conversions / clicks) * 100 : 0,
       });
     }
   }
 
   return {
-    formSubmissions: totalForms,
-    phoneCalls: totalPhones,
-    totalConversions,
-    byChannel,
+    data: {
+      leads: totalLeads,
+      totalConversions,
+      byChannel,
+    },
+    quality: mergeQuality(responseQuality(channelResponse), responseQuality(eventsResponse), responseQuality(searchResponse)),
   };
 }
 
-export async function getWeeklyDashboardMetrics(dateRange: DateRange): Promise<{
-  totals: {
-    users: number;
-    newUsers: number;
-    sessions: number;
-    pageviews: number;
-    bounceRate: number;
-    engagementRate: number;
-    conversions: number;
-    impressions: number;
-    clicks: number;
-    ctr: number;
-    avgSessionDuration: number;
-  };
+export interface WeeklyTotals {
+  users: number;
+  newUsers: number;
+  sessions: number;
+  pageviews: number;
+  bounceRate: number;
+  engagementRate: number;
+  conversions: number;
+  impressions: number;
+  clicks: number;
+  ctr: number;
+  avgSessionDuration: number;
+}
+
+export interface SearchConsoleStatus {
+  // Whether GA answered the Search Console report at all
+  available: boolean;
+  error: string | null;
+  // Latest day with impressions; Search Console data arrives a few days late
+  lastDate: string | null;
+}
+
+export async function getWeeklyDashboardMetrics(dateRange: DateRange, options: ReportOptions = {}): Promise<ReportResult<{
+  totals: WeeklyTotals;
   daily: WeeklyMetrics[];
-}> {
-  // Fetch main metrics
-  const [mainResponse] = await analyticsDataClient.runReport({
-    property: propertyId,
-    dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
-    dimensions: [{ name: "date" }],
-    metrics: [
-      { name: "activeUsers" },
-      { name: "newUsers" },
-      { name: "sessions" },
-      { name: "screenPageViews" },
-      { name: "bounceRate" },
-      { name: "engagementRate" },
-      { name: "conversions" },
-      { name: "averageSessionDuration" },
-    ],
-    orderBys: [{ dimension: { dimensionName: "date" } }],
-  });
+  searchConsole: SearchConsoleStatus;
+}>> {
+  const { propertyId } = getProperty(options.property);
 
-  // Fetch Search Console metrics (if available)
-  let searchData: Map<string, { impressions: number; clicks: number; ctr: number }> = new Map();
-  try {
-    const [searchResponse] = await analyticsDataClient.runReport({
+  const [mainResponse, search] = await Promise.all([
+    // Fetch main metrics
+    runReport({
+      property: propertyId,
+      dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
+      dimensions: [{ name: "date" }],
+      metrics: [
+        { name: "activeUsers" },
+        { name: "newUsers" },
+        { name: "sessions" },
+        { name: "screenPageViews" },
+        { name: "bounceRate" },
+        { name: "engagementRate" },
+        { name: "conversions" },
+        { name: "averageSessionDuration" },
+      ],
+      orderBys: [{ dimension: { dimensionName: "date" } }],
+    }, { filter: options.filter }),
+
+    // Fetch Search Console metrics (if available)
+    runReport({
       property: propertyId,
       dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
       dimensions: [{ name: "date" }],
@@ -810,20 +1044,24 @@ export async function getWeeklyDashboardMetrics(dateRange: DateRange): Promise<{
         { name: "organicGoogleSearchClickThroughRate" },
       ],
       orderBys: [{ dimension: { dimensionName: "date" } }],
-    });
+    }, { batch: false, filter: options.filter }).then(
+      // Search Console data may not be available
+      (response) => ({ response, error: null }),
+      (error) => ({ response: null, error: error instanceof Error ? error.message : String(error) })
+    ),
+  ]);
+  const searchResponse = search.response;
 
-    if (searchResponse.rows) {
-      for (const row of searchResponse.rows) {
-        const date = formatDate(row.dimensionValues?.[0]?.value || "");
-        searchData.set(date, {
-          impressions: parseInt(row.metricValues?.[0]?.value || "0"),
-          clicks: parseInt(row.metricValues?.[1]?.value || "0"),
-          ctr: parseFloat(row.metricValues?.[2]?.value || "0") * 100,
-        });
-      }
+  let searchData: Map<string, { impressions: number; clicks: number; ctr: number }> = new Map();
+  if (searchResponse?.rows) {
+    for (const row of searchResponse.rows) {
+      const date = formatDate(row.dimensionValues?.[0]?.value || "");
+      searchData.set(date, {
+        impressions: parseInt(row.metricValues?.[0]?.value || "0"),
+        clicks: parseInt(row.metricValues?.[1]?.value || "0"),
+        ctr: parseFloat(row.metricValues?.[2]?.value || "0") * 100,
+      });
     }
-  } catch {
-    // Search Console data may not be available
   }
 
   const daily: WeeklyMetrics[] = [];
@@ -876,46 +1114,59 @@ export async function getWeeklyDashboardMetrics(dateRange: DateRange): Promise<{
   }
 
   return {
-    totals: {
-      users: totalUsers,
-      newUsers: totalNewUsers,
-      sessions: totalSessions,
-      pageviews: totalPageviews,
-      bounceRate: rowCount > 0 ? bounceRateSum / rowCount : 0,
-      engagementRate: rowCount > 0 ? engagementRateSum / rowCount : 0,
-      conversions: totalConversions,
-      impressions: totalImpressions,
-      clicks: totalClicks,
-      ctr: totalImpressions > 0 ? (totalClicks / totalImpressions) * 100 : 0,
-      avgSessionDuration: rowCount > 0 ? avgSessionDurationSum / rowCount : 0,
+    data: {
+      totals: {
+        users: totalUsers,
+        newUsers: totalNewUsers,
+        sessions: totalSessions,
+        pageviews: totalPageviews,
+        bounceRate: rowCount > 0 ? bounceRateSum / rowCount : 0,
+        engagementRate: rowCount > 0 ? engagementRateSum / rowCount : 0,
+        conversions: totalConversions,
+        impressions: totalImpressions,
+        clicks: totalClicks,
+        ctr: totalImpressions > 0 ? (totalClicks / totalImpressions) * 100 : 0,
+        avgSessionDuration: rowCount > 0 ? avgSessionDurationSum / rowCount : 0,
+      },
+      daily,
+      searchConsole: {
+        available: searchResponse !== null,
+        error: search.error,
+        lastDate: Array.from(searchData.entries())
+          .filter(([, day]) => day.impressions > 0)
+          .reduce<string | null>((last, [date]) => (!last || date > last ? date : last), null),
+      },
     },
-    daily,
+    quality: mergeQuality(responseQuality(mainResponse), responseQuality(searchResponse)),
   };
 }
 
-export async function getLeadsAndConversions(dateRange: DateRange): Promise<{
+export async function getLeadsAndConversions(dateRange: DateRange, options: ReportOptions = {}): Promise<ReportResult<{
   total: number;
   bySource: Array<{ source: string; leads: number }>;
   byDay: Array<{ date: string; leads: number }>;
-}> {
-  // Get conversions by source
-  const [bySourceResponse] = await analyticsDataClient.runReport({
-    property: propertyId,
-    dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
-    dimensions: [{ name: "sessionSource" }],
-    metrics: [{ name: "conversions" }],
-    orderBys: [{ metric: { metricName: "conversions" }, desc: true }],
-    limit: 10,
-  });
+}>> {
+  const { propertyId } = getProperty(options.property);
 
-  // Get conversions by day
-  const [byDayResponse] = await analyticsDataClient.runReport({
-    property: propertyId,
-    dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
-    dimensions: [{ name: "date" }],
-    metrics: [{ name: "conversions" }],
-    orderBys: [{ dimension: { dimensionName: "date" } }],
-  });
+  const [bySourceResponse, byDayResponse] = await Promise.all([
+    // Get conversions by source, every source
+    runPagedReport({
+      property: propertyId,
+      dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
+      dimensions: [{ name: "sessionSource" }],
+      metrics: [{ name: "conversions" }],
+      orderBys: [{ metric: { metricName: "conversions" }, desc: true }],
+    }, { filter: options.filter }),
+
+    // Get conversions by day
+    runReport({
+      property: propertyId,
+      dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
+      dimensions: [{ name: "date" }],
+      metrics: [{ name: "conversions" }],
+      orderBys: [{ dimension: { dimensionName: "date" } }],
+    }, { filter: options.filter }),
+  ]);
 
   const bySource = (bySourceResponse.rows || []).map((row) => ({
     source: row.dimensionValues?.[0]?.value || "Unknown",
@@ -929,21 +1180,26 @@ export async function getLeadsAndConversions(dateRange: DateRange): Promise<{
 
   const total = byDay.reduce((sum, day) => sum + day.leads, 0);
 
-  return { total, bySource, byDay };
+  return {
+    data: { total, bySource, byDay },
+    quality: mergeQuality(responseQuality(bySourceResponse), responseQuality(byDayResponse)),
+  };
 }
 
 export async function getTopPages(
   dateRange: DateRange,
-  limit: number = 10
-): Promise<TopPage[]> {
-  const [response] = await analyticsDataClient.runReport({
+  limit: number = 10,
+  options: ReportOptions = {}
+): Promise<ReportResult<TopPage[]>> {
+  const { propertyId } = getProperty(options.property);
+  // Large limits are fetched in pages
+  const response = await runPagedReport({
     property: propertyId,
     dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
     dimensions: [{ name: "pagePath" }, { name: "pageTitle" }],
     metrics: [{ name: "screenPageViews" }, { name: "averageSessionDuration" }],
     orderBys: [{ metric: { metricName: "screenPageViews" }, desc: true }],
-    limit,
-  });
+  }, { limit, filter: options.filter });
 
   const results: TopPage[] = [];
 
@@ -958,18 +1214,19 @@ export async function getTopPages(
     }
   }
 
-  return results;
+  return { data: results, quality: responseQuality(response, { limit }) };
 }
 
-export async function getTrafficSources(dateRange: DateRange): Promise<TrafficSource[]> {
-  const [response] = await analyticsDataClient.runReport({
+export async function getTrafficSources(dateRange: DateRange, options: ReportOptions = {}): Promise<ReportResult<TrafficSource[]>> {
+  const { propertyId } = getProperty(options.property);
+  const response = await runReport({
     property: propertyId,
     dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
     dimensions: [{ name: "sessionSource" }, { name: "sessionMedium" }],
     metrics: [{ name: "sessions" }, { name: "activeUsers" }],
     orderBys: [{ metric: { metricName: "sessions" }, desc: true }],
     limit: 20,
-  });
+  }, { filter: options.filter });
 
   const results: TrafficSource[] = [];
 
@@ -984,20 +1241,22 @@ export async function getTrafficSources(dateRange: DateRange): Promise<TrafficSo
     }
   }
 
-  return results;
+  // Only the top 20 sources are asked for
+  return { data: results, quality: responseQuality(response, { limit: 20 }) };
 }
 
 export async function comparePeriods(
   period1: DateRange,
-  period2: DateRange
-): Promise<{
+  period2: DateRange,
+  options: ReportOptions = {}
+): Promise<ReportResult<{
   period1: { users: number; sessions: number; pageviews: number };
   period2: { users: number; sessions: number; pageviews: number };
   changes: { users: number; sessions: number; pageviews: number };
-}> {
-  const [metrics1, metrics2] = await Promise.all([
-    getAggregatedMetrics(period1),
-    getAggregatedMetrics(period2),
+}>> {
+  const [{ data: metrics1, quality: quality1 }, { data: metrics2, quality: quality2 }] = await Promise.all([
+      getAggregatedMetrics(period1, options),
+      getAggregatedMetrics(period2, options),
   ]);
 
   const calculateChange = (current: number, previous: number): number => {
@@ -1006,47 +1265,53 @@ export async function comparePeriods(
   };
 
   return {
-    period1: {
-      users: metrics1.users,
-      sessions: metrics1.sessions,
-      pageviews: metrics1.pageviews,
-    },
-    period2: {
-      users: metrics2.users,
-      sessions: metrics2.sessions,
-      pageviews: metrics2.pageviews,
-    },
-    changes: {
-      users: calculateChange(metrics1.users, metrics2.users),
-      sessions: calculateChange(metrics1.sessions, metrics2.sessions),
-      pageviews: calculateChange(metrics1.pageviews, metrics2.pageviews),
+    data: {
+      period1: {
+        users: metrics1.users,
+        sessions: metrics1.sessions,
+        pageviews: metrics1.pageviews,
+      },
+      period2: {
+        users: metrics2.users,
+        sessions: metrics2.sessions,
+        pageviews: metrics2.pageviews,
+      },
+      changes: {
+        users: calculateChange(metrics1.users, metrics2.users),
+        sessions: calculateChange(metrics1.sessions, metrics2.sessions),
+        pageviews: calculateChange(metrics1.pageviews, metrics2.pageviews),
+      },
     },
+    quality: mergeQuality(quality1, quality2),
   };
 }
 
 export async function compareWithLastYear(
-  currentPeriod: DateRange
-): Promise<{
-  current: Awaited<ReturnType<typeof getWeeklyDashboardMetrics>>["totals"] & {
-    formSubmissions: number;
-    phoneCalls: number;
+  currentPeriod: DateRange,
+  options: ComparisonOptions = {}
+): Promise<ReportResult<{
+  current: WeeklyTotals & {
+    leads: LeadCounts;
     clickToLeadRate: number;
   };
-  lastYear: Awaited<ReturnType<typeof getWeeklyDashboardMetrics>>["totals"] & {
-    formSubmissions: number;
-    phoneCalls: number;
+  lastYear: WeeklyTotals & {
+    leads: LeadCounts;
     clickToLeadRate: number;
   };
   changes: Record<string, number>;
-}> {
-  const lastYearPeriod = getSameWeekLastYear(currentPeriod);
-
-  const [currentData, lastYearData, currentConversions, lastYearConversions] = await Promise.all([
-    getWeeklyDashboardMetrics(currentPeriod),
-    getWeeklyDashboardMetrics(lastYearPeriod),
-    getConversionsByChannel(currentPeriod),
-    getConversionsByChannel(lastYearPeriod),
+  // Change per lead event, keyed by event name
+  leadChanges: Record<string, number>;
+}>> {
+  const lastYearPeriod = getSameWeekLastYear(currentPeriod, options);
+
+  const results = await Promise.all([
+      getWeeklyDashboardMetrics(currentPeriod, options),
+      getWeeklyDashboardMetrics(lastYearPeriod, options),
+      getConversionsByChannel(currentPeriod, options),
+      getConversionsByChannel(lastYearPeriod, options),
   ]);
+  const [currentData, lastYearData] = [results[0].data, results[1].data];
+  const [currentConversions, lastYearConversions] = [results[2].data, results[3].data];
 
   const calculateChange = (curr: number, prev: number): number => {
     if (prev === 0) return curr > 0 ? 100 : 0;
@@ -1063,19 +1328,17 @@ export async function compareWithLastYear(
     ? (lastYearTotalLeads / lastYearData.totals.sessions) * 100
     : 0;
 
-  return {
+  const data = {
     current: {
       ...currentData.totals,
       conversions: currentTotalLeads,
-      formSubmissions: currentConversions.formSubmissions,
-      phoneCalls: currentConversions.phoneCalls,
+      leads: currentConversions.leads,
       clickToLeadRate: currentClickToLead,
     },
     lastYear: {
       ...lastYearData.totals,
       conversions: lastYearTotalLeads,
-      formSubmissions: lastYearConversions.formSubmissions,
-      phoneCalls: lastYearConversions.phoneCalls,
+      leads: lastYearConversions.leads,
       clickToLeadRate: lastYearClickToLead,
     },
     changes: {
@@ -1087,70 +1350,369 @@ export async function compareWithLastYear(
       impressions: calculateChange(currentData.totals.impressions, lastYearData.totals.impressions),
       clicks: calculateChange(currentData.totals.clicks, lastYearData.totals.clicks),
       ctr: calculateChange(currentData.totals.ctr, lastYearData.totals.ctr),
-      formSubmissions: calculateChange(currentConversions.formSubmissions, lastYearConversions.formSubmissions),
-      phoneCalls: calculateChange(currentConversions.phoneCalls, lastYearConversions.phoneCalls),
       clickToLeadRate: calculateChange(currentClickToLead, lastYearClickToLead),
     },
+    leadChanges: Object.fromEntries(
+      Object.keys(currentConversions.leads).map((name) => [
+        name,
+        calculateChange(currentConversions.leads[name], lastYearConversions.leads[name] || 0),
+      ])
+    ),
   };
+
+  return { data, quality: mergeQuality(...results.map((result) => result.quality)) };
 }
 
-export async function detectAnomalies(
-  metric: string,
-  threshold: number = 2
-): Promise<{
-  hasAnomaly: boolean;
-  anomalies: Array<{ date: string; value: number; deviation: number }>;
-}> {
-  const dateRange: DateRange = {
-    startDate: "30daysAgo",
-    endDate: "today",
-  };
+export interface AnomalyOptions extends ReportOptions {
+  // Days of history each day is compared with; defaults to 56 (8 weeks)
+  lookbackDays?: number;
+  // Complete days to check, ending yesterday; defaults to 28
+  days?: number;
+}
 
-  const metricMap: Record<string, string> = {
-    users: "activeUsers",
-    sessions: "sessions",
-    pageviews: "screenPageViews",
-    bounceRate: "bounceRate",
-  };
+export const DEFAULT_ANOMALY_DAYS = 28;
 
-  const gaMetric = metricMap[metric] || metric;
+// Short metric names the anomaly and alert tools accept; anything else is
+// passed to GA as is
+const METRIC_ALIASES: Record<string, string> = {
+  users: "activeUsers",
+  sessions: "sessions",
+  pageviews: "screenPageViews",
+  bounceRate: "bounceRate",
+};
 
-  const [response] = await analyticsDataClient.runReport({
+export interface DetectedAnomaly extends AnomalyPoint {
+  // Holidays or events on that date, if any
+  holiday?: string;
+}
+
+// Check the last complete days of a metric against each weekday's usual range
+// (see anomalies.ts). Today is left out: its data is still coming in.
+export async function detectAnomalies(
+  metric: string,
+  threshold: number = DEFAULT_ANOMALY_THRESHOLD,
+  options: AnomalyOptions = {}
+): Promise<ReportResult<{
+  hasAnomaly: boolean;
+  // Days checked, and the settings they were checked with
+  range: DateRange;
+  lookbackDays: number;
+  threshold: number;
+  // Every checked day with its expected band, oldest first
+  points: AnomalyPoint[];
+  anomalies: DetectedAnomaly[];
+}>> {
+  const { propertyId, timezone } = getProperty(options.property);
+  const lookbackDays = Math.min(Math.max(options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS, MIN_LOOKBACK_DAYS), MAX_LOOKBACK_DAYS);
+  const days = options.days ?? DEFAULT_ANOMALY_DAYS;
+
+  const endDate = addDays(dateInTimeZone(new Date(), timezone), -1);
+  const range: DateRange = { startDate: addDays(endDate, -(days - 1)), endDate };
+
+  const gaMetric = METRIC_ALIASES[metric] || metric;
+
+  const response = await runReport({
     property: propertyId,
-    dateRanges: [{ startDate: dateRange.startDate, endDate: dateRange.endDate }],
+    dateRanges: [{ startDate: addDays(range.startDate, -lookbackDays), endDate }],
     dimensions: [{ name: "date" }],
     metrics: [{ name: gaMetric }],
     orderBys: [{ dimension: { dimensionName: "date" } }],
+  }, { filter: options.filter });
+
+  const values = (response.rows || []).map((row) => ({
+    date: formatDate(row.dimensionValues?.[0]?.value || ""),
+    value: parseFloat(row.metricValues?.[0]?.value || "0"),
+  }));
+
+  const points = scoreDays(values, eachDate(range.startDate, range.endDate), {
+    lookbackDays,
+    threshold,
+    counts: String(response.metricHeaders?.[0]?.type || "TYPE_INTEGER") === "TYPE_INTEGER",
   });
 
-  const values: Array<{ date: string; value: number }> = [];
+  const anomalies = points
+    .filter((point) => point.isAnomaly)
+    .map((point) => {
+      const holidays = holidaysInRange({ startDate: point.date, endDate: point.date }, options.property);
+      return holidays.length > 0 ? { ...point, holiday: holidays.map((h) => h.name).join(", ") } : point;
+    });
 
-  if (response.rows) {
-    for (const row of response.rows) {
-      values.push({
-        date: formatDate(row.dimensionValues?.[0]?.value || ""),
-        value: parseFloat(row.metricValues?.[0]?.value || "0"),
-      });
+  return {
+    data: {
+      hasAnomaly: anomalies.length > 0,
+      range,
+      lookbackDays,
+      threshold,
+      points,
+      anomalies,
+    },
+    quality: responseQuality(response),
+  };
+}
+
+export const DEFAULT_LEAD_WINDOW_DAYS = 7;
+export const DEFAULT_TOP_SOURCES = 10;
+
+export interface LeadAnomalyOptions extends AnomalyOptions {
+  // Days summed into each compared window, ending yesterday; defaults to 7
+  windowDays?: number;
+  // Sources (by display name) with the most leads that are scanned one by
+  // one; defaults to 10
+  topSources?: number;
+}
+
+export interface LeadAnomaly extends AnomalyPoint {
+  scope: "site" | "category" | "source";
+  // Category id or source display name; empty for the whole site
+  key: string;
+  label: string;
+  eventName: string;
+  // Days the value covers; expected is for windows of the same length
+  // ending on the same weekday in earlier weeks
+  range: DateRange;
+  // Lead events above (positive) or below the expected value, and what
+  // they're worth when the event has a value
+  impact: number;
+  impactValue: number | null;
+  holiday?: string;
+}
+
+// Check each lead event's count over the last `windowDays` complete days for
+// the whole site, every channel category and the top sources. Anomalies are
+// ranked by business impact: events lost or gained, weighted by the lead's
+// value where one is configured.
+export async function scanLeadAnomalies(
+  threshold: number = DEFAULT_ANOMALY_THRESHOLD,
+  options: LeadAnomalyOptions = {}
+): Promise<ReportResult<{
+  hasAnomaly: boolean;
+  range: DateRange;
+  lookbackDays: number;
+  threshold: number;
+  // Series with enough history to be judged
+  scanned: number;
+  anomalies: LeadAnomaly[];
+}>> {
+  const { propertyId, timezone, leadEvents } = getProperty(options.property);
+  const categories = getChannelCategories(options.property);
+  const lookbackDays = Math.min(Math.max(options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS, MIN_LOOKBACK_DAYS), MAX_LOOKBACK_DAYS);
+  const windowDays = Math.min(Math.max(options.windowDays ?? DEFAULT_LEAD_WINDOW_DAYS, 1), 28);
+  const topSources = options.topSources ?? DEFAULT_TOP_SOURCES;
+
+  const endDate = addDays(dateInTimeZone(new Date(), timezone), -1);
+  const range: DateRange = { startDate: addDays(endDate, -(windowDays - 1)), endDate };
+  const historyStart = addDays(range.startDate, -lookbackDays);
+
+  const response = await runPagedReport({
+    property: propertyId,
+    dateRanges: [{ startDate: historyStart, endDate }],
+    dimensions: [{ name: "date" }, { name: "sessionSource" }, { name: "sessionMedium" }, { name: "eventName" }],
+    metrics: [{ name: "eventCount" }],
+    dimensionFilter: leadEventFilter(leadEvents),
+  }, { filter: options.filter });
+
+  // Daily counts per scope and lead event
+  const series = new Map<string, Pick<LeadAnomaly, "scope" | "key" | "label" | "eventName"> & { days: Map<string, number> }>();
+  const sourceLeads = new Map<string, number>();
+  const add = (scope: LeadAnomaly["scope"], key: string, label: string, eventName: string, date: string, count: number) => {
+    const id = `${scope}|${key}|${eventName}`;
+    if (!series.has(id)) {
+      series.set(id, { scope, key, label, eventName, days: new Map() });
     }
+    const days = series.get(id)!.days;
+    days.set(date, (days.get(date) || 0) + count);
+  };
+
+  for (const row of response.rows || []) {
+    const date = formatDate(row.dimensionValues?.[0]?.value || "");
+    const source = row.dimensionValues?.[1]?.value || "";
+    const medium = row.dimensionValues?.[2]?.value || "";
+    const eventName = leadEventName(leadEvents, row.dimensionValues?.[3]?.value || "");
+    const count = parseInt(row.metricValues?.[0]?.value || "0");
+    if (!eventName) continue;
+
+    add("site", "", "All traffic", eventName, date, count);
+    // Unattributed events only count towards the site
+    if (isUnattributedSource(source)) continue;
+
+    const { category, displayName } = classifySource(source, medium, options.property);
+    add("category", category, categories.find((c) => c.id === category)?.name || category, eventName, date, count);
+    add("source", displayName, displayName, eventName, date, count);
+    sourceLeads.set(displayName, (sourceLeads.get(displayName) || 0) + count);
   }
 
-  const numValues = values.map((v) => v.value);
-  const mean = numValues.reduce((a, b) => a + b, 0) / numValues.length;
-  const stdDev = Math.sqrt(
-    numValues.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / numValues.length
+  const scannedSources = new Set(
+    Array.from(sourceLeads.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, topSources)
+      .map(([name]) => name)
   );
 
-  const anomalies = values
-    .map((v) => ({
-      date: v.date,
-      value: v.value,
-      deviation: stdDev > 0 ? (v.value - mean) / stdDev : 0,
-    }))
-    .filter((v) => Math.abs(v.deviation) > threshold);
+  const holidays = holidaysInRange(range, options.property);
+  const anomalies: LeadAnomaly[] = [];
+  let scanned = 0;
+
+  for (const { days, ...target } of series.values()) {
+    if (target.scope === "source" && !scannedSources.has(target.key)) continue;
+
+    const sums = rollingSums(days, historyStart, endDate, windowDays);
+    const [point] = scoreDays(sums, [endDate], { lookbackDays, threshold, counts: true });
+    if (!point) continue;
+    scanned++;
+    if (!point.isAnomaly) continue;
+
+    const value = leadEvents.find((event) => event.name === target.eventName)?.value;
+    const impact = point.value - point.expected;
+    anomalies.push({
+      ...point,
+      ...target,
+      range,
+      impact,
+      impactValue: value !== undefined ? impact * value : null,
+      ...(holidays.length > 0 ? { holiday: holidays.map((h) => h.name).join(", ") } : {}),
+    });
+  }
+
+  const weight = (anomaly: LeadAnomaly) =>
+    Math.abs(anomaly.impact) * (leadEvents.find((event) => event.name === anomaly.eventName)?.value ?? 1);
+  anomalies.sort((a, b) => weight(b) - weight(a) || Math.abs(b.score) - Math.abs(a.score));
+
+  return {
+    data: { hasAnomaly: anomalies.length > 0, range, lookbackDays, threshold, scanned, anomalies },
+    quality: responseQuality(response),
+  };
+}
+
+export interface SeriesTarget {
+  // Metric alias (users, sessions, pageviews, bounceRate) or GA metric name
+  metric?: string;
+  // Lead event name from the property's leadEvents; counts eventCount
+  leadEvent?: string;
+}
+
+export interface SeriesScope {
+  // Channel category id from the property's taxonomy
+  category?: string;
+  // Source display name, as grouped by the taxonomy
+  source?: string;
+}
+
+// Daily values of one metric or lead event for the whole site, a channel
+// category or a source. Days without rows are 0. Rates can't be added up
+// across sources, so only count metrics can be scoped.
+export async function getDailySeries(
+  target: SeriesTarget,
+  scope: SeriesScope,
+  dateRange: DateRange,
+  options: ReportOptions = {}
+): Promise<ReportResult<{
+  values: DailyValue[];
+  // Whether the metric is a count (sums over days) rather than a rate
+  counts: boolean;
+}>> {
+  const { propertyId, leadEvents } = getProperty(options.property);
+  const scoped = Boolean(scope.category || scope.source);
+
+  if (target.leadEvent && !leadEvents.some((event) => event.name === target.leadEvent)) {
+    throw new Error(`Unknown lead event "${target.leadEvent}"`);
+  }
+
+  const response = await runPagedReport({
+    property: propertyId,
+    dateRanges: [dateRange],
+    dimensions: scoped
+      ? [{ name: "date" }, { name: "sessionSource" }, { name: "sessionMedium" }]
+      : [{ name: "date" }],
+    metrics: [{ name: target.leadEvent ? "eventCount" : METRIC_ALIASES[target.metric || ""] || target.metric || "" }],
+    ...(target.leadEvent
+      ? { dimensionFilter: { filter: { fieldName: "eventName", stringFilter: { matchType: "EXACT", value: target.leadEvent } } } }
+      : {}),
+  }, { filter: options.filter });
+
+  const counts = String(response.metricHeaders?.[0]?.type || "TYPE_INTEGER") === "TYPE_INTEGER";
+  if (scoped && !counts) {
+    throw new Error(`${target.metric} is a rate and can't be scoped to a category or source`);
+  }
+
+  const byDate = new Map<string, number>();
+  for (const row of response.rows || []) {
+    if (scoped) {
+      const source = row.dimensionValues?.[1]?.value || "";
+      if (isUnattributedSource(source)) continue;
+      const { category, displayName } = classifySource(source, row.dimensionValues?.[2]?.value || "", options.property);
+      if ((scope.category && category !== scope.category) || (scope.source && displayName !== scope.source)) continue;
+    }
+    const date = formatDate(row.dimensionValues?.[0]?.value || "");
+    byDate.set(date, (byDate.get(date) || 0) + parseFloat(row.metricValues?.[0]?.value || "0"));
+  }
 
   return {
-    hasAnomaly: anomalies.length > 0,
-    anomalies,
+    data: {
+      values: eachDate(dateRange.startDate, dateRange.endDate).map((date) => ({ date, value: byDate.get(date) ?? 0 })),
+      counts,
+    },
+    quality: responseQuality(response),
+  };
+}
+
+export interface LeadEventDays {
+  total: DailyValue[];
+  // Events GA reports without a source ("(not set)")
+  unattributed: DailyValue[];
+}
+
+// Daily sessions and daily counts of every lead event, with the share GA
+// couldn't attribute to a source. Days without rows are 0.
+export async function getLeadEventDays(dateRange: DateRange, options: ReportOptions = {}): Promise<ReportResult<{
+  sessions: DailyValue[];
+  events: Record<string, LeadEventDays>;
+}>> {
+  const { propertyId, leadEvents } = getProperty(options.property);
+  const dates = eachDate(dateRange.startDate, dateRange.endDate);
+
+  const [sessionsResponse, eventsResponse] = await Promise.all([
+    runReport({
+      property: propertyId,
+      dateRanges: [dateRange],
+      dimensions: [{ name: "date" }],
+      metrics: [{ name: "sessions" }],
+    }, { filter: options.filter }),
+    runPagedReport({
+      property: propertyId,
+      dateRanges: [dateRange],
+      dimensions: [{ name: "date" }, { name: "sessionSource" }, { name: "eventName" }],
+      metrics: [{ name: "eventCount" }],
+      dimensionFilter: leadEventFilter(leadEvents),
+    }, { filter: options.filter }),
+  ]);
+
+  const sessions = new Map<string, number>();
+  for (const row of sessionsResponse.rows || []) {
+    sessions.set(formatDate(row.dimensionValues?.[0]?.value || ""), parseInt(row.metricValues?.[0]?.value || "0"));
+  }
+
+  const counts = new Map(leadEvents.map((event) => [event.name, { total: new Map<string, number>(), unattributed: new Map<string, number>() }]));
+  for (const row of eventsResponse.rows || []) {
+    const eventName = leadEventName(leadEvents, row.dimensionValues?.[2]?.value || "");
+    if (!eventName) continue;
+    const date = formatDate(row.dimensionValues?.[0]?.value || "");
+    const count = parseInt(row.metricValues?.[0]?.value || "0");
+    const event = counts.get(eventName)!;
+    event.total.set(date, (event.total.get(date) || 0) + count);
+    if (isUnattributedSource(row.dimensionValues?.[1]?.value || "")) {
+      event.unattributed.set(date, (event.unattributed.get(date) || 0) + count);
+    }
+  }
+
+  const toDays = (values: Map<string, number>) => dates.map((date) => ({ date, value: values.get(date) ?? 0 }));
+  return {
+    data: {
+      sessions: toDays(sessions),
+      events: Object.fromEntries(
+        Array.from(counts.entries()).map(([name, event]) => [name, { total: toDays(event.total), unattributed: toDays(event.unattributed) }])
+      ),
+    },
+    quality: mergeQuality(responseQuality(sessionsResponse), responseQuality(eventsResponse)),
   };
 }
 
@@ -0,0 +1,137 @@
+import { addDays, daysBetween, dayOfWeek, type CalendarRange } from "./dates";
+import { getProperty } from "./properties";
+
+// A built-in holiday: a fixed date, or the nth weekday of a month (nth -1 is
+// the last one). The affected window runs from daysBefore to daysAfter
+// around the holiday itself.
+interface HolidayRule {
+  id: string;
+  name: string;
+  month: number;
+  day?: number;
+  weekday?: number;
+  nth?: number;
+  daysBefore?: number;
+  daysAfter?: number;
+}
+
+const US_HOLIDAYS: HolidayRule[] = [
+  { id: "new-years-day", name: "New Year's Day", month: 1, day: 1, daysBefore: 1 },
+  { id: "mlk-day", name: "Martin Luther King Jr. Day", month: 1, weekday: 1, nth: 3 },
+  { id: "presidents-day", name: "Presidents' Day", month: 2, weekday: 1, nth: 3 },
+  { id: "memorial-day", name: "Memorial Day", month: 5, weekday: 1, nth: -1, daysBefore: 2 },
+  { id: "juneteenth", name: "Juneteenth", month: 6, day: 19 },
+  { id: "independence-day", name: "Independence Day", month: 7, day: 4, daysBefore: 1, daysAfter: 1 },
+  { id: "labor-day", name: "Labor Day", month: 9, weekday: 1, nth: 1, daysBefore: 2 },
+  // Wednesday to Sunday: the whole long weekend is slow
+  { id: "thanksgiving", name: "Thanksgiving", month: 11, weekday: 4, nth: 4, daysBefore: 1, daysAfter: 3 },
+  { id: "christmas", name: "Christmas", month: 12, day: 25, daysBefore: 1, daysAfter: 1 },
+];
+
+export interface HolidayOccurrence {
+  // Same id in every year, e.g. "thanksgiving"
+  id: string;
+  name: string;
+  // Year the holiday belongs to; New Year's window starts the year before
+  year: number;
+  // Affected window, inclusive
+  startDate: string;
+  endDate: string;
+  custom: boolean;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function ruleDate(rule: HolidayRule, year: number): string {
+  if (rule.day !== undefined) {
+    return `${year}-${pad(rule.month)}-${pad(rule.day)}`;
+  }
+
+  const weekday = rule.weekday ?? 1;
+  if ((rule.nth ?? 1) < 0) {
+    const lastDay = new Date(Date.UTC(year, rule.month, 0)).getUTCDate();
+    const last = `${year}-${pad(rule.month)}-${pad(lastDay)}`;
+    return addDays(last, -((dayOfWeek(last) - weekday + 7) % 7));
+  }
+  const first = `${year}-${pad(rule.month)}-01`;
+  const firstMatch = addDays(first, (weekday - dayOfWeek(first) + 7) % 7);
+  return addDays(firstMatch, ((rule.nth ?? 1) - 1) * 7);
+}
+
+function holidaysForYear(year: number, propertyKey?: string | null): HolidayOccurrence[] {
+  const { holidays = [], usHolidays = true } = getProperty(propertyKey);
+
+  const builtIn = usHolidays
+    ? US_HOLIDAYS.map((rule) => {
+        const date = ruleDate(rule, year);
+        return {
+          id: rule.id,
+          name: rule.name,
+          year,
+          startDate: addDays(date, -(rule.daysBefore ?? 0)),
+          endDate: addDays(date, rule.daysAfter ?? 0),
+          custom: false,
+        };
+      })
+    : [];
+
+  const custom = holidays
+    .filter((holiday) => holiday.startDate.startsWith(`${year}-`))
+    .map((holiday) => ({
+      id: holiday.id,
+      name: holiday.name,
+      year,
+      startDate: holiday.startDate,
+      endDate: holiday.endDate || holiday.startDate,
+      custom: true,
+    }));
+
+  return [...builtIn, ...custom];
+}
+
+function overlapDays(a: CalendarRange, b: CalendarRange): number {
+  const start = a.startDate > b.startDate ? a.startDate : b.startDate;
+  const end = a.endDate < b.endDate ? a.endDate : b.endDate;
+  return end < start ? 0 : daysBetween(start, end) + 1;
+}
+
+// Holidays and custom events whose window overlaps a date range
+export function holidaysInRange(range: CalendarRange, propertyKey?: string | null): HolidayOccurrence[] {
+  const firstYear = parseInt(range.startDate.slice(0, 4));
+  const lastYear = parseInt(range.endDate.slice(0, 4));
+
+  const occurrences: HolidayOccurrence[] = [];
+  // Windows can cross into a neighbouring year (New Year's Eve)
+  for (let year = firstYear - 1; year <= lastYear + 1; year++) {
+    occurrences.push(...holidaysForYear(year, propertyKey).filter((holiday) => overlapDays(holiday, range) > 0));
+  }
+  return occurrences.sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+// Last year's period lined up on the holiday that most affects this one, so
+// Thanksgiving week is compared with Thanksgiving week. Null when the period
+// has no holiday, or its holidays didn't happen last year.
+export function holidayAlignedRange(
+  range: CalendarRange,
+  propertyKey?: string | null
+): { range: CalendarRange; holiday: HolidayOccurrence; lastYearHoliday: HolidayOccurrence } | null {
+  const candidates = holidaysInRange(range, propertyKey).sort(
+    (a, b) => overlapDays(b, range) - overlapDays(a, range)
+  );
+
+  for (const holiday of candidates) {
+    const lastYearHoliday = holidaysForYear(holiday.year - 1, propertyKey).find((h) => h.id === holiday.id);
+    if (!lastYearHoliday) continue;
+
+    const offset = daysBetween(holiday.startDate, lastYearHoliday.startDate);
+    return {
+      range: { startDate: addDays(range.startDate, offset), endDate: addDays(range.endDate, offset) },
+      holiday,
+      lastYearHoliday,
+    };
+  }
+
+  return null;
+}
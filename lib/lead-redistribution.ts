@@ -0,0 +1,127 @@
+// Lead events GA couldn't tie to a session source arrive as "(not set)". These
+// strategies decide where they show up in the channel breakdown:
+// - proportional: spread over sources by this period's sessions
+// - historical: spread by each source's share of that event over the history window
+// - direct: all to (direct) / (none)
+// - unattributed: keep them as an explicit Unattributed row
+export const REDISTRIBUTION_STRATEGIES = ["proportional", "historical", "direct", "unattributed"] as const;
+
+export type RedistributionStrategy = (typeof REDISTRIBUTION_STRATEGIES)[number];
+
+export const DEFAULT_REDISTRIBUTION: RedistributionStrategy = "proportional";
+
+export function isRedistributionStrategy(value: unknown): value is RedistributionStrategy {
+  return REDISTRIBUTION_STRATEGIES.includes(value as RedistributionStrategy);
+}
+
+export interface RedistributionSource {
+  source: string;
+  medium: string;
+  sessions: number;
+}
+
+export interface RedistributionMove {
+  source: string;
+  medium: string;
+  // Events added to this source, by lead event name
+  leads: Record<string, number>;
+}
+
+export interface RedistributionAudit {
+  strategy: RedistributionStrategy;
+  // "(not set)" events found, by lead event name
+  unattributed: Record<string, number>;
+  moves: RedistributionMove[];
+  // Events left on the Unattributed row
+  remaining: Record<string, number>;
+  // Lead events that used another strategy because the chosen one had
+  // nothing to go on (no history, no sessions)
+  fallbacks: Record<string, RedistributionStrategy>;
+}
+
+// Split a whole number of events by weight using largest remainders, so the
+// shares always add up to the total
+export function apportion(total: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, weight) => sum + Math.max(weight, 0), 0);
+  if (total <= 0 || weightSum <= 0) return weights.map(() => 0);
+
+  const exact = weights.map((weight) => (total * Math.max(weight, 0)) / weightSum);
+  const shares = exact.map(Math.floor);
+  const left = total - shares.reduce((sum, share) => sum + share, 0);
+
+  const order = exact
+    .map((value, i) => ({ i, remainder: value - shares[i] }))
+    .sort((a, b) => b.remainder - a.remainder || weights[b.i] - weights[a.i] || a.i - b.i);
+  for (let j = 0; j < left; j++) {
+    shares[order[j].i]++;
+  }
+
+  return shares;
+}
+
+const DIRECT_SOURCE = { source: "(direct)", medium: "(none)" };
+
+// Work out where each "(not set)" event goes. `history` holds lead counts per
+// "source|medium" key for the historical strategy; sources with no history
+// get no share.
+export function redistributeLeads(
+  unattributed: Record<string, number>,
+  sources: RedistributionSource[],
+  strategy: RedistributionStrategy,
+  history: Map<string, Record<string, number>> = new Map()
+): RedistributionAudit {
+  const moves = new Map<string, RedistributionMove>();
+  const remaining: Record<string, number> = {};
+  const fallbacks: Record<string, RedistributionStrategy> = {};
+
+  const addMove = (source: string, medium: string, eventName: string, count: number) => {
+    if (count === 0) return;
+    const key = `${source}|${medium}`;
+    if (!moves.has(key)) {
+      moves.set(key, { source, medium, leads: {} });
+    }
+    const move = moves.get(key)!;
+    move.leads[eventName] = (move.leads[eventName] || 0) + count;
+  };
+
+  for (const [eventName, count] of Object.entries(unattributed)) {
+    remaining[eventName] = 0;
+    if (count === 0) continue;
+
+    let used = strategy;
+    let weights: number[] | null = null;
+
+    if (used === "historical") {
+      weights = sources.map((s) => history.get(`${s.source}|${s.medium}`)?.[eventName] || 0);
+      if (!weights.some((weight) => weight > 0)) {
+        used = "proportional";
+      }
+    }
+    if (used === "proportional") {
+      weights = sources.map((s) => s.sessions);
+      if (!weights.some((weight) => weight > 0)) {
+        used = "unattributed";
+      }
+    }
+    if (used !== strategy) {
+      fallbacks[eventName] = used;
+    }
+
+    if (used === "direct") {
+      addMove(DIRECT_SOURCE.source, DIRECT_SOURCE.medium, eventName, count);
+    } else if (used === "unattributed") {
+      remaining[eventName] = count;
+    } else {
+      const shares = apportion(count, weights!);
+      sources.forEach((s, i) => addMove(s.source, s.medium, eventName, shares[i]));
+    }
+  }
+
+  return {
+    strategy,
+    unattributed: { ...unattributed },
+    moves: Array.from(moves.values()),
+    remaining,
+    fallbacks,
+  };
+}
@@ -0,0 +1,152 @@
+import fs from "fs";
+import path from "path";
+import { isRedistributionStrategy, type RedistributionStrategy } from "./lead-redistribution";
+
+export interface LeadEventDefinition {
+  // GA4 event name, e.g. "form" or "booking"
+  name: string;
+  label: string;
+  icon?: string;
+  // Worth of one lead in the property's currency; totals show a lead value
+  // when any event has one
+  value?: number;
+}
+
+// What every property tracked before lead events were configurable
+const DEFAULT_LEAD_EVENTS: LeadEventDefinition[] = [
+  { name: "form", label: "Form Submissions", icon: "📝" },
+  { name: "phone_call", label: "Phone Calls", icon: "📞" },
+];
+
+// A custom holiday or event, e.g. an annual sale. Entries with the same id in
+// different years are treated as the same event when comparing years.
+export interface CustomHoliday {
+  id: string;
+  name: string;
+  startDate: string;
+  // Defaults to startDate
+  endDate?: string;
+}
+
+export interface PropertyConfig {
+  // Short key used in URLs and the property selector
+  id: string;
+  name: string;
+  // GA4 resource name, e.g. "properties/123456789"
+  propertyId: string;
+  // IANA reporting timezone of the GA property
+  timezone: string;
+  // Channel taxonomy file for this client; defaults to config/channel-taxonomy.json
+  taxonomy?: string;
+  // Events counted as leads, in display order
+  leadEvents: LeadEventDefinition[];
+  // Where "(not set)" lead events go in the channel breakdown; defaults to
+  // proportional
+  leadRedistribution?: RedistributionStrategy;
+  // Include the built-in US holidays in the holiday calendar; defaults to true
+  usHolidays?: boolean;
+  holidays?: CustomHoliday[];
+}
+
+interface PropertiesFile {
+  properties: PropertyConfig[];
+}
+
+let cachedProperties: PropertyConfig[] | null = null;
+
+function loadProperties(): PropertyConfig[] {
+  const configPath = path.join(
+    process.cwd(),
+    process.env.PROPERTIES_CONFIG || "config/properties.json"
+  );
+
+  // Single-site deployments can keep using GA_PROPERTY_ID without a config file
+  if (!fs.existsSync(configPath)) {
+    return [
+      {
+        id: "default",
+        name: "Default Property",
+        propertyId: process.env.GA_PROPERTY_ID || "",
+        timezone: process.env.GA_PROPERTY_TIMEZONE || "UTC",
+        leadEvents: DEFAULT_LEAD_EVENTS,
+      },
+    ];
+  }
+
+  const file: PropertiesFile = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  if (!Array.isArray(file.properties) || file.properties.length === 0) {
+    throw new Error(`${configPath} must list at least one property`);
+  }
+
+  const seen = new Set<string>();
+  for (const property of file.properties) {
+    if (!property.id || !property.propertyId?.startsWith("properties/")) {
+      throw new Error(`Invalid property entry in ${configPath}: ${JSON.stringify(property)}`);
+    }
+    if (seen.has(property.id)) {
+      throw new Error(`Duplicate property id "${property.id}" in ${configPath}`);
+    }
+    seen.add(property.id);
+
+    for (const event of property.leadEvents || []) {
+      if (!event.name || !event.label || (event.value !== undefined && typeof event.value !== "number")) {
+        throw new Error(`Invalid lead event for property "${property.id}" in ${configPath}: ${JSON.stringify(event)}`);
+      }
+    }
+    for (const holiday of property.holidays || []) {
+      const isDate = (value: unknown) => typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+      if (
+        !holiday.id ||
+        !holiday.name ||
+        !isDate(holiday.startDate) ||
+        (holiday.endDate !== undefined && (!isDate(holiday.endDate) || holiday.endDate < holiday.startDate))
+      ) {
+        throw new Error(`Invalid holiday for property "${property.id}" in ${configPath}: ${JSON.stringify(holiday)}`);
+      }
+    }
+    if (property.leadRedistribution !== undefined && !isRedistributionStrategy(property.leadRedistribution)) {
+      throw new Error(`Unknown leadRedistribution "${property.leadRedistribution}" for property "${property.id}" in ${configPath}`);
+    }
+  }
+
+  return file.properties.map((property) => ({
+    ...property,
+    name: property.name || property.id,
+    timezone: property.timezone || "UTC",
+    leadEvents: property.leadEvents?.length ? property.leadEvents : DEFAULT_LEAD_EVENTS,
+  }));
+}
+
+export function getProperties(): PropertyConfig[] {
+  if (!cachedProperties) {
+    cachedProperties = loadProperties();
+  }
+  return cachedProperties;
+}
+
+// Thrown for a property key that isn't in the config; the API turns it into
+// a 400
+export class UnknownPropertyError extends Error {
+  constructor(id: string) {
+    super(`Unknown property "${id}"`);
+    this.name = "UnknownPropertyError";
+  }
+}
+
+// Look up a property by its key; the first configured property is the default
+export function getProperty(id?: string | null): PropertyConfig {
+  const properties = getProperties();
+  if (!id) return properties[0];
+
+  const property = properties.find((p) => p.id === id);
+  if (!property) {
+    throw new UnknownPropertyError(id);
+  }
+  return property;
+}
+
+// Reporting timezone for a GA resource name ("properties/123"); UTC for
+// properties that aren't configured
+export function getPropertyTimeZone(propertyId?: string | null): string {
+  return getProperties().find((p) => p.propertyId === propertyId)?.timezone || "UTC";
+}
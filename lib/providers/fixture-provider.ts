@@ -0,0 +1,550 @@
+import fs from "fs";
+import path from "path";
+import { protos } from "@google-analytics/data";
+import type { AnalyticsProvider, ReportRequest, ReportResponse } from "../analytics-provider";
+import { eachDate, isoWeek, resolveGADate, toISODate } from "../dates";
+
+type FilterExpression = protos.google.analytics.data.v1beta.IFilterExpression;
+type Filter = protos.google.analytics.data.v1beta.IFilter;
+
+// Shape of the fixture file. Instead of storing every report row, the file
+// describes a site (traffic per source, lead rates, pages) and the provider
+// expands it into deterministic daily rows for whatever range is asked for.
+export interface FixtureModel {
+  seed: number;
+  timeZone?: string;
+  currencyCode?: string;
+  // Multiplier per weekday, Sunday first
+  weekdayFactors: number[];
+  // Year-over-year traffic growth, e.g. 0.1 for +10%
+  yearlyGrowth: number;
+  // Relative day-to-day noise, e.g. 0.15 for ±15%
+  noise: number;
+  behaviour: {
+    usersPerSession: number;
+    newUserShare: number;
+    engagementRate: number;
+    pageviewsPerSession: number;
+    secondsPerSession: number;
+  };
+  sources: Array<{
+    source: string;
+    medium: string;
+    channelGroup: string;
+    // Mean sessions on an average weekday
+    sessions: number;
+    // Expected lead events per session, keyed by event name
+    leadRates?: Record<string, number>;
+    // Present for sources backed by Search Console data; every session counts
+    // as a click and impressions scale from there
+    search?: { impressionsPerClick: number };
+  }>;
+  // Mean lead events per day that GA reports with a (not set) source
+  unattributedLeads?: Record<string, number>;
+  pages: Array<{ path: string; title: string; weight: number }>;
+  leadPagePath: string;
+  // Optional GA data-quality flags, so the dashboard's warnings can be seen
+  // offline
+  dataQuality?: {
+    // Reports covering more days than this come back sampled at samplingRate
+    samplingAfterDays?: number;
+    samplingRate?: number;
+    // Reports using any of these dimensions are subject to thresholding
+    thresholdedDimensions?: string[];
+  };
+}
+
+interface Fact {
+  dimensions: Record<string, string>;
+  metrics: Record<string, number>;
+}
+
+const ADDITIVE_METRICS = [
+  "activeUsers",
+  "newUsers",
+  "sessions",
+  "engagedSessions",
+  "screenPageViews",
+  "eventCount",
+  "conversions",
+  "userEngagementDuration",
+  "organicGoogleSearchImpressions",
+  "organicGoogleSearchClicks",
+];
+
+// Ratio metrics are derived from the additive totals after aggregation
+const DERIVED_METRICS: Record<string, (m: Record<string, number>) => number> = {
+  bounceRate: (m) => (m.sessions > 0 ? 1 - m.engagedSessions / m.sessions : 0),
+  engagementRate: (m) => (m.sessions > 0 ? m.engagedSessions / m.sessions : 0),
+  averageSessionDuration: (m) => (m.sessions > 0 ? m.userEngagementDuration / m.sessions : 0),
+  organicGoogleSearchClickThroughRate: (m) =>
+    m.organicGoogleSearchImpressions > 0
+      ? m.organicGoogleSearchClicks / m.organicGoogleSearchImpressions
+      : 0,
+};
+
+const KNOWN_DIMENSIONS = [
+  "date",
+  "dateRange",
+  "isoYearIsoWeek",
+  "sessionSource",
+  "sessionMedium",
+  "sessionSourceMedium",
+  "sessionDefaultChannelGroup",
+  "eventName",
+  "pagePath",
+  "pageTitle",
+  "landingPage",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Small deterministic PRNG so the same day always produces the same numbers
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function createRandom(seed: number): () => number {
+  let state = seed || 1;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function poisson(mean: number, random: () => number): number {
+  if (mean <= 0) return 0;
+  // Normal approximation keeps large means cheap
+  if (mean > 30) {
+    const u = Math.max(random(), 1e-9);
+    const v = random();
+    const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    return Math.max(0, Math.round(mean + z * Math.sqrt(mean)));
+  }
+  const limit = Math.exp(-mean);
+  let k = 0;
+  let p = 1;
+  do {
+    k++;
+    p *= random();
+  } while (p > limit);
+  return k - 1;
+}
+
+function matchesFilter(filter: Filter, value: string | number): boolean {
+  const text = String(value);
+
+  if (filter.stringFilter) {
+    const caseSensitive = filter.stringFilter.caseSensitive ?? false;
+    const target = caseSensitive ? text : text.toLowerCase();
+    const expected = caseSensitive
+      ? filter.stringFilter.value || ""
+      : (filter.stringFilter.value || "").toLowerCase();
+
+    switch (filter.stringFilter.matchType) {
+      case "BEGINS_WITH":
+        return target.startsWith(expected);
+      case "ENDS_WITH":
+        return target.endsWith(expected);
+      case "CONTAINS":
+        return target.includes(expected);
+      case "FULL_REGEXP":
+        return new RegExp(`^(?:${filter.stringFilter.value})$`, caseSensitive ? "" : "i").test(text);
+      case "PARTIAL_REGEXP":
+        return new RegExp(filter.stringFilter.value || "", caseSensitive ? "" : "i").test(text);
+      default:
+        return target === expected;
+    }
+  }
+
+  if (filter.inListFilter) {
+    const caseSensitive = filter.inListFilter.caseSensitive ?? false;
+    const values = (filter.inListFilter.values || []).map((v) => (caseSensitive ? v : v.toLowerCase()));
+    return values.includes(caseSensitive ? text : text.toLowerCase());
+  }
+
+  const numberValue = (v?: protos.google.analytics.data.v1beta.INumericValue | null): number =>
+    Number(v?.doubleValue ?? v?.int64Value ?? 0);
+
+  if (filter.numericFilter) {
+    const actual = Number(value);
+    const expected = numberValue(filter.numericFilter.value);
+    switch (filter.numericFilter.operation) {
+      case "LESS_THAN":
+        return actual < expected;
+      case "LESS_THAN_OR_EQUAL":
+        return actual <= expected;
+      case "GREATER_THAN":
+        return actual > expected;
+      case "GREATER_THAN_OR_EQUAL":
+        return actual >= expected;
+      default:
+        return actual === expected;
+    }
+  }
+
+  if (filter.betweenFilter) {
+    const actual = Number(value);
+    return (
+      actual >= numberValue(filter.betweenFilter.fromValue) &&
+      actual <= numberValue(filter.betweenFilter.toValue)
+    );
+  }
+
+  if (filter.emptyFilter) {
+    return text === "" || text === "(not set)";
+  }
+
+  return true;
+}
+
+function evaluateFilter(
+  expression: FilterExpression | null | undefined,
+  lookup: (fieldName: string) => string | number
+): boolean {
+  if (!expression) return true;
+  if (expression.andGroup) {
+    return (expression.andGroup.expressions || []).every((e) => evaluateFilter(e, lookup));
+  }
+  if (expression.orGroup) {
+    return (expression.orGroup.expressions || []).some((e) => evaluateFilter(e, lookup));
+  }
+  if (expression.notExpression) {
+    return !evaluateFilter(expression.notExpression, lookup);
+  }
+  if (expression.filter) {
+    return matchesFilter(expression.filter, lookup(expression.filter.fieldName || ""));
+  }
+  return true;
+}
+
+export function createFixtureProvider(fixtureFile: string): AnalyticsProvider {
+  const filePath = path.isAbsolute(fixtureFile) ? fixtureFile : path.join(process.cwd(), fixtureFile);
+  const model: FixtureModel = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  const factCache = new Map<string, Fact[]>();
+  // Simulated quota counters so the quota panel works offline
+  const quotaUsage = new Map<string, { hour: string; hourTokens: number; day: string; dayTokens: number }>();
+
+  const pageWeightTotal = model.pages.reduce((sum, p) => sum + p.weight, 0);
+
+  function buildFacts(property: string, date: string, today: string): Fact[] {
+    const cacheKey = `${property}|${date}|${date === today ? new Date().getUTCHours() : ""}`;
+    const cached = factCache.get(cacheKey);
+    if (cached) return cached;
+
+    const day = new Date(`${date}T00:00:00Z`);
+    const weekday = model.weekdayFactors[day.getUTCDay()] ?? 1;
+    const yearsFromNow = (day.getTime() - Date.now()) / (365 * DAY_MS);
+    const growth = Math.pow(1 + model.yearlyGrowth, yearsFromNow);
+    // Today is only partially collected, like in GA
+    const completeness = date === today ? Math.max(new Date().getUTCHours(), 1) / 24 : 1;
+    const dateValue = date.replace(/-/g, "");
+    const week = isoWeek(date);
+    const isoYearIsoWeek = `${week.year}${String(week.week).padStart(2, "0")}`;
+    const { behaviour } = model;
+
+    const facts: Fact[] = [];
+
+    for (const source of model.sources) {
+      const random = createRandom(hashString(`${model.seed}|${property}|${date}|${source.source}|${source.medium}`));
+      const jitter = 1 + (random() * 2 - 1) * model.noise;
+      const sessions = poisson(source.sessions * weekday * growth * jitter * completeness, random);
+      const baseDimensions = {
+        date: dateValue,
+        isoYearIsoWeek,
+        sessionSource: source.source,
+        sessionMedium: source.medium,
+        sessionSourceMedium: `${source.source} / ${source.medium}`,
+        sessionDefaultChannelGroup: source.channelGroup,
+      };
+
+      if (sessions > 0) {
+        facts.push({
+          dimensions: { ...baseDimensions, eventName: "session_start", pagePath: model.pages[0].path, pageTitle: model.pages[0].title, landingPage: model.pages[0].path },
+          metrics: { eventCount: sessions },
+        });
+      }
+
+      // Sessions are spread across landing pages by weight
+      let remaining = sessions;
+      model.pages.forEach((page, index) => {
+        const pageSessions = index === model.pages.length - 1
+          ? remaining
+          : Math.min(remaining, Math.round((sessions * page.weight) / pageWeightTotal));
+        remaining -= pageSessions;
+        if (pageSessions <= 0) return;
+
+        const engaged = Math.round(pageSessions * behaviour.engagementRate * (0.9 + random() * 0.2));
+        const users = Math.max(1, Math.round(pageSessions * behaviour.usersPerSession));
+        const pageviews = Math.round(pageSessions * behaviour.pageviewsPerSession * (0.9 + random() * 0.2));
+        const metrics: Record<string, number> = {
+          activeUsers: users,
+          newUsers: Math.round(users * behaviour.newUserShare),
+          sessions: pageSessions,
+          engagedSessions: engaged,
+          screenPageViews: pageviews,
+          eventCount: pageviews,
+          conversions: 0,
+          userEngagementDuration: Math.round(pageSessions * behaviour.secondsPerSession * (0.8 + random() * 0.4)),
+        };
+
+        if (source.search) {
+          metrics.organicGoogleSearchClicks = pageSessions;
+          metrics.organicGoogleSearchImpressions = Math.round(pageSessions * source.search.impressionsPerClick);
+        }
+
+        facts.push({
+          dimensions: { ...baseDimensions, eventName: "page_view", pagePath: page.path, pageTitle: page.title, landingPage: page.path },
+          metrics,
+        });
+      });
+
+      for (const [eventName, rate] of Object.entries(source.leadRates || {})) {
+        const count = poisson(sessions * rate, random);
+        if (count === 0) continue;
+        facts.push({
+          dimensions: { ...baseDimensions, eventName, pagePath: model.leadPagePath, pageTitle: "", landingPage: model.leadPagePath },
+          metrics: { eventCount: count, conversions: count },
+        });
+      }
+    }
+
+    const unattributedRandom = createRandom(hashString(`${model.seed}|${property}|${date}|(not set)`));
+    for (const [eventName, mean] of Object.entries(model.unattributedLeads || {})) {
+      const count = poisson(mean * weekday * completeness, unattributedRandom);
+      if (count === 0) continue;
+      facts.push({
+        dimensions: {
+          date: dateValue,
+          isoYearIsoWeek,
+          sessionSource: "(not set)",
+          sessionMedium: "(not set)",
+          sessionSourceMedium: "(not set) / (not set)",
+          sessionDefaultChannelGroup: "Unassigned",
+          eventName,
+          pagePath: model.leadPagePath,
+          pageTitle: "",
+          landingPage: model.leadPagePath,
+        },
+        metrics: { eventCount: count, conversions: count },
+      });
+    }
+
+    if (factCache.size > 2000) factCache.clear();
+    factCache.set(cacheKey, facts);
+    return facts;
+  }
+
+  function consumeQuota(property: string, tokens: number): protos.google.analytics.data.v1beta.IPropertyQuota {
+    const now = new Date().toISOString();
+    let usage = quotaUsage.get(property);
+    if (!usage || usage.day !== now.slice(0, 10)) {
+      usage = { hour: now.slice(0, 13), hourTokens: 0, day: now.slice(0, 10), dayTokens: 0 };
+      quotaUsage.set(property, usage);
+    }
+    if (usage.hour !== now.slice(0, 13)) {
+      usage.hour = now.slice(0, 13);
+      usage.hourTokens = 0;
+    }
+    usage.hourTokens += tokens;
+    usage.dayTokens += tokens;
+
+    return {
+      tokensPerDay: { consumed: tokens, remaining: Math.max(0, 200000 - usage.dayTokens) },
+      tokensPerHour: { consumed: tokens, remaining: Math.max(0, 40000 - usage.hourTokens) },
+      concurrentRequests: { consumed: 0, remaining: 10 },
+    };
+  }
+
+  function runReport(request: ReportRequest): ReportResponse {
+    const property = request.property || "";
+    const dimensionNames = (request.dimensions || []).map((d) => d.name || "");
+    const metricNames = (request.metrics || []).map((m) => m.name || "");
+
+    for (const name of dimensionNames) {
+      if (!KNOWN_DIMENSIONS.includes(name)) {
+        throw new Error(`INVALID_ARGUMENT: Field ${name} is not a valid dimension.`);
+      }
+    }
+    for (const name of metricNames) {
+      if (!ADDITIVE_METRICS.includes(name) && !DERIVED_METRICS[name]) {
+        throw new Error(`INVALID_ARGUMENT: Field ${name} is not a valid metric.`);
+      }
+    }
+
+    const now = new Date();
+    const today = toISODate(now);
+    const dateRanges = request.dateRanges?.length ? request.dateRanges : [{ startDate: "7daysAgo", endDate: "yesterday" }];
+    let daysScanned = 0;
+
+    const groups = new Map<string, { dimensions: string[]; totals: Record<string, number> }>();
+    // Per date range, for metricAggregations: ["TOTAL"]
+    const rangeTotals = new Map<string, Record<string, number>>();
+
+    dateRanges.forEach((range, rangeIndex) => {
+      const startDate = resolveGADate(range.startDate || "7daysAgo", now);
+      const endDate = resolveGADate(range.endDate || "yesterday", now);
+      const rangeName = range.name || `date_range_${rangeIndex}`;
+
+      for (const date of eachDate(startDate, endDate)) {
+        if (date > today) break;
+        daysScanned++;
+
+        for (const fact of buildFacts(property, date, today)) {
+          const lookup = (name: string) =>
+            name === "dateRange" ? rangeName : fact.dimensions[name] ?? "(not set)";
+          if (!evaluateFilter(request.dimensionFilter, lookup)) continue;
+
+          const values = dimensionNames.map(lookup);
+          const key = values.join("\u0000");
+          let group = groups.get(key);
+          if (!group) {
+            group = { dimensions: values.map(String), totals: {} };
+            groups.set(key, group);
+          }
+          const rangeTotal = rangeTotals.get(rangeName) || {};
+          rangeTotals.set(rangeName, rangeTotal);
+          for (const metric of ADDITIVE_METRICS) {
+            rangeTotal[metric] = (rangeTotal[metric] || 0) + (fact.metrics[metric] || 0);
+            group.totals[metric] = (group.totals[metric] || 0) + (fact.metrics[metric] || 0);
+          }
+        }
+      }
+    });
+
+    const metricValue = (name: string, totals: Record<string, number>) =>
+      DERIVED_METRICS[name] ? DERIVED_METRICS[name](totals) : totals[name] || 0;
+
+    let rows = Array.from(groups.values())
+      .map((group) => ({
+        dimensions: group.dimensions,
+        metrics: metricNames.map((name) => metricValue(name, group.totals)),
+      }))
+      // GA drops rows whose metrics are all zero
+      .filter((row) => row.metrics.some((value) => value !== 0))
+      .filter((row) =>
+        evaluateFilter(request.metricFilter, (name) => row.metrics[metricNames.indexOf(name)] ?? 0)
+      );
+
+    const orderBys = request.orderBys || [];
+    rows.sort((a, b) => {
+      for (const orderBy of orderBys) {
+        let comparison = 0;
+        if (orderBy.metric) {
+          const index = metricNames.indexOf(orderBy.metric.metricName || "");
+          comparison = (a.metrics[index] ?? 0) - (b.metrics[index] ?? 0);
+        } else if (orderBy.dimension) {
+          const index = dimensionNames.indexOf(orderBy.dimension.dimensionName || "");
+          comparison = (a.dimensions[index] ?? "").localeCompare(b.dimensions[index] ?? "");
+        }
+        if (comparison !== 0) return orderBy.desc ? -comparison : comparison;
+      }
+      return 0;
+    });
+
+    const rowCount = rows.length;
+    const offset = Number(request.offset || 0);
+    const limit = Number(request.limit || 10000);
+    rows = rows.slice(offset, offset + limit);
+
+    const formatMetric = (name: string, value: number) =>
+      DERIVED_METRICS[name] ? String(value) : String(Math.round(value));
+    const quality = model.dataQuality;
+    const sampled = quality?.samplingAfterDays !== undefined && daysScanned > quality.samplingAfterDays;
+    const wantsTotals = (request.metricAggregations || []).some(
+      (aggregation) => aggregation === protos.google.analytics.data.v1beta.MetricAggregation.TOTAL || String(aggregation) === "TOTAL"
+    );
+
+    return {
+      propertyQuota: request.returnPropertyQuota
+        ? consumeQuota(property, 1 + Math.ceil((daysScanned * Math.max(dimensionNames.length, 1)) / 60))
+        : null,
+      dimensionHeaders: dimensionNames.map((name) => ({ name })),
+      metricHeaders: metricNames.map((name) => ({
+        name,
+        type: DERIVED_METRICS[name] ? "TYPE_FLOAT" : "TYPE_INTEGER",
+      })),
+      rows: rows.map((row) => ({
+        dimensionValues: row.dimensions.map((value) => ({ value })),
+        metricValues: row.metrics.map((value, i) => ({ value: formatMetric(metricNames[i], value) })),
+      })),
+      totals: wantsTotals
+        ? Array.from(rangeTotals.entries()).map(([rangeName, totals]) => ({
+            dimensionValues: dimensionNames.map((name) => ({
+              value: name === "dateRange" ? rangeName : "RESERVED_TOTAL",
+            })),
+            metricValues: metricNames.map((name) => ({ value: formatMetric(name, metricValue(name, totals)) })),
+          }))
+        : [],
+      rowCount,
+      metadata: {
+        currencyCode: model.currencyCode || "USD",
+        timeZone: model.timeZone || "UTC",
+        ...(sampled
+          ? {
+              samplingMetadatas: dateRanges.map(() => ({
+                samplesReadCount: Math.round((quality?.samplingRate ?? 0.5) * 1000000),
+                samplingSpaceSize: 1000000,
+              })),
+            }
+          : {}),
+        subjectToThresholding: dimensionNames.some((name) => quality?.thresholdedDimensions?.includes(name)),
+      },
+      kind: "analyticsData#runReport",
+    };
+  }
+
+  return {
+    name: "fixture",
+
+    async runReport(request) {
+      return runReport(request);
+    },
+
+    async batchRunReports(requests) {
+      if (requests.length > 5) {
+        throw new Error("INVALID_ARGUMENT: A batch can contain at most 5 requests.");
+      }
+      if (new Set(requests.map((r) => r.property)).size > 1) {
+        throw new Error("INVALID_ARGUMENT: All requests in a batch must use the same property.");
+      }
+      return requests.map(runReport);
+    },
+
+    async getMetadata(property) {
+      return {
+        name: `${property}/metadata`,
+        dimensions: KNOWN_DIMENSIONS.filter((name) => name !== "dateRange").map((apiName) => ({
+          apiName,
+          uiName: apiName,
+          customDefinition: false,
+        })),
+        metrics: [...ADDITIVE_METRICS, ...Object.keys(DERIVED_METRICS)].map((apiName) => ({
+          apiName,
+          uiName: apiName,
+          type: DERIVED_METRICS[apiName] ? "TYPE_FLOAT" : "TYPE_INTEGER",
+          customDefinition: false,
+        })),
+      };
+    },
+
+    // Every field the fixture knows can be combined with every other
+    async checkCompatibility(request) {
+      return {
+        dimensionCompatibilities: (request.dimensions || [])
+          .filter((d) => KNOWN_DIMENSIONS.includes(d.name || ""))
+          .map((d) => ({ dimensionMetadata: { apiName: d.name }, compatibility: "COMPATIBLE" })),
+        metricCompatibilities: (request.metrics || [])
+          .filter((m) => ADDITIVE_METRICS.includes(m.name || "") || DERIVED_METRICS[m.name || ""])
+          .map((m) => ({ metricMetadata: { apiName: m.name }, compatibility: "COMPATIBLE" })),
+      };
+    },
+  };
+}
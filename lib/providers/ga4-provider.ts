@@ -0,0 +1,44 @@
+import { BetaAnalyticsDataClient } from "@google-analytics/data";
+import type { AnalyticsProvider } from "../analytics-provider";
+
+// Support both file-based credentials (local) and JSON string (Vercel)
+const getCredentials = () => {
+  if (process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON) {
+    return JSON.parse(process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON);
+  }
+  return undefined; // Falls back to GOOGLE_APPLICATION_CREDENTIALS file
+};
+
+export function createGA4Provider(): AnalyticsProvider {
+  const credentials = getCredentials();
+  const analyticsDataClient = credentials
+    ? new BetaAnalyticsDataClient({ credentials })
+    : new BetaAnalyticsDataClient();
+
+  return {
+    name: "ga4",
+
+    async runReport(request) {
+      const [response] = await analyticsDataClient.runReport(request);
+      return response;
+    },
+
+    async batchRunReports(requests) {
+      const [response] = await analyticsDataClient.batchRunReports({
+        property: requests[0]?.property,
+        requests,
+      });
+      return response.reports || [];
+    },
+
+    async getMetadata(property) {
+      const [response] = await analyticsDataClient.getMetadata({ name: `${property}/metadata` });
+      return response;
+    },
+
+    async checkCompatibility(request) {
+      const [response] = await analyticsDataClient.checkCompatibility(request);
+      return response;
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { getQuotaStatus, recordQuota } from "./quota";
+
+describe("getQuotaStatus", () => {
+  it("uses the standard limits for a standard property", () => {
+    recordQuota("properties/1", {
+      tokensPerDay: { consumed: 30, remaining: 199970 },
+      tokensPerHour: { consumed: 30, remaining: 39970 },
+    });
+    recordQuota("properties/1", {
+      tokensPerDay: { consumed: 20, remaining: 199950 },
+      tokensPerHour: { consumed: 20, remaining: 39950 },
+    });
+
+    const status = getQuotaStatus("properties/1");
+    expect(status.tokensPerDay).toEqual({ consumed: 50, remaining: 199950, limit: 200000 });
+    expect(status.tokensPerHour).toEqual({ consumed: 50, remaining: 39950, limit: 40000 });
+    expect(status.nearlyExhausted).toBe(false);
+  });
+
+  it("derives the larger limits of a 360 property from what GA reports", () => {
+    recordQuota("properties/360", {
+      tokensPerDay: { consumed: 500, remaining: 1999500 },
+      tokensPerHour: { consumed: 500, remaining: 399500 },
+    });
+
+    const status = getQuotaStatus("properties/360");
+    expect(status.tokensPerDay).toEqual({ consumed: 500, remaining: 1999500, limit: 2000000 });
+    expect(status.tokensPerHour).toEqual({ consumed: 500, remaining: 399500, limit: 400000 });
+    expect(status.nearlyExhausted).toBe(false);
+  });
+
+  it("never shows negative consumption", () => {
+    recordQuota("properties/2", { tokensPerHour: { consumed: 10, remaining: 50000 } });
+    const budget = getQuotaStatus("properties/2").tokensPerHour!;
+    expect(budget.consumed).toBeGreaterThanOrEqual(0);
+    expect(budget.consumed + budget.remaining).toBe(budget.limit);
+  });
+
+  it("flags a nearly spent budget", () => {
+    recordQuota("properties/3", { tokensPerHour: { consumed: 38500, remaining: 1500 } });
+    expect(getQuotaStatus("properties/3").nearlyExhausted).toBe(true);
+  });
+});
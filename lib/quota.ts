@@ -0,0 +1,203 @@
+import type { protos } from "@google-analytics/data";
+import type { AnalyticsProvider } from "./analytics-provider";
+
+type PropertyQuota = protos.google.analytics.data.v1beta.IPropertyQuota;
+
+export interface QuotaBudget {
+  consumed: number;
+  remaining: number;
+  limit: number;
+}
+
+export interface QuotaStatus {
+  propertyId: string;
+  // Latest figures reported by GA; null until the first report comes back
+  tokensPerDay: QuotaBudget | null;
+  tokensPerHour: QuotaBudget | null;
+  concurrentRequests: { inUse: number; remaining: number | null; limit: number };
+  // Tokens this server instance spent, bucketed by UTC hour and day
+  usage: {
+    hourTokens: number;
+    dayTokens: number;
+    requestsToday: number;
+  };
+  nearlyExhausted: boolean;
+  updatedAt: string | null;
+}
+
+// Thrown before a report is sent when the property has almost no quota left
+export class QuotaExhaustedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuotaExhaustedError";
+  }
+}
+
+// Standard (non-360) property limits from the Data API quota docs. GA 360
+// properties get more; their limits are derived from what GA reports.
+const LIMITS = {
+  tokensPerDay: 200000,
+  tokensPerHour: 40000,
+  concurrentRequests: 10,
+};
+
+// Share of a budget that must remain before callers are refused
+const MIN_REMAINING_SHARE = parseFloat(process.env.QUOTA_MIN_REMAINING_SHARE || "0.05");
+
+interface PropertyUsage {
+  quota: PropertyQuota | null;
+  updatedAt: Date | null;
+  inFlight: number;
+  hourKey: string;
+  hourTokens: number;
+  dayKey: string;
+  dayTokens: number;
+  requestsToday: number;
+}
+
+const usageByProperty = new Map<string, PropertyUsage>();
+
+function getUsage(propertyId: string): PropertyUsage {
+  let usage = usageByProperty.get(propertyId);
+  if (!usage) {
+    usage = {
+      quota: null,
+      updatedAt: null,
+      inFlight: 0,
+      hourKey: "",
+      hourTokens: 0,
+      dayKey: "",
+      dayTokens: 0,
+      requestsToday: 0,
+    };
+    usageByProperty.set(propertyId, usage);
+  }
+
+  const now = new Date();
+  const dayKey = now.toISOString().slice(0, 10);
+  const hourKey = now.toISOString().slice(0, 13);
+  // Roll the buckets over when the hour or day changes, dropping the GA
+  // figures with them so a stale "nearly exhausted" snapshot can't block
+  // callers after the budget has reset
+  if (usage.dayKey !== dayKey) {
+    usage.dayKey = dayKey;
+    usage.dayTokens = 0;
+    usage.requestsToday = 0;
+    usage.quota = null;
+  }
+  if (usage.hourKey !== hourKey) {
+    usage.hourKey = hourKey;
+    usage.hourTokens = 0;
+    if (usage.quota) {
+      usage.quota = { ...usage.quota, tokensPerHour: null };
+    }
+  }
+
+  return usage;
+}
+
+export function recordQuota(propertyId: string, quota: PropertyQuota | null | undefined) {
+  const usage = getUsage(propertyId);
+  usage.requestsToday++;
+  if (!quota) return;
+
+  usage.quota = quota;
+  usage.updatedAt = new Date();
+  usage.hourTokens += quota.tokensPerHour?.consumed || 0;
+  usage.dayTokens += quota.tokensPerDay?.consumed || 0;
+}
+
+// GA reports what each request consumed and what remains after it. The
+// limit is the tokens consumed this period (as far as this instance has seen
+// them) plus what remains, and at least the standard limit, so a 360
+// property's larger budget shows as such.
+function toBudget(
+  status: protos.google.analytics.data.v1beta.IQuotaStatus | null | undefined,
+  trackedConsumed: number,
+  standardLimit: number
+): QuotaBudget | null {
+  if (!status) return null;
+  // Proto3 leaves out zeros, so a missing remaining means none left
+  const remaining = status.remaining ?? 0;
+  const limit = Math.max(standardLimit, trackedConsumed + remaining);
+  return { consumed: limit - remaining, remaining, limit };
+}
+
+function isLow(budget: QuotaBudget | null): boolean {
+  return budget !== null && budget.remaining <= budget.limit * MIN_REMAINING_SHARE;
+}
+
+export function getQuotaStatus(propertyId: string): QuotaStatus {
+  const usage = getUsage(propertyId);
+  const tokensPerDay = toBudget(usage.quota?.tokensPerDay, usage.dayTokens, LIMITS.tokensPerDay);
+  const tokensPerHour = toBudget(usage.quota?.tokensPerHour, usage.hourTokens, LIMITS.tokensPerHour);
+
+  return {
+    propertyId,
+    tokensPerDay,
+    tokensPerHour,
+    concurrentRequests: {
+      inUse: usage.inFlight,
+      remaining: usage.quota?.concurrentRequests?.remaining ?? null,
+      limit: LIMITS.concurrentRequests,
+    },
+    usage: {
+      hourTokens: usage.hourTokens,
+      dayTokens: usage.dayTokens,
+      requestsToday: usage.requestsToday,
+    },
+    nearlyExhausted: isLow(tokensPerDay) || isLow(tokensPerHour),
+    updatedAt: usage.updatedAt?.toISOString() ?? null,
+  };
+}
+
+export function assertQuotaAvailable(propertyId: string) {
+  const status = getQuotaStatus(propertyId);
+  if (isLow(status.tokensPerHour)) {
+    throw new QuotaExhaustedError(
+      `GA quota nearly exhausted: ${status.tokensPerHour!.remaining} of ${status.tokensPerHour!.limit} hourly tokens left. Try again next hour.`
+    );
+  }
+  if (isLow(status.tokensPerDay)) {
+    throw new QuotaExhaustedError(
+      `GA quota nearly exhausted: ${status.tokensPerDay!.remaining} of ${status.tokensPerDay!.limit} daily tokens left. Try again tomorrow.`
+    );
+  }
+}
+
+// Ask GA to report quota with every call and record it per property
+export function withQuotaTracking(provider: AnalyticsProvider): AnalyticsProvider {
+  return {
+    ...provider,
+
+    async runReport(request) {
+      const propertyId = request.property || "";
+      const usage = getUsage(propertyId);
+      usage.inFlight++;
+      try {
+        const response = await provider.runReport({ ...request, returnPropertyQuota: true });
+        recordQuota(propertyId, response.propertyQuota);
+        return response;
+      } finally {
+        usage.inFlight--;
+      }
+    },
+
+    async batchRunReports(requests) {
+      const propertyId = requests[0]?.property || "";
+      const usage = getUsage(propertyId);
+      usage.inFlight++;
+      try {
+        const responses = await provider.batchRunReports(
+          requests.map((request) => ({ ...request, returnPropertyQuota: true }))
+        );
+        for (const response of responses) {
+          recordQuota(propertyId, response.propertyQuota);
+        }
+        return responses;
+      } finally {
+        usage.inFlight--;
+      }
+    },
+  };
+}
@@ -0,0 +1,201 @@
+import type { AnalyticsProvider, ReportRequest, ReportResponse } from "./analytics-provider";
+import { dateInTimeZone, daysBetween, resolveGADate } from "./dates";
+import { getPropertyTimeZone } from "./properties";
+
+export interface ReportCacheStats {
+  hits: number;
+  misses: number;
+  // Requests answered by joining an identical call that was already running
+  inFlightHits: number;
+  evictions: number;
+  entries: number;
+  hitRate: number;
+}
+
+interface CacheEntry {
+  response: ReportResponse;
+  expiresAt: number;
+}
+
+// GA keeps reprocessing recent days for up to ~48 hours, so a range only
+// counts as closed once its end date is older than that
+const FRESH_DAYS = 2;
+
+const LIVE_TTL_MS = parseInt(process.env.REPORT_CACHE_LIVE_TTL_SECONDS || "300") * 1000;
+const HISTORICAL_TTL_MS = parseInt(process.env.REPORT_CACHE_HISTORICAL_TTL_SECONDS || "86400") * 1000;
+const MAX_ENTRIES = parseInt(process.env.REPORT_CACHE_MAX_ENTRIES || "500");
+
+const cache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<ReportResponse>>();
+const stats = { hits: 0, misses: 0, inFlightHits: 0, evictions: 0 };
+
+// Serialize with sorted keys and without empty values so equivalent requests
+// built in different places share one cache entry
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined && v !== null && !(Array.isArray(v) && v.length === 0))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Relative dates are resolved first, in the property's timezone like GA does:
+// "yesterday" cached today must not be served tomorrow
+export function normalizeReportRequest(request: ReportRequest, today: Date = new Date()): ReportRequest {
+  const timeZone = getPropertyTimeZone(request.property);
+  return {
+    ...request,
+    dateRanges: (request.dateRanges || []).map((range) => ({
+      ...range,
+      startDate: resolveGADate(range.startDate || "", today, timeZone),
+      endDate: resolveGADate(range.endDate || "", today, timeZone),
+    })),
+  };
+}
+
+export function reportCacheKey(request: ReportRequest, today: Date = new Date()): string {
+  return stableStringify(normalizeReportRequest(request, today));
+}
+
+function ttlFor(request: ReportRequest, today: Date): number {
+  const todayISO = dateInTimeZone(today, getPropertyTimeZone(request.property));
+  const latestEnd = normalizeReportRequest(request, today)
+    .dateRanges!.map((range) => range.endDate || todayISO)
+    .reduce((latest, end) => (end > latest ? end : latest), "");
+
+  return daysBetween(latestEnd, todayISO) < FRESH_DAYS ? LIVE_TTL_MS : HISTORICAL_TTL_MS;
+}
+
+function store(key: string, entry: CacheEntry) {
+  cache.delete(key);
+  cache.set(key, entry);
+  // Map keeps insertion order, so the first key is the least recently stored
+  while (cache.size > MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value as string);
+    stats.evictions++;
+  }
+}
+
+export function withReportCache(provider: AnalyticsProvider): AnalyticsProvider {
+  return {
+    ...provider,
+
+    async runReport(request) {
+      const today = new Date();
+      let key: string;
+      try {
+        key = reportCacheKey(request, today);
+      } catch {
+        // Let the provider report malformed requests
+        return provider.runReport(request);
+      }
+
+      const cached = cache.get(key);
+      if (cached && cached.expiresAt > Date.now()) {
+        stats.hits++;
+        return cached.response;
+      }
+
+      const pending = inFlight.get(key);
+      if (pending) {
+        stats.inFlightHits++;
+        return pending;
+      }
+
+      stats.misses++;
+      const promise = provider
+        .runReport(request)
+        .then((response) => {
+          store(key, { response, expiresAt: Date.now() + ttlFor(request, today) });
+          return response;
+        })
+        .finally(() => {
+          inFlight.delete(key);
+        });
+
+      inFlight.set(key, promise);
+      return promise;
+    },
+
+    // Serve what we can from the cache and only send the misses upstream
+    async batchRunReports(requests) {
+      const today = new Date();
+      const results: Array<Promise<ReportResponse>> = [];
+      const misses: Array<{
+        key: string | null;
+        request: ReportRequest;
+        resolve: (response: ReportResponse) => void;
+        reject: (error: unknown) => void;
+      }> = [];
+
+      for (const request of requests) {
+        let key: string | null;
+        try {
+          key = reportCacheKey(request, today);
+        } catch {
+          key = null;
+        }
+
+        const cached = key !== null ? cache.get(key) : undefined;
+        if (cached && cached.expiresAt > Date.now()) {
+          stats.hits++;
+          results.push(Promise.resolve(cached.response));
+          continue;
+        }
+
+        const pending = key !== null ? inFlight.get(key) : undefined;
+        if (pending) {
+          stats.inFlightHits++;
+          results.push(pending);
+          continue;
+        }
+
+        stats.misses++;
+        const promise = new Promise<ReportResponse>((resolve, reject) => {
+          misses.push({ key, request, resolve, reject });
+        });
+        if (key !== null) inFlight.set(key, promise);
+        results.push(promise);
+      }
+
+      if (misses.length > 0) {
+        try {
+          const responses = await provider.batchRunReports(misses.map((miss) => miss.request));
+          misses.forEach((miss, i) => {
+            if (miss.key !== null) {
+              store(miss.key, { response: responses[i], expiresAt: Date.now() + ttlFor(miss.request, today) });
+            }
+            miss.resolve(responses[i]);
+          });
+        } catch (error) {
+          for (const miss of misses) miss.reject(error);
+        } finally {
+          for (const miss of misses) {
+            if (miss.key !== null) inFlight.delete(miss.key);
+          }
+        }
+      }
+
+      return Promise.all(results);
+    },
+  };
+}
+
+export function getReportCacheStats(): ReportCacheStats {
+  const lookups = stats.hits + stats.misses + stats.inFlightHits;
+  return {
+    ...stats,
+    entries: cache.size,
+    hitRate: lookups > 0 ? (stats.hits + stats.inFlightHits) / lookups : 0,
+  };
+}
+
+export function clearReportCache() {
+  cache.clear();
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { responseQuality, qualityIssues } from "./data-quality";
+import { applyReportFilter, metricFilterApplies, type ReportFilter } from "./report-filters";
+
+const filter: ReportFilter = {
+  dimensions: { op: "and", conditions: [{ field: "region", type: "string", matchType: "exact", value: "California" }] },
+  metrics: { op: "and", conditions: [{ field: "sessions", type: "numeric", operation: "gte", value: 50 }] },
+};
+
+describe("applyReportFilter", () => {
+  it("adds metric conditions to reports that include their metrics", () => {
+    const request = { metrics: [{ name: "sessions" }, { name: "conversions" }] };
+    expect(metricFilterApplies(request, filter)).toBe(true);
+    expect(applyReportFilter(request, filter).metricFilter).toBeTruthy();
+  });
+
+  it("leaves metric conditions out of reports without their metrics, keeping the dimension conditions", () => {
+    const request = { metrics: [{ name: "conversions" }] };
+    expect(metricFilterApplies(request, filter)).toBe(false);
+
+    const filtered = applyReportFilter(request, filter);
+    expect(filtered.metricFilter).toBeUndefined();
+    expect(filtered.dimensionFilter).toBeTruthy();
+  });
+
+  it("applies to any report when the filter has no metric conditions", () => {
+    expect(metricFilterApplies({ metrics: [{ name: "conversions" }] }, { dimensions: filter.dimensions })).toBe(true);
+    expect(metricFilterApplies({}, undefined)).toBe(true);
+  });
+});
+
+describe("skipped metric filters", () => {
+  it("show up as a data-quality issue", () => {
+    const quality = responseQuality({ rowCount: 0, rows: [], metricFilterSkipped: true });
+    expect(quality.filterNotApplied).toBe(true);
+    expect(qualityIssues(quality).map((issue) => issue.label)).toEqual(["Metric filter not applied"]);
+    expect(responseQuality({ rowCount: 0, rows: [] }).filterNotApplied).toBe(false);
+  });
+});
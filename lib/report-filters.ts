@@ -0,0 +1,210 @@
+import type { protos } from "@google-analytics/data";
+import type { ReportRequest } from "./analytics-provider";
+
+type FilterExpression = protos.google.analytics.data.v1beta.IFilterExpression;
+
+// A report filter as the dashboard and API routes pass it around (JSON in the
+// `filter` query parameter). Dimension conditions narrow the data before
+// aggregation ("only California", "only /services/* landing pages"); metric
+// conditions drop rows after it ("sources with at least 50 sessions").
+export const STRING_MATCH_TYPES = ["exact", "beginsWith", "endsWith", "contains", "regex"] as const;
+export const NUMERIC_OPERATIONS = ["eq", "lt", "lte", "gt", "gte"] as const;
+
+export type StringMatchType = (typeof STRING_MATCH_TYPES)[number];
+export type NumericOperation = (typeof NUMERIC_OPERATIONS)[number];
+
+export type FilterCondition =
+  | { field: string; type: "string"; matchType: StringMatchType; value: string; caseSensitive?: boolean; not?: boolean }
+  | { field: string; type: "inList"; values: string[]; caseSensitive?: boolean; not?: boolean }
+  | { field: string; type: "numeric"; operation: NumericOperation; value: number; not?: boolean };
+
+export interface FilterGroup {
+  op: "and" | "or";
+  // Conditions and nested groups
+  conditions: Array<FilterCondition | FilterGroup>;
+}
+
+export interface ReportFilter {
+  dimensions?: FilterGroup;
+  metrics?: FilterGroup;
+}
+
+const GA_MATCH_TYPES: Record<StringMatchType, keyof typeof protos.google.analytics.data.v1beta.Filter.StringFilter.MatchType> = {
+  exact: "EXACT",
+  beginsWith: "BEGINS_WITH",
+  endsWith: "ENDS_WITH",
+  contains: "CONTAINS",
+  regex: "PARTIAL_REGEXP",
+};
+
+const GA_OPERATIONS: Record<NumericOperation, keyof typeof protos.google.analytics.data.v1beta.Filter.NumericFilter.Operation> = {
+  eq: "EQUAL",
+  lt: "LESS_THAN",
+  lte: "LESS_THAN_OR_EQUAL",
+  gt: "GREATER_THAN",
+  gte: "GREATER_THAN_OR_EQUAL",
+};
+
+export function isFilterGroup(item: FilterCondition | FilterGroup): item is FilterGroup {
+  return "conditions" in item;
+}
+
+function parseGroup(value: unknown, path: string): FilterGroup {
+  const group = value as FilterGroup;
+  if (!group || typeof group !== "object" || (group.op !== "and" && group.op !== "or") || !Array.isArray(group.conditions)) {
+    throw new Error(`${path} must be { op: "and" | "or", conditions: [...] }`);
+  }
+
+  return {
+    op: group.op,
+    conditions: group.conditions.map((item, i) => {
+      const itemPath = `${path}.conditions[${i}]`;
+      if (item && typeof item === "object" && "conditions" in item) {
+        return parseGroup(item, itemPath);
+      }
+
+      const condition = item as FilterCondition;
+      if (!condition || typeof condition.field !== "string" || !condition.field) {
+        throw new Error(`${itemPath} needs a field`);
+      }
+      switch (condition.type) {
+        case "string":
+          if (!STRING_MATCH_TYPES.includes(condition.matchType) || typeof condition.value !== "string") {
+            throw new Error(`${itemPath} needs matchType (${STRING_MATCH_TYPES.join(", ")}) and a string value`);
+          }
+          if (condition.matchType === "regex") {
+            try {
+              new RegExp(condition.value);
+            } catch {
+              throw new Error(`${itemPath} has an invalid regex`);
+            }
+          }
+          break;
+        case "inList":
+          if (!Array.isArray(condition.values) || condition.values.some((v) => typeof v !== "string")) {
+            throw new Error(`${itemPath} needs values: string[]`);
+          }
+          break;
+        case "numeric":
+          if (!NUMERIC_OPERATIONS.includes(condition.operation) || typeof condition.value !== "number") {
+            throw new Error(`${itemPath} needs operation (${NUMERIC_OPERATIONS.join(", ")}) and a numeric value`);
+          }
+          break;
+        default:
+          throw new Error(`${itemPath} type must be string, inList or numeric`);
+      }
+      return condition;
+    }),
+  };
+}
+
+// Validate a filter from untrusted input; throws with the offending path
+export function parseReportFilter(value: unknown): ReportFilter {
+  if (!value || typeof value !== "object") {
+    throw new Error("filter must be an object with dimensions and/or metrics groups");
+  }
+  const { dimensions, metrics } = value as ReportFilter;
+  return {
+    ...(dimensions ? { dimensions: parseGroup(dimensions, "filter.dimensions") } : {}),
+    ...(metrics ? { metrics: parseGroup(metrics, "filter.metrics") } : {}),
+  };
+}
+
+// The `filter` query parameter (JSON), or undefined when absent
+export function filterFromSearchParams(params: URLSearchParams): ReportFilter | undefined {
+  const raw = params.get("filter");
+  if (!raw) return undefined;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    throw new Error("filter must be JSON");
+  }
+  return parseReportFilter(value);
+}
+
+export function isEmptyFilter(filter?: ReportFilter | null): boolean {
+  return !filter?.dimensions?.conditions.length && !filter?.metrics?.conditions.length;
+}
+
+function conditionExpression(condition: FilterCondition): FilterExpression {
+  let expression: FilterExpression;
+  switch (condition.type) {
+    case "string":
+      expression = {
+        filter: {
+          fieldName: condition.field,
+          stringFilter: {
+            matchType: GA_MATCH_TYPES[condition.matchType],
+            value: condition.value,
+            caseSensitive: condition.caseSensitive ?? false,
+          },
+        },
+      };
+      break;
+    case "inList":
+      expression = {
+        filter: {
+          fieldName: condition.field,
+          inListFilter: { values: condition.values, caseSensitive: condition.caseSensitive ?? false },
+        },
+      };
+      break;
+    case "numeric":
+      expression = {
+        filter: {
+          fieldName: condition.field,
+          numericFilter: {
+            operation: GA_OPERATIONS[condition.operation],
+            value: Number.isInteger(condition.value) ? { int64Value: condition.value } : { doubleValue: condition.value },
+          },
+        },
+      };
+      break;
+  }
+  return condition.not ? { notExpression: expression } : expression;
+}
+
+// GA Data API filter expression for a group
+export function toFilterExpression(group: FilterGroup): FilterExpression {
+  const expressions = group.conditions.map((item) =>
+    isFilterGroup(item) ? toFilterExpression(item) : conditionExpression(item)
+  );
+  if (expressions.length === 1) return expressions[0];
+  return group.op === "and" ? { andGroup: { expressions } } : { orGroup: { expressions } };
+}
+
+export function groupFields(group: FilterGroup): string[] {
+  return group.conditions.flatMap((item) => (isFilterGroup(item) ? groupFields(item) : [item.field]));
+}
+
+function andExpressions(a: FilterExpression | null | undefined, b: FilterExpression): FilterExpression {
+  return a ? { andGroup: { expressions: [a, b] } } : b;
+}
+
+// Whether a request includes every metric the filter's metric conditions
+// name. GA filters rows after aggregation, so a report without the metric
+// has nothing to compare and its metric conditions are left out.
+export function metricFilterApplies(request: ReportRequest, filter?: ReportFilter): boolean {
+  if (!filter?.metrics?.conditions.length) return true;
+  const requested = (request.metrics || []).map((metric) => metric.name);
+  return groupFields(filter.metrics).every((field) => requested.includes(field));
+}
+
+// Add a report filter to a request, on top of any filter the request already
+// has. Metric conditions only apply to reports that include all their
+// metrics (see metricFilterApplies); callers flag the others in the report's
+// quality.
+export function applyReportFilter(request: ReportRequest, filter?: ReportFilter): ReportRequest {
+  if (!filter || isEmptyFilter(filter)) return request;
+
+  const filtered = { ...request };
+  if (filter.dimensions?.conditions.length) {
+    filtered.dimensionFilter = andExpressions(request.dimensionFilter, toFilterExpression(filter.dimensions));
+  }
+  if (filter.metrics?.conditions.length && metricFilterApplies(request, filter)) {
+    filtered.metricFilter = andExpressions(request.metricFilter, toFilterExpression(filter.metrics));
+  }
+  return filtered;
+}
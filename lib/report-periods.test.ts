@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { parsePeriodSelection, resolvePeriod } from "./report-periods";
+
+const LA = "America/Los_Angeles";
+// Wednesday October 14 2026, 10:00 in Los Angeles
+const NOW = new Date("2026-10-14T17:00:00Z");
+
+describe("parsePeriodSelection", () => {
+  it("rejects dates that aren't on the calendar", () => {
+    expect(() => parsePeriodSelection(new URLSearchParams("period=week&date=2026-13-45"))).toThrow(
+      "date=2026-13-45 is not a calendar date"
+    );
+    expect(() => parsePeriodSelection(new URLSearchParams("period=month&date=2026-02-30"))).toThrow(
+      "not a calendar date"
+    );
+    expect(() => parsePeriodSelection(new URLSearchParams("period=month&date=2026-13"))).toThrow(
+      "date=2026-13 is not a calendar date"
+    );
+    expect(() => parsePeriodSelection(new URLSearchParams("period=custom&startDate=2026-04-31"))).toThrow(
+      "startDate=2026-04-31 is not a calendar date"
+    );
+  });
+
+  it("accepts real and relative dates", () => {
+    expect(parsePeriodSelection(new URLSearchParams("period=month&date=2028-02"))).toEqual({
+      period: "month",
+      date: "2028-02-01",
+    });
+    expect(parsePeriodSelection(new URLSearchParams("period=week&date=2028-02-29"))).toEqual({
+      period: "week",
+      date: "2028-02-29",
+    });
+    expect(parsePeriodSelection(new URLSearchParams("period=custom&startDate=28daysAgo&endDate=2026-10-13"))).toEqual({
+      period: "custom",
+      startDate: "28daysAgo",
+      endDate: "2026-10-13",
+    });
+  });
+});
+
+describe("resolvePeriod", () => {
+  it("stops custom periods that reach today at yesterday", () => {
+    for (const endDate of ["2026-10-14", "today", "2026-12-31"]) {
+      const period = resolvePeriod({ period: "custom", startDate: "2026-10-01", endDate }, LA, NOW);
+      expect(period.range).toEqual({ startDate: "2026-10-01", endDate: "2026-10-13" });
+      expect(period.selection).toEqual({ period: "custom", startDate: "2026-10-01", endDate: "2026-10-13" });
+      expect(period.next).toBeNull();
+    }
+  });
+
+  it("uses the property's timezone for yesterday", () => {
+    // Already October 15 in UTC, still the 14th in Los Angeles
+    const lateEvening = new Date("2026-10-15T05:00:00Z");
+    expect(resolvePeriod({ period: "custom", startDate: "2026-10-01", endDate: "today" }, LA, lateEvening).range.endDate).toBe(
+      "2026-10-13"
+    );
+    expect(resolvePeriod({ period: "custom", startDate: "2026-10-01", endDate: "today" }, "UTC", lateEvening).range.endDate).toBe(
+      "2026-10-14"
+    );
+  });
+
+  it("rejects custom periods with no complete days", () => {
+    expect(() => resolvePeriod({ period: "custom", startDate: "today", endDate: "today" }, LA, NOW)).toThrow(
+      "has no complete days yet"
+    );
+  });
+
+  it("leaves complete custom periods alone", () => {
+    const period = resolvePeriod({ period: "custom", startDate: "2026-09-01", endDate: "2026-09-07" }, LA, NOW);
+    expect(period.range).toEqual({ startDate: "2026-09-01", endDate: "2026-09-07" });
+    expect(period.previous).toEqual({ period: "custom", startDate: "2026-08-25", endDate: "2026-08-31" });
+    expect(period.next).toEqual({ period: "custom", startDate: "2026-09-08", endDate: "2026-09-14" });
+  });
+});
@@ -0,0 +1,187 @@
+import {
+  addDays,
+  addMonths,
+  dateInTimeZone,
+  daysBetween,
+  endOfMonth,
+  isCalendarDate,
+  lastCompleteWeek,
+  resolveGADate,
+  startOfMonth,
+  startOfWeek,
+  type CalendarRange,
+} from "./dates";
+
+// Report periods as URL parameters, so a link always reproduces the same
+// report:
+// - lastWeek: the last complete Monday–Sunday week
+// - week: the Monday–Sunday week containing `date`
+// - mtd: month to date (up to yesterday)
+// - month / quarter: the month or quarter containing `date`
+// - custom: `startDate` to `endDate` (GA relative dates allowed)
+export const PERIOD_TYPES = ["lastWeek", "week", "mtd", "month", "quarter", "custom"] as const;
+
+export type PeriodType = (typeof PERIOD_TYPES)[number];
+
+export interface PeriodSelection {
+  period: PeriodType;
+  date?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ResolvedPeriod {
+  range: CalendarRange;
+  label: string;
+  selection: PeriodSelection;
+  // Neighbouring periods of the same kind; next is null once it would reach today
+  previous: PeriodSelection;
+  next: PeriodSelection | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Read a period from query parameters; missing means lastWeek
+export function parsePeriodSelection(params: URLSearchParams): PeriodSelection {
+  const period = params.get("period") || "lastWeek";
+  if (!PERIOD_TYPES.includes(period as PeriodType)) {
+    throw new Error(`period must be one of: ${PERIOD_TYPES.join(", ")}`);
+  }
+
+  if (period === "week" || period === "month" || period === "quarter") {
+    // Months can also be given as YYYY-MM
+    const date = params.get("date") || "";
+    const normalized = /^\d{4}-\d{2}$/.test(date) && period !== "week" ? `${date}-01` : date;
+    if (!DATE_PATTERN.test(normalized)) {
+      throw new Error(`period=${period} needs date=YYYY-MM-DD`);
+    }
+    if (!isCalendarDate(normalized)) {
+      throw new Error(`date=${date} is not a calendar date`);
+    }
+    return { period, date: normalized };
+  }
+
+  if (period === "custom") {
+    const startDate = params.get("startDate") || "7daysAgo";
+    const endDate = params.get("endDate") || "yesterday";
+    // Relative GA dates are checked when the period is resolved
+    if (DATE_PATTERN.test(startDate) && !isCalendarDate(startDate)) {
+      throw new Error(`startDate=${startDate} is not a calendar date`);
+    }
+    if (DATE_PATTERN.test(endDate) && !isCalendarDate(endDate)) {
+      throw new Error(`endDate=${endDate} is not a calendar date`);
+    }
+    return { period, startDate, endDate };
+  }
+
+  return { period: period as PeriodType };
+}
+
+export function periodSearchParams(selection: PeriodSelection): URLSearchParams {
+  const params = new URLSearchParams({ period: selection.period });
+  for (const key of ["date", "startDate", "endDate"] as const) {
+    if (selection[key]) params.set(key, selection[key]!);
+  }
+  return params;
+}
+
+function formatDay(date: string, withYear = true): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    ...(withYear ? { year: "numeric" } : {}),
+    timeZone: "UTC",
+  });
+}
+
+function formatMonth(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+function startOfQuarter(date: string): string {
+  const month = parseInt(date.slice(5, 7));
+  return `${date.slice(0, 4)}-${String(month - ((month - 1) % 3)).padStart(2, "0")}-01`;
+}
+
+// Dates and neighbours for a period in the property's timezone. Periods that
+// reach today stop at yesterday, since today isn't complete yet.
+export function resolvePeriod(selection: PeriodSelection, timeZone: string, now: Date = new Date()): ResolvedPeriod {
+  const yesterday = addDays(dateInTimeZone(now, timeZone), -1);
+  const clip = (range: CalendarRange): CalendarRange => {
+    if (range.startDate > yesterday) {
+      throw new Error(`Period starting ${range.startDate} has no complete days yet`);
+    }
+    return { startDate: range.startDate, endDate: range.endDate < yesterday ? range.endDate : yesterday };
+  };
+  const nextIfStarted = (next: PeriodSelection, startDate: string) => (startDate <= yesterday ? next : null);
+
+  switch (selection.period) {
+    case "lastWeek":
+    case "week": {
+      const startDate =
+        selection.period === "week" ? startOfWeek(selection.date!) : lastCompleteWeek(timeZone, now).startDate;
+      const range = clip({ startDate, endDate: addDays(startDate, 6) });
+      return {
+        range,
+        label: `Week of ${formatDay(startDate)}`,
+        selection: { period: "week", date: startDate },
+        previous: { period: "week", date: addDays(startDate, -7) },
+        next: nextIfStarted({ period: "week", date: addDays(startDate, 7) }, addDays(startDate, 7)),
+      };
+    }
+
+    case "mtd": {
+      const startDate = startOfMonth(yesterday);
+      return {
+        range: { startDate, endDate: yesterday },
+        label: `${formatMonth(startDate)} to date`,
+        selection: { period: "mtd" },
+        previous: { period: "month", date: addMonths(startDate, -1) },
+        next: null,
+      };
+    }
+
+    case "month": {
+      const startDate = startOfMonth(selection.date!);
+      return {
+        range: clip({ startDate, endDate: endOfMonth(startDate) }),
+        label: formatMonth(startDate),
+        selection: { period: "month", date: startDate },
+        previous: { period: "month", date: addMonths(startDate, -1) },
+        next: nextIfStarted({ period: "month", date: addMonths(startDate, 1) }, addMonths(startDate, 1)),
+      };
+    }
+
+    case "quarter": {
+      const startDate = startOfQuarter(selection.date!);
+      const quarter = Math.floor((parseInt(startDate.slice(5, 7)) - 1) / 3) + 1;
+      return {
+        range: clip({ startDate, endDate: addDays(addMonths(startDate, 3), -1) }),
+        label: `Q${quarter} ${startDate.slice(0, 4)}`,
+        selection: { period: "quarter", date: startDate },
+        previous: { period: "quarter", date: addMonths(startDate, -3) },
+        next: nextIfStarted({ period: "quarter", date: addMonths(startDate, 3) }, addMonths(startDate, 3)),
+      };
+    }
+
+    case "custom": {
+      const requestedStart = resolveGADate(selection.startDate || "7daysAgo", now, timeZone);
+      const requestedEnd = resolveGADate(selection.endDate || "yesterday", now, timeZone);
+      if (requestedEnd < requestedStart) {
+        throw new Error(`endDate ${requestedEnd} is before startDate ${requestedStart}`);
+      }
+      const { startDate, endDate } = clip({ startDate: requestedStart, endDate: requestedEnd });
+      const length = daysBetween(startDate, endDate) + 1;
+      const sameYear = startDate.slice(0, 4) === endDate.slice(0, 4);
+      return {
+        range: { startDate, endDate },
+        label: `${formatDay(startDate, !sameYear)} – ${formatDay(endDate)}`,
+        selection: { period: "custom", startDate, endDate },
+        previous: { period: "custom", startDate: addDays(startDate, -length), endDate: addDays(endDate, -length) },
+        next: addDays(endDate, length) <= yesterday
+          ? { period: "custom", startDate: addDays(startDate, length), endDate: addDays(endDate, length) }
+          : null,
+      };
+    }
+  }
+}
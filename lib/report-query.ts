@@ -0,0 +1,250 @@
+import { protos } from "@google-analytics/data";
+import type {
+  CompatibilityRequest,
+  CompatibilityResponse,
+  PropertyMetadata,
+  ReportRequest,
+  ReportResponse,
+} from "./analytics-provider";
+import { resolveGADate } from "./dates";
+
+type FilterExpression = protos.google.analytics.data.v1beta.IFilterExpression;
+
+// A report described by GA field names, as accepted by /api/analytics/query.
+// Filters use the Data API's FilterExpression shape.
+export interface ReportQuery {
+  dimensions: string[];
+  metrics: string[];
+  dateRanges: Array<{ startDate: string; endDate: string; name?: string }>;
+  dimensionFilter?: FilterExpression;
+  metricFilter?: FilterExpression;
+  orderBys?: Array<{ dimension?: string; metric?: string; desc?: boolean }>;
+  limit?: number;
+  offset?: number;
+}
+
+// Dimension values stay strings; metric values are numbers
+export type QueryRow = Record<string, string | number>;
+
+export interface QueryResult {
+  dimensionHeaders: string[];
+  metricHeaders: Array<{ name: string; type: string }>;
+  rows: QueryRow[];
+  // One row per date range; dimension values are RESERVED_TOTAL
+  totals: QueryRow[];
+  rowCount: number;
+  metadata: ReportResponse["metadata"];
+}
+
+// Thrown when a query is rejected before it reaches GA
+export class QueryValidationError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid query: ${problems.join("; ")}`);
+    this.name = "QueryValidationError";
+  }
+}
+
+// Data API limits for standard properties
+const MAX_DIMENSIONS = 9;
+const MAX_METRICS = 10;
+const MAX_DATE_RANGES = 4;
+const MAX_LIMIT = 250000;
+
+// Not listed in the metadata, but valid whenever there are several date ranges
+const DATE_RANGE_DIMENSION = "dateRange";
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Check the shape of a JSON query body; field names are checked later
+// against the property's metadata
+export function parseReportQuery(body: unknown): ReportQuery {
+  if (!isObject(body)) {
+    throw new QueryValidationError(["body must be a JSON object"]);
+  }
+
+  const problems: string[] = [];
+  const { dimensions = [], metrics, dateRanges, dimensionFilter, metricFilter, orderBys, limit, offset } = body;
+
+  if (!isStringArray(dimensions)) problems.push("dimensions must be an array of field names");
+  if (!isStringArray(metrics) || metrics.length === 0) problems.push("metrics must be a non-empty array of field names");
+  if (
+    dateRanges !== undefined &&
+    !(Array.isArray(dateRanges) && dateRanges.every((range) => isObject(range) && typeof range.startDate === "string" && typeof range.endDate === "string"))
+  ) {
+    problems.push("dateRanges must be an array of { startDate, endDate }");
+  }
+  if (dimensionFilter !== undefined && !isObject(dimensionFilter)) problems.push("dimensionFilter must be a filter expression");
+  if (metricFilter !== undefined && !isObject(metricFilter)) problems.push("metricFilter must be a filter expression");
+  if (orderBys !== undefined && !(Array.isArray(orderBys) && orderBys.every(isObject))) {
+    problems.push("orderBys must be an array of { dimension } or { metric }");
+  }
+  if (limit !== undefined && !(Number.isInteger(limit) && (limit as number) >= 1 && (limit as number) <= MAX_LIMIT)) {
+    problems.push(`limit must be an integer from 1 to ${MAX_LIMIT}`);
+  }
+  if (offset !== undefined && !(Number.isInteger(offset) && (offset as number) >= 0)) {
+    problems.push("offset must be a non-negative integer");
+  }
+
+  if (problems.length > 0) {
+    throw new QueryValidationError(problems);
+  }
+
+  return {
+    dimensions: dimensions as string[],
+    metrics: metrics as string[],
+    dateRanges: (dateRanges as ReportQuery["dateRanges"] | undefined) || [{ startDate: "7daysAgo", endDate: "yesterday" }],
+    dimensionFilter: dimensionFilter as FilterExpression | undefined,
+    metricFilter: metricFilter as FilterExpression | undefined,
+    orderBys: orderBys as ReportQuery["orderBys"],
+    limit: limit as number | undefined,
+    offset: offset as number | undefined,
+  };
+}
+
+function filterFields(expression: FilterExpression | null | undefined): string[] {
+  if (!expression) return [];
+  if (expression.andGroup) return (expression.andGroup.expressions || []).flatMap(filterFields);
+  if (expression.orGroup) return (expression.orGroup.expressions || []).flatMap(filterFields);
+  if (expression.notExpression) return filterFields(expression.notExpression);
+  return expression.filter ? [expression.filter.fieldName || ""] : [];
+}
+
+// Problems with a query's fields, limits and dates, judged against the
+// property's metadata (custom dimensions and metrics included)
+export function validateReportQuery(query: ReportQuery, metadata: PropertyMetadata, timeZone: string): string[] {
+  const problems: string[] = [];
+  const names = (fields: Array<{ apiName?: string | null; deprecatedApiNames?: string[] | null }>) =>
+    new Set(fields.flatMap((field) => [field.apiName || "", ...(field.deprecatedApiNames || [])]));
+  const dimensionNames = names(metadata.dimensions || []);
+  const metricNames = names(metadata.metrics || []);
+  dimensionNames.add(DATE_RANGE_DIMENSION);
+
+  const checkDimension = (name: string, where: string) => {
+    if (dimensionNames.has(name)) return;
+    problems.push(
+      metricNames.has(name)
+        ? `${where}: "${name}" is a metric, not a dimension`
+        : `${where}: unknown dimension "${name}"`
+    );
+  };
+  const checkMetric = (name: string, where: string) => {
+    if (metricNames.has(name)) return;
+    problems.push(
+      dimensionNames.has(name)
+        ? `${where}: "${name}" is a dimension, not a metric`
+        : `${where}: unknown metric "${name}"`
+    );
+  };
+
+  if (query.dimensions.length > MAX_DIMENSIONS) problems.push(`at most ${MAX_DIMENSIONS} dimensions are allowed`);
+  if (query.metrics.length > MAX_METRICS) problems.push(`at most ${MAX_METRICS} metrics are allowed`);
+  if (query.dateRanges.length === 0 || query.dateRanges.length > MAX_DATE_RANGES) {
+    problems.push(`between 1 and ${MAX_DATE_RANGES} date ranges are allowed`);
+  }
+
+  query.dimensions.forEach((name) => checkDimension(name, "dimensions"));
+  query.metrics.forEach((name) => checkMetric(name, "metrics"));
+  filterFields(query.dimensionFilter).forEach((name) => checkDimension(name, "dimensionFilter"));
+  filterFields(query.metricFilter).forEach((name) => checkMetric(name, "metricFilter"));
+
+  for (const orderBy of query.orderBys || []) {
+    if (orderBy.dimension && !query.dimensions.includes(orderBy.dimension)) {
+      problems.push(`orderBys: dimension "${orderBy.dimension}" is not in dimensions`);
+    } else if (orderBy.metric && !query.metrics.includes(orderBy.metric)) {
+      problems.push(`orderBys: metric "${orderBy.metric}" is not in metrics`);
+    } else if (!orderBy.dimension === !orderBy.metric) {
+      problems.push("orderBys: each entry needs either a dimension or a metric");
+    }
+  }
+
+  for (const range of query.dateRanges) {
+    try {
+      const startDate = resolveGADate(range.startDate, new Date(), timeZone);
+      const endDate = resolveGADate(range.endDate, new Date(), timeZone);
+      if (endDate < startDate) {
+        problems.push(`dateRanges: ${range.endDate} is before ${range.startDate}`);
+      }
+    } catch (error) {
+      problems.push(`dateRanges: ${error instanceof Error ? error.message : "invalid date"}`);
+    }
+  }
+
+  return problems;
+}
+
+export function toReportRequest(query: ReportQuery, propertyId: string): ReportRequest {
+  return {
+    property: propertyId,
+    dateRanges: query.dateRanges,
+    dimensions: query.dimensions.map((name) => ({ name })),
+    metrics: query.metrics.map((name) => ({ name })),
+    dimensionFilter: query.dimensionFilter,
+    metricFilter: query.metricFilter,
+    orderBys: query.orderBys?.map((orderBy) =>
+      orderBy.dimension
+        ? { dimension: { dimensionName: orderBy.dimension }, desc: orderBy.desc ?? false }
+        : { metric: { metricName: orderBy.metric }, desc: orderBy.desc ?? false }
+    ),
+    limit: query.limit,
+    offset: query.offset,
+    metricAggregations: [protos.google.analytics.data.v1beta.MetricAggregation.TOTAL],
+  };
+}
+
+// The compatibility check takes the same fields as the report, minus the
+// dateRange pseudo-dimension
+export function toCompatibilityRequest(request: ReportRequest): CompatibilityRequest {
+  return {
+    property: request.property,
+    dimensions: request.dimensions?.filter((dimension) => dimension.name !== DATE_RANGE_DIMENSION),
+    metrics: request.metrics,
+    dimensionFilter: request.dimensionFilter,
+    metricFilter: request.metricFilter,
+  };
+}
+
+export function incompatibleFields(response: CompatibilityResponse): string[] {
+  return [
+    ...(response.dimensionCompatibilities || [])
+      .filter((item) => String(item.compatibility) === "INCOMPATIBLE")
+      .map((item) => `dimension "${item.dimensionMetadata?.apiName}" can't be combined with the other fields`),
+    ...(response.metricCompatibilities || [])
+      .filter((item) => String(item.compatibility) === "INCOMPATIBLE")
+      .map((item) => `metric "${item.metricMetadata?.apiName}" can't be combined with the other fields`),
+  ];
+}
+
+export function toQueryResult(response: ReportResponse): QueryResult {
+  const dimensionHeaders = (response.dimensionHeaders || []).map((header) => header.name || "");
+  const metricHeaders = (response.metricHeaders || []).map((header) => ({
+    name: header.name || "",
+    type: String(header.type || "TYPE_INTEGER"),
+  }));
+
+  const toRow = (row: protos.google.analytics.data.v1beta.IRow): QueryRow => {
+    const result: QueryRow = {};
+    dimensionHeaders.forEach((name, i) => {
+      result[name] = row.dimensionValues?.[i]?.value || "";
+    });
+    metricHeaders.forEach(({ name, type }, i) => {
+      const value = row.metricValues?.[i]?.value || "0";
+      result[name] = type === "TYPE_INTEGER" ? parseInt(value) : parseFloat(value);
+    });
+    return result;
+  };
+
+  return {
+    dimensionHeaders,
+    metricHeaders,
+    rows: (response.rows || []).map(toRow),
+    totals: (response.totals || []).map(toRow),
+    rowCount: Number(response.rowCount || 0),
+    metadata: response.metadata,
+  };
+}
@@ -0,0 +1,73 @@
+import type { AnalyticsProvider } from "./analytics-provider";
+
+// gRPC status codes worth another attempt: DEADLINE_EXCEEDED, RESOURCE_EXHAUSTED
+// (concurrent request limit), ABORTED, INTERNAL and UNAVAILABLE
+const RETRYABLE_CODES = new Set([4, 8, 10, 13, 14]);
+const RESOURCE_EXHAUSTED = 8;
+// RESOURCE_EXHAUSTED also means the hourly or daily token budget is spent
+// ("Exhausted property tokens per hour..."); retrying that only burns more
+const TOKENS_EXHAUSTED = /exhausted\b.*\btokens/i;
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: parseInt(process.env.GA_RETRY_MAX_ATTEMPTS || "3"),
+  baseDelayMs: parseInt(process.env.GA_RETRY_BASE_DELAY_MS || "300"),
+  maxDelayMs: 5000,
+};
+
+export function isTokenQuotaError(error: unknown): boolean {
+  const { code, message } = (error as { code?: unknown; message?: unknown } | null) ?? {};
+  return code === RESOURCE_EXHAUSTED && typeof message === "string" && TOKENS_EXHAUSTED.test(message);
+}
+
+export function isRetryableError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "number" && RETRYABLE_CODES.has(code) && !isTokenQuotaError(error);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= options.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+      // Exponential backoff with full jitter
+      const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+      await sleep(Math.random() * ceiling);
+    }
+  }
+}
+
+export function withRetries(provider: AnalyticsProvider, options?: RetryOptions): AnalyticsProvider {
+  return {
+    ...provider,
+
+    runReport(request) {
+      return withRetry(() => provider.runReport(request), options);
+    },
+
+    batchRunReports(requests) {
+      return withRetry(() => provider.batchRunReports(requests), options);
+    },
+
+    getMetadata(property) {
+      return withRetry(() => provider.getMetadata(property), options);
+    },
+
+    checkCompatibility(request) {
+      return withRetry(() => provider.checkCompatibility(request), options);
+    },
+  };
+}
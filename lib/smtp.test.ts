@@ -0,0 +1,43 @@
+import net from "net";
+import type { AddressInfo } from "net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const message = { from: "alerts@example.com", to: ["analytics@example.com"], subject: "Test", text: "Hello" };
+
+// SMTP_TIMEOUT_MS is read when the module loads
+async function loadSmtp(timeoutMs: number) {
+  vi.stubEnv("SMTP_TIMEOUT_MS", String(timeoutMs));
+  vi.resetModules();
+  return import("./smtp");
+}
+
+describe("sendMail timeouts", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it("gives up on a host that never answers the connection", async () => {
+    // A socket that never connects, as when the host drops packets
+    const socket = new net.Socket();
+    vi.spyOn(net, "connect").mockReturnValue(socket);
+    const { sendMail } = await loadSmtp(100);
+
+    await expect(sendMail({ host: "192.0.2.1", port: 25 }, message)).rejects.toThrow("SMTP connection timed out after 100ms");
+    expect(socket.destroyed).toBe(true);
+  });
+
+  it("gives up on a server that accepts the connection but never greets", async () => {
+    const silent = net.createServer(() => undefined);
+    await new Promise<void>((resolve) => silent.listen(0, "127.0.0.1", resolve));
+    const { sendMail } = await loadSmtp(100);
+
+    try {
+      await expect(
+        sendMail({ host: "127.0.0.1", port: (silent.address() as AddressInfo).port }, message)
+      ).rejects.toThrow("SMTP server timed out");
+    } finally {
+      silent.close();
+    }
+  });
+});
@@ -0,0 +1,172 @@
+import net from "net";
+import os from "os";
+import tls from "tls";
+import type { SmtpSettings } from "./alert-rules";
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+const SMTP_TIMEOUT_MS = parseInt(process.env.SMTP_TIMEOUT_MS || "15000");
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// Reads multi-line SMTP replies ("250-..." continued, "250 ..." final) off
+// a socket, one per call to next()
+function replyReader(socket: net.Socket) {
+  let buffer = "";
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const replies: SmtpReply[] = [];
+  const waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+
+  socket.on("data", (chunk: Buffer) => {
+    buffer += chunk.toString("utf-8");
+    let end;
+    while ((end = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line);
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3)), lines: lines.map((l) => l.slice(4)) };
+        lines = [];
+        const next = waiting.shift();
+        if (next) next.resolve(reply);
+        else replies.push(reply);
+      }
+    }
+  });
+
+  const fail = (error: Error) => {
+    failure = error;
+    while (waiting.length > 0) waiting.shift()!.reject(error);
+  };
+  socket.on("error", fail);
+  socket.on("close", () => fail(new Error("SMTP connection closed")));
+
+  return {
+    next(): Promise<SmtpReply> {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    detach() {
+      socket.removeAllListeners("data");
+      socket.removeAllListeners("error");
+      socket.removeAllListeners("close");
+    },
+  };
+}
+
+// A host that drops packets never errors, and the socket's own timeout only
+// runs once it's connected, so connecting and the TLS handshake get a timer
+function whenConnected<T extends net.Socket>(socket: T, event: "connect" | "secureConnect"): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => socket.destroy(new Error(`SMTP connection timed out after ${SMTP_TIMEOUT_MS}ms`)),
+      SMTP_TIMEOUT_MS
+    );
+    socket.once(event, () => {
+      clearTimeout(timer);
+      resolve(socket);
+    });
+    socket.once("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+function connect(settings: SmtpSettings): Promise<net.Socket> {
+  return settings.secure
+    ? whenConnected(tls.connect({ host: settings.host, port: settings.port, servername: settings.host }), "secureConnect")
+    : whenConnected(net.connect({ host: settings.host, port: settings.port }), "connect");
+}
+
+function upgrade(socket: net.Socket, host: string): Promise<net.Socket> {
+  return whenConnected(tls.connect({ socket, servername: host }), "secureConnect");
+}
+
+// Non-ASCII subjects need RFC 2047 encoding
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`;
+}
+
+function formatMessage(message: MailMessage): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+  // Lines starting with "." are doubled so they can't end the DATA section
+  const body = message.text
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith(".") ? `.${line}` : line))
+    .join("\r\n");
+  return `${headers.join("\r\n")}\r\n\r\n${body}\r\n.\r\n`;
+}
+
+// Minimal SMTP client: enough to hand a plain-text message to a relay, or to
+// a local test server such as MailHog or smtp4dev
+export async function sendMail(settings: SmtpSettings, message: MailMessage): Promise<void> {
+  let socket = await connect(settings);
+  socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP server timed out")));
+  let reader = replyReader(socket);
+
+  const expect = async (verb: string, codes: number[]) => {
+    const reply = await reader.next();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  };
+  const send = (line: string, verb: string, codes: number[]) => {
+    socket.write(`${line}\r\n`);
+    return expect(verb, codes);
+  };
+
+  try {
+    await expect("greeting", [220]);
+    let hello = await send(`EHLO ${os.hostname()}`, "EHLO", [250]);
+
+    const offersStartTls = hello.lines.some((line) => line.toUpperCase() === "STARTTLS");
+    if (!settings.secure && settings.startTls !== false && offersStartTls) {
+      await send("STARTTLS", "STARTTLS", [220]);
+      reader.detach();
+      socket.setTimeout(0);
+      socket = await upgrade(socket, settings.host);
+      socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP server timed out")));
+      reader = replyReader(socket);
+      hello = await send(`EHLO ${os.hostname()}`, "EHLO", [250]);
+    }
+
+    if (settings.user) {
+      const credentials = Buffer.from(`\0${settings.user}\0${settings.password || ""}`, "utf-8").toString("base64");
+      await send(`AUTH PLAIN ${credentials}`, "AUTH", [235]);
+    }
+
+    await send(`MAIL FROM:<${message.from}>`, "MAIL FROM", [250]);
+    for (const recipient of message.to) {
+      await send(`RCPT TO:<${recipient}>`, "RCPT TO", [250, 251]);
+    }
+    await send("DATA", "DATA", [354]);
+    socket.write(formatMessage(message));
+    await expect("DATA", [250]);
+    await send("QUIT", "QUIT", [221]).catch(() => undefined);
+  } finally {
+    reader.detach();
+    socket.on("error", () => undefined);
+    socket.destroy();
+  }
+}
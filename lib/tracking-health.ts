@@ -0,0 +1,220 @@
+import { getLeadEventDays, getWeeklyDashboardMetrics, type DateRange, type LeadEventDays, type ReportOptions } from "./ga-client";
+import { getProperty } from "./properties";
+import { scoreDays, type DailyValue } from "./anomalies";
+import { addDays, dateInTimeZone, eachDate } from "./dates";
+import { mergeQuality, type ReportResult } from "./data-quality";
+
+// Signs that a lead event's tag broke (a deploy dropped the GTM trigger, the
+// form changed, consent mode started blocking it) or that a data feed went
+// away. Each check compares the last few complete days with the weeks before.
+
+export type HealthStatus = "ok" | "warning" | "failing";
+
+export interface HealthCheck {
+  id: "zeroDays" | "eventsPerSession" | "notSetShare" | "searchConsole";
+  label: string;
+  status: HealthStatus;
+  message: string;
+}
+
+export interface LeadEventHealth {
+  event: string;
+  label: string;
+  status: HealthStatus;
+  checks: HealthCheck[];
+}
+
+export interface TrackingHealth {
+  property: string;
+  checkedAt: string;
+  // Recent days checked, and the days they're compared with
+  range: DateRange;
+  baselineRange: DateRange;
+  status: HealthStatus;
+  events: LeadEventHealth[];
+  searchConsole: HealthCheck;
+}
+
+// Days checked for missing events, and for ratio and "(not set)" changes
+const ZERO_DAY_WINDOW = 7;
+const RECENT_DAYS = 3;
+const BASELINE_DAYS = 28;
+// A day with no events is suspicious once zero was less than 1% likely:
+// P(0) = e^-expected for a Poisson count
+const MIN_EXPECTED_FOR_ZERO = Math.log(100);
+// Too few events in the recent days to judge a ratio or share
+const MIN_RECENT_EVENTS = 10;
+// Relative drop in events per session
+const RATIO_DROP_WARNING = 0.3;
+const RATIO_DROP_FAILING = 0.5;
+// Rise in the "(not set)" share of events, in percentage points
+const NOT_SET_RISE_WARNING = 0.15;
+const NOT_SET_RISE_FAILING = 0.3;
+// Search Console data in GA usually trails by two to three days
+const SEARCH_CONSOLE_LAG_DAYS = 4;
+
+const SEVERITY: Record<HealthStatus, number> = { ok: 0, warning: 1, failing: 2 };
+
+export function worstStatus(statuses: HealthStatus[]): HealthStatus {
+  return statuses.reduce<HealthStatus>((worst, status) => (SEVERITY[status] > SEVERITY[worst] ? status : worst), "ok");
+}
+
+export function isAtLeast(status: HealthStatus, level: HealthStatus): boolean {
+  return SEVERITY[status] >= SEVERITY[level];
+}
+
+function sumBetween(days: DailyValue[], range: DateRange): number {
+  return days
+    .filter((day) => day.date >= range.startDate && day.date <= range.endDate)
+    .reduce((sum, day) => sum + day.value, 0);
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+// Days with no events where the same weekday usually has enough that zero is
+// implausible. No events since is failing; a gap that recovered is a
+// warning.
+function checkZeroDays(event: LeadEventDays, endDate: string): HealthCheck {
+  const checked = eachDate(addDays(endDate, -(ZERO_DAY_WINDOW - 1)), endDate);
+  const suspicious = scoreDays(event.total, checked, { lookbackDays: BASELINE_DAYS, counts: true })
+    .filter((point) => point.value === 0 && point.expected >= MIN_EXPECTED_FOR_ZERO)
+    .map((point) => point.date);
+
+  const label = "Zero-event days";
+  if (suspicious.length === 0) {
+    return { id: "zeroDays", label, status: "ok", message: `Events recorded every expected day in the last ${ZERO_DAY_WINDOW} days` };
+  }
+  // Quiet days after the last suspicious one don't mean it recovered
+  const lastSuspicious = suspicious[suspicious.length - 1];
+  const stillZero = event.total.every((day) => day.date < lastSuspicious || day.value === 0);
+  return {
+    id: "zeroDays",
+    label,
+    status: stillZero ? "failing" : "warning",
+    message: `No events on ${suspicious.join(", ")}, when that weekday usually has some`,
+  };
+}
+
+function checkEventsPerSession(event: LeadEventDays, sessions: DailyValue[], recent: DateRange, baseline: DateRange): HealthCheck {
+  const label = "Events per session";
+  const baselineRatio = sumBetween(event.total, baseline) / Math.max(sumBetween(sessions, baseline), 1);
+  const recentSessions = sumBetween(sessions, recent);
+  const recentRatio = sumBetween(event.total, recent) / Math.max(recentSessions, 1);
+
+  if (baselineRatio * recentSessions < MIN_RECENT_EVENTS) {
+    return { id: "eventsPerSession", label, status: "ok", message: "Too few events to compare" };
+  }
+
+  const drop = 1 - recentRatio / baselineRatio;
+  const status: HealthStatus = drop >= RATIO_DROP_FAILING ? "failing" : drop >= RATIO_DROP_WARNING ? "warning" : "ok";
+  const per1000 = (ratio: number) => (ratio * 1000).toFixed(1);
+  return {
+    id: "eventsPerSession",
+    label,
+    status,
+    message: `${per1000(recentRatio)} per 1,000 sessions over the last ${RECENT_DAYS} days, against ${per1000(baselineRatio)} before` +
+      (status === "ok" ? "" : ` (${percent(drop)} lower)`),
+  };
+}
+
+function checkNotSetShare(event: LeadEventDays, recent: DateRange, baseline: DateRange): HealthCheck {
+  const label = "\"(not set)\" source share";
+  const recentTotal = sumBetween(event.total, recent);
+  if (recentTotal < MIN_RECENT_EVENTS) {
+    return { id: "notSetShare", label, status: "ok", message: "Too few events to compare" };
+  }
+
+  const recentShare = sumBetween(event.unattributed, recent) / recentTotal;
+  const baselineShare = sumBetween(event.unattributed, baseline) / Math.max(sumBetween(event.total, baseline), 1);
+  const rise = recentShare - baselineShare;
+  return {
+    id: "notSetShare",
+    label,
+    status: rise >= NOT_SET_RISE_FAILING ? "failing" : rise >= NOT_SET_RISE_WARNING ? "warning" : "ok",
+    message: `${percent(recentShare)} of events had no source over the last ${RECENT_DAYS} days, against ${percent(baselineShare)} before`,
+  };
+}
+
+// Search Console rows come from getWeeklyDashboardMetrics, which quietly shows
+// zeros when the report fails, so check that its data is still arriving
+async function checkSearchConsole(range: DateRange, options: ReportOptions): Promise<ReportResult<HealthCheck>> {
+  const { data, quality } = await getWeeklyDashboardMetrics(range, options);
+  const { searchConsole } = data;
+  const label = "Search Console";
+
+  if (!searchConsole.available) {
+    return {
+      data: { id: "searchConsole", label, status: "failing", message: `Search Console report failed: ${searchConsole.error}` },
+      quality,
+    };
+  }
+  if (!searchConsole.lastDate) {
+    return {
+      data: {
+        id: "searchConsole",
+        label,
+        status: "warning",
+        message: `No Search Console data between ${range.startDate} and ${range.endDate}; is Search Console linked to the property?`,
+      },
+      quality,
+    };
+  }
+  const stale = searchConsole.lastDate < addDays(range.endDate, -SEARCH_CONSOLE_LAG_DAYS);
+  return {
+    data: {
+      id: "searchConsole",
+      label,
+      status: stale ? "failing" : "ok",
+      message: stale
+        ? `No Search Console data since ${searchConsole.lastDate}`
+        : `Search Console data up to ${searchConsole.lastDate}`,
+    },
+    quality,
+  };
+}
+
+// Run every check for each of the property's lead events, over complete days
+// ending yesterday
+export async function getTrackingHealth(options: ReportOptions = {}, now: Date = new Date()): Promise<ReportResult<TrackingHealth>> {
+  const property = getProperty(options.property);
+  const endDate = addDays(dateInTimeZone(now, property.timezone), -1);
+  const range: DateRange = { startDate: addDays(endDate, -(RECENT_DAYS - 1)), endDate };
+  const baselineRange: DateRange = { startDate: addDays(range.startDate, -BASELINE_DAYS), endDate: addDays(range.startDate, -1) };
+  // Zero days are checked over a longer window, each against the weeks before it
+  const historyStart = addDays(endDate, -(ZERO_DAY_WINDOW - 1 + BASELINE_DAYS));
+
+  const [leadDays, searchConsole] = await Promise.all([
+    getLeadEventDays({ startDate: historyStart, endDate }, options),
+    checkSearchConsole({ startDate: baselineRange.startDate, endDate }, options),
+  ]);
+
+  const events = property.leadEvents.map((definition) => {
+    const event = leadDays.data.events[definition.name];
+    const checks = [
+      checkZeroDays(event, endDate),
+      checkEventsPerSession(event, leadDays.data.sessions, range, baselineRange),
+      checkNotSetShare(event, range, baselineRange),
+    ];
+    return {
+      event: definition.name,
+      label: definition.label,
+      status: worstStatus(checks.map((check) => check.status)),
+      checks,
+    };
+  });
+
+  return {
+    data: {
+      property: property.id,
+      checkedAt: now.toISOString(),
+      range,
+      baselineRange,
+      status: worstStatus([...events.map((event) => event.status), searchConsole.data.status]),
+      events,
+      searchConsole: searchConsole.data,
+    },
+    quality: mergeQuality(leadDays.quality, searchConsole.quality),
+  };
+}